@@ -4,9 +4,30 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { TranscriptsController } from './controllers/transcripts.controller';
 import { AiAnalysisController } from './controllers/ai-analysis.controller';
+import { SavedSearchesController } from './controllers/saved-searches.controller';
 import { TranscriptProcessingService } from './services/transcript-processing.service';
 import { OpenAiService } from './services/openai.service';
+import { LlmSchedulerService } from './services/llm-scheduler.service';
+import { AiBudgetService } from './services/ai-budget.service';
 import { CacheService } from './services/cache.service';
+import { TranscriptMetricsService } from './services/transcript-metrics.service';
+import { TranscriptMetadataService } from './services/transcript-metadata.service';
+import { LanguageDetectionService } from './services/language-detection.service';
+import { TranscriptSearchService } from './services/transcript-search.service';
+import { SemanticSearchService } from './services/semantic-search.service';
+import { DuplicateDetectionService } from './services/duplicate-detection.service';
+import { PiiRedactionService } from './services/pii-redaction.service';
+import { TranscriptWatcherService } from './services/transcript-watcher.service';
+import { SavedSearchService } from './services/saved-search.service';
+import { SavedSearchSchedulerService } from './services/saved-search-scheduler.service';
+import { TranscriptParserRegistry } from './parsers/transcript-parser.registry';
+import { SpeakerRoleMapper } from './parsers/speaker-role.mapper';
+import { transcriptRepositoryProvider } from './repositories/transcript-repository.provider';
+import { savedSearchRepositoryProvider } from './repositories/saved-search-repository.provider';
+import { aiUsageLedgerRepositoryProvider } from './repositories/ai-usage-ledger-repository.provider';
+import { embeddingProvider } from './embeddings/embedding-provider.provider';
+import { llmProvider } from './llm/llm-provider.provider';
+import { notificationSinkProvider } from './notifications/notification-sink.provider';
 
 @Module({
   imports: [
@@ -15,12 +36,37 @@ import { CacheService } from './services/cache.service';
       envFilePath: '.env',
     }),
   ],
-  controllers: [AppController, TranscriptsController, AiAnalysisController],
+  controllers: [
+    AppController,
+    TranscriptsController,
+    AiAnalysisController,
+    SavedSearchesController,
+  ],
   providers: [
     AppService,
     TranscriptProcessingService,
     OpenAiService,
+    LlmSchedulerService,
+    AiBudgetService,
     CacheService,
+    TranscriptMetricsService,
+    TranscriptMetadataService,
+    LanguageDetectionService,
+    TranscriptSearchService,
+    SemanticSearchService,
+    DuplicateDetectionService,
+    PiiRedactionService,
+    TranscriptWatcherService,
+    SavedSearchService,
+    SavedSearchSchedulerService,
+    TranscriptParserRegistry,
+    SpeakerRoleMapper,
+    transcriptRepositoryProvider,
+    embeddingProvider,
+    llmProvider,
+    savedSearchRepositoryProvider,
+    aiUsageLedgerRepositoryProvider,
+    notificationSinkProvider,
   ],
 })
 export class AppModule implements OnModuleInit {
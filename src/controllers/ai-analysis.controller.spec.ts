@@ -0,0 +1,319 @@
+import { INestApplication, StreamableFile } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppModule } from '../app.module';
+import { AiAnalysisController } from './ai-analysis.controller';
+import { TranscriptProcessingService } from '../services/transcript-processing.service';
+import { CacheService } from '../services/cache.service';
+import { LlmProvider } from '../llm/llm.provider';
+import { MockLlmProvider } from '../llm/mock-llm.provider';
+import { LlmUnavailableError } from '../llm/llm-errors';
+import {
+  AiBudgetExceededError,
+  AiBudgetService,
+} from '../services/ai-budget.service';
+import type { ApiResponse as ApiResponseInterface } from '../interfaces/transcript.interface';
+import type {
+  AiBudgetStatus,
+  AiUsageReport,
+} from '../interfaces/ai-usage.interface';
+
+const ENV = {
+  LLM_PROVIDER: 'mock',
+  TRANSCRIPT_STORE: 'memory',
+  TRANSCRIPTS_WATCH: 'false',
+  SAVED_SEARCH_INTERVAL_MS: '0',
+};
+
+describe('AiAnalysisController (mock LLM provider)', () => {
+  let dir: string;
+  let app: INestApplication;
+  let controller: AiAnalysisController;
+  let transcripts: TranscriptProcessingService;
+  const previousEnv: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ai-analysis-'));
+    await writeFile(
+      join(dir, 'billing.txt'),
+      [
+        '[00:00:00] AGENTE: Buenos días, ¿en qué le puedo ayudar?',
+        '[00:00:05] CLIENTE: Me llegó un cobro que no reconozco en mi boleta.',
+        '[00:00:12] AGENTE: Reviso el cargo y le devuelvo el pago.',
+      ].join('\n'),
+    );
+    await writeFile(
+      join(dir, 'internet.txt'),
+      [
+        '[00:00:00] AGENTE: Hola, soporte técnico.',
+        '[00:00:04] CLIENTE: Mi internet está muy lento desde ayer.',
+        '[00:00:10] AGENTE: Voy a reiniciar su router.',
+      ].join('\n'),
+    );
+
+    const env = { ...ENV, TRANSCRIPTS_DIR: dir };
+    for (const [key, value] of Object.entries(env)) {
+      previousEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+
+    controller = app.get(AiAnalysisController);
+    transcripts = app.get(TranscriptProcessingService);
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('classifies a transcript and records the mock model', async () => {
+    const response = await controller.classifyTranscriptWithAI('billing');
+
+    expect(response.data).toMatchObject({
+      transcriptId: 'billing',
+      category: 'billing_issues',
+      topics: ['billing'],
+    });
+    expect(JSON.stringify(response.data)).toContain(
+      'Me llegó un cobro que no reconozco en mi boleta.',
+    );
+    expect(transcripts.getTranscriptById('billing')).toMatchObject({
+      category: 'billing_issues',
+      topics: ['billing'],
+    });
+    expect(
+      transcripts.getTranscriptById('billing')?.annotations?.category?.model,
+    ).toBe('mock-rules');
+  });
+
+  it('classifies every transcript', async () => {
+    await controller.classifyAllTranscriptsWithAI();
+
+    expect(transcripts.getTranscriptById('internet')?.category).toBe(
+      'technical_issues',
+    );
+  });
+
+  it('extracts topics from the selected transcripts', async () => {
+    const response = await controller.extractTopicsWithAI({
+      transcriptIds: ['internet'],
+    });
+
+    expect(JSON.stringify(response.data)).toContain('connectivity');
+  });
+
+  it('saves extracted topics without touching the summary', async () => {
+    const before = transcripts.getTranscriptById('internet');
+
+    await controller.extractTopicsWithAI({
+      transcriptIds: ['internet'],
+      topicsCount: 3,
+    });
+
+    const after = transcripts.getTranscriptById('internet');
+    expect(after?.topics).toEqual(['connectivity']);
+    expect(after?.annotations?.topics?.model).toBe('mock-rules');
+    expect(after?.summary).toBe(before?.summary);
+    expect(after?.annotations?.summary).toEqual(before?.annotations?.summary);
+  });
+
+  it('summarizes a transcript', async () => {
+    const response = await controller.generateSummaryWithAI('internet');
+
+    expect(response.data).toMatchObject({
+      summary:
+        'Customer call about connectivity. The customer said: "Mi internet está muy lento desde ayer."',
+    });
+  });
+
+  it('reports the recorded calls per transcript in the usage ledger', () => {
+    const report = controller.getUsage({});
+    expect(report).not.toBeInstanceOf(StreamableFile);
+
+    const { data } = report as ApiResponseInterface<
+      AiUsageReport & { budgets: AiBudgetStatus[] }
+    >;
+    expect(Object.keys(data!.byModel)).toEqual(['mock-rules']);
+    expect(data!.budgets).toMatchObject([
+      { scope: 'monthly', limit: 5, spent: 0, state: 'ok' },
+    ]);
+
+    const csv = controller.getUsage({ format: 'csv', operation: 'summarize' });
+    expect(csv).toBeInstanceOf(StreamableFile);
+    const rows = ((csv as StreamableFile).getStream().read() as Buffer)
+      .toString()
+      .trim()
+      .split('\n');
+    expect(rows[0]).toContain('transcriptId');
+    expect(rows.slice(1).map((row) => row.split(',')[2])).toEqual([
+      'billing',
+      'internet',
+    ]);
+  });
+
+  it('returns 404 for unknown transcripts', async () => {
+    await expect(
+      controller.generateSummaryWithAI('missing'),
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('keeps the topic batches done before the provider went down', async () => {
+    const ids = Array.from({ length: 11 }, (_, i) => `outage-${i}`);
+    transcripts.ingestTranscripts(
+      ids.map((id) => ({
+        fileName: `${id}.txt`,
+        content: [
+          '[00:00:00] AGENTE: Hola, soporte técnico.',
+          '[00:00:04] CLIENTE: No tengo internet desde ayer.',
+        ].join('\n'),
+      })),
+    );
+    // The first batch of ten is answered, the second finds the provider down.
+    const answering = new MockLlmProvider();
+    let calls = 0;
+    const spy = jest
+      .spyOn(app.get<LlmProvider>(LlmProvider), 'complete')
+      .mockImplementation((request) =>
+        ++calls > 10
+          ? Promise.reject(new LlmUnavailableError(new Date()))
+          : answering.complete(request),
+      );
+
+    try {
+      await expect(
+        controller.extractTopicsWithAI({ transcriptIds: ids }),
+      ).rejects.toMatchObject({ status: 503 });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(
+      ids.map((id) => transcripts.getTranscriptById(id)?.category ?? null),
+    ).toEqual([...Array<string>(10).fill('technical_issues'), null]);
+  });
+
+  it('keeps the analyses finished in the batch the provider went down in', async () => {
+    transcripts.ingestTranscripts(
+      ['No tengo internet desde ayer.', 'El router no enciende.'].map(
+        (client, i) => ({
+          fileName: `partial-${i}.txt`,
+          content: `[00:00:00] AGENTE: Hola, soporte técnico.\n[00:00:04] CLIENTE: ${client}`,
+        }),
+      ),
+    );
+    const answering = new MockLlmProvider();
+    const spy = jest
+      .spyOn(app.get<LlmProvider>(LlmProvider), 'complete')
+      .mockImplementation((request) =>
+        JSON.stringify(request.messages).includes('router')
+          ? Promise.reject(new LlmUnavailableError(new Date()))
+          : answering.complete(request),
+      );
+
+    try {
+      await expect(
+        controller.extractTopicsWithAI({
+          transcriptIds: ['partial-0', 'partial-1'],
+        }),
+      ).rejects.toMatchObject({ status: 503 });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(transcripts.getTranscriptById('partial-0')?.category).toBe(
+      'technical_issues',
+    );
+    expect(transcripts.getTranscriptById('partial-1')?.category).toBe(
+      undefined,
+    );
+  });
+
+  it('answers 402 when a call is refused by the budget', async () => {
+    const exceeded: AiBudgetStatus[] = [
+      {
+        scope: 'daily',
+        period: '2025-09-15',
+        limit: 1,
+        spent: 1,
+        remaining: 0,
+        state: 'exceeded',
+      },
+    ];
+    const spy = jest
+      .spyOn(app.get(AiBudgetService), 'reserve')
+      .mockImplementation(() => {
+        throw new AiBudgetExceededError(exceeded);
+      });
+
+    try {
+      for (const call of [
+        () => controller.classifyTranscriptWithAI('outage-10'),
+        () => controller.generateSummaryWithAI('outage-10'),
+        () => controller.extractTopicsWithAI({ transcriptIds: ['outage-10'] }),
+      ]) {
+        await expect(call()).rejects.toMatchObject({
+          status: 402,
+          response: { budgets: exceeded },
+        });
+      }
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it.each([
+    [
+      'classify/:id',
+      'stale-one',
+      (c: AiAnalysisController) => c.classifyTranscriptWithAI('stale-one'),
+    ],
+    [
+      'classify/all',
+      'stale-all',
+      (c: AiAnalysisController) => c.classifyAllTranscriptsWithAI(),
+    ],
+    [
+      'topics/extract',
+      'stale-topics',
+      (c: AiAnalysisController) =>
+        c.extractTopicsWithAI({ transcriptIds: ['stale-topics'] }),
+    ],
+  ])(
+    'drops the cached results a new category affects after %s',
+    async (_, id, call) => {
+      transcripts.ingestTranscripts([
+        {
+          fileName: `${id}.txt`,
+          content:
+            '[00:00:00] AGENTE: Hola, soporte técnico.\n[00:00:04] CLIENTE: Se corta la señal.',
+        },
+      ]);
+      const cache = app.get(CacheService);
+      cache.invalidateTranscripts();
+      const keys = ['statistics', 'search:señal', 'frequent-topics:all'];
+      keys.forEach((key) => cache.set(key, { stale: true }));
+
+      await call(controller);
+
+      expect(transcripts.getTranscriptById(id)?.category).toBe(
+        'technical_issues',
+      );
+      expect(keys.filter((key) => cache.has(key))).toEqual([]);
+    },
+  );
+});
@@ -1,21 +1,33 @@
 import {
   Controller,
+  Get,
   Post,
   Param,
   Body,
+  Query,
   Logger,
   HttpException,
   HttpStatus,
+  StreamableFile,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
-import { ExtractTopicsDto } from '../dto/transcripts.dto';
+import { ExtractTopicsDto, TranscriptCategory } from '../dto/transcripts.dto';
+import { AiUsageQueryDto } from '../dto/ai-usage.dto';
 import { TranscriptProcessingService } from '../services/transcript-processing.service';
 import { OpenAiService } from '../services/openai.service';
 import { CacheService } from '../services/cache.service';
+import {
+  AiBudgetExceededError,
+  AiBudgetService,
+} from '../services/ai-budget.service';
+import { StructuredOutputError } from '../llm/structured-output';
+import { LlmRequestError, LlmUnavailableError } from '../llm/llm-errors';
 import type {
   ApiResponse as ApiResponseInterface,
+  ParsedTranscript,
   TopicAnalysis,
 } from '../interfaces/transcript.interface';
+import type { AiBudgetStatus } from '../interfaces/ai-usage.interface';
 
 @ApiTags('AI Analysis (Uses OpenAI - Consumes Tokens)')
 @Controller('api/ai')
@@ -26,13 +38,14 @@ export class AiAnalysisController {
     private readonly transcriptService: TranscriptProcessingService,
     private readonly openAiService: OpenAiService,
     private readonly cacheService: CacheService,
+    private readonly aiBudgetService: AiBudgetService,
   ) {}
 
   @Post('topics/extract')
   @ApiOperation({
     summary: 'Extract and analyze topics from transcripts with AI',
     description:
-      'Analyzes individual transcripts using OpenAI to identify main topics and themes. Returns topics with their frequency and the specific transcript IDs where each topic appears. Useful for understanding common issues and patterns across customer interactions. Consumes OpenAI tokens.',
+      'Analyzes individual transcripts using OpenAI to identify main topics and themes. Returns topics with their frequency and the specific transcript IDs where each topic appears. Useful for understanding common issues and patterns across customer interactions. Consumes OpenAI tokens. Without transcriptIds, EXCLUDE_DUPLICATES=true leaves duplicate copies out.',
   })
   @ApiResponse({
     status: 200,
@@ -78,6 +91,7 @@ export class AiAnalysisController {
             totalTopics: 2,
             categories: ['billing_issues', 'technical_issues'],
           },
+          failed: [],
         },
       },
     },
@@ -86,6 +100,11 @@ export class AiAnalysisController {
     status: 402,
     description: 'AI budget exceeded - cannot perform operation',
   })
+  @ApiResponse({
+    status: 503,
+    description:
+      'AI unavailable - the provider kept failing, retry after the given time',
+  })
   async extractTopicsWithAI(
     @Body() extractDto: ExtractTopicsDto,
   ): Promise<ApiResponseInterface<any>> {
@@ -99,15 +118,10 @@ export class AiAnalysisController {
         return cachedResult;
       }
 
-      const estimatedTokens = 1000 * (extractDto.transcriptIds?.length || 10);
-      if (!this.openAiService.canPerformOperation(estimatedTokens)) {
-        throw new HttpException(
-          'AI budget exceeded. Cannot perform this operation.',
-          HttpStatus.PAYMENT_REQUIRED,
-        );
-      }
-
-      let transcripts = this.transcriptService.getTranscripts();
+      // Transcripts asked for by ID are analyzed even when they are copies.
+      let transcripts = extractDto.transcriptIds?.length
+        ? this.transcriptService.getTranscripts()
+        : this.transcriptService.getAnalysisTranscripts();
 
       if (extractDto.transcriptIds && extractDto.transcriptIds.length > 0) {
         transcripts = transcripts.filter((t) =>
@@ -121,16 +135,27 @@ export class AiAnalysisController {
         );
       }
 
+      const budget = this.openAiService.checkBudget(
+        this.openAiService.estimateCost(['topics'], transcripts),
+      );
+      if (!budget.allowed) {
+        throw this.overBudget(budget.exceeded);
+      }
+
+      this.openAiService.assertAvailable();
+
       const batchSize = 10;
       const allTranscriptAnalyses: Array<{
         transcriptId: string;
-        category: string;
+        category: TranscriptCategory;
         confidence: number;
         topics: string[];
       }> = [];
       const allAggregatedTopics: (TopicAnalysis & {
         categories?: string[];
       })[] = [];
+      // Transcripts the provider gave no usable answer for, with the reason.
+      const failed: Array<{ transcriptId: string; error: string }> = [];
 
       for (let i = 0; i < transcripts.length; i += batchSize) {
         const batch = transcripts.slice(i, i + batchSize);
@@ -139,8 +164,36 @@ export class AiAnalysisController {
           extractDto.topicsCount,
         );
 
+        // Persisted batch by batch, so the analyses already paid for are
+        // kept when the provider or the budget ends the request with 503 or
+        // 402, including those finished in the batch that was cut short.
+        for (const analysis of batchResult.transcripts) {
+          this.transcriptService.updateTranscriptClassification(
+            analysis.transcriptId,
+            analysis.category,
+            undefined,
+            this.openAiService.getModelName(),
+            this.openAiService.getOutputLanguage(),
+          );
+          this.transcriptService.updateTranscriptTopics(
+            analysis.transcriptId,
+            analysis.topics,
+            this.openAiService.getModelName(),
+            this.openAiService.getOutputLanguage(),
+          );
+        }
+        if (batchResult.transcripts.length > 0) {
+          this.cacheService.invalidateTranscripts(
+            batchResult.transcripts.map((analysis) => analysis.transcriptId),
+          );
+        }
+
         allTranscriptAnalyses.push(...batchResult.transcripts);
         allAggregatedTopics.push(...batchResult.aggregatedTopics);
+        failed.push(...batchResult.failed);
+        if (batchResult.aborted) {
+          throw batchResult.aborted;
+        }
       }
 
       const topicsMap = new Map<
@@ -174,16 +227,6 @@ export class AiAnalysisController {
         .sort((a, b) => b.frequency - a.frequency)
         .slice(0, extractDto.topicsCount || 5);
 
-      for (const analysis of allTranscriptAnalyses) {
-        this.transcriptService.updateTranscriptClassification(
-          analysis.transcriptId,
-          analysis.category,
-          `Classified with ${Math.round(analysis.confidence * 100)}% confidence`,
-        );
-      }
-
-      this.cacheService.delete('statistics');
-
       const response: ApiResponseInterface<any> = {
         success: true,
         data: {
@@ -196,6 +239,7 @@ export class AiAnalysisController {
               new Set(allTranscriptAnalyses.map((t) => t.category)),
             ),
           },
+          failed,
         },
       };
 
@@ -211,6 +255,12 @@ export class AiAnalysisController {
       if (error instanceof HttpException) {
         throw error;
       }
+      if (error instanceof AiBudgetExceededError) {
+        throw this.overBudget(error.exceeded);
+      }
+      if (error instanceof LlmUnavailableError) {
+        throw this.unavailable(error);
+      }
       throw new HttpException(
         'Error extracting topics with AI',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -222,7 +272,7 @@ export class AiAnalysisController {
   @ApiOperation({
     summary: 'Classify ALL transcripts using AI (Batch Operation)',
     description:
-      'Uses OpenAI to automatically categorize ALL available transcripts. This is a heavy operation that consumes many AI tokens. Use with caution.',
+      'Uses OpenAI to automatically categorize ALL available transcripts. This is a heavy operation that consumes many AI tokens. Use with caution. With EXCLUDE_DUPLICATES=true only one transcript per duplicate cluster is sent.',
   })
   @ApiResponse({
     status: 200,
@@ -258,6 +308,11 @@ export class AiAnalysisController {
     status: 402,
     description: 'AI budget exceeded - cannot perform operation',
   })
+  @ApiResponse({
+    status: 503,
+    description:
+      'AI unavailable - the provider kept failing, retry after the given time',
+  })
   async classifyAllTranscriptsWithAI(): Promise<ApiResponseInterface<any>> {
     try {
       const startTime = Date.now();
@@ -270,37 +325,37 @@ export class AiAnalysisController {
         return cachedResult;
       }
 
-      const allTranscripts = this.transcriptService.getTranscripts();
-      const estimatedTokens = allTranscripts.length * 500;
+      const allTranscripts = this.transcriptService.getAnalysisTranscripts();
+      const pending = allTranscripts.filter((transcript) =>
+        this.needsClassification(transcript),
+      );
 
-      if (!this.openAiService.canPerformOperation(estimatedTokens)) {
-        throw new HttpException(
+      const budget = this.openAiService.checkBudget(
+        this.openAiService.estimateCost(['classify'], pending),
+      );
+      if (!budget.allowed) {
+        throw this.overBudget(
+          budget.exceeded,
           `AI budget exceeded. Estimated cost too high for ${allTranscripts.length} transcripts.`,
-          HttpStatus.PAYMENT_REQUIRED,
         );
       }
 
+      this.openAiService.assertAvailable();
+
       this.logger.log(
         `Starting bulk classification of ${allTranscripts.length} transcripts...`,
       );
 
-      const results: any[] = [];
-      const batchSize = 5;
       let successful = 0;
       let failed = 0;
 
-      for (let i = 0; i < allTranscripts.length; i += batchSize) {
-        const batch = allTranscripts.slice(i, i + batchSize);
-        this.logger.log(
-          `Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(allTranscripts.length / batchSize)}...`,
-        );
-
-        const batchPromises = batch.map(async (transcript) => {
+      // Everything is submitted at once; LlmSchedulerService paces the calls.
+      // If the provider goes down midway the whole request fails with 503
+      // rather than reporting the rest as individually failed.
+      const results = await Promise.all(
+        allTranscripts.map(async (transcript) => {
           try {
-            if (
-              transcript.category &&
-              transcript.category !== 'uncategorized'
-            ) {
+            if (!this.needsClassification(transcript)) {
               this.logger.log(
                 `Transcript ${transcript.id} already classified as ${transcript.category}`,
               );
@@ -320,7 +375,10 @@ export class AiAnalysisController {
               transcript.id,
               classification.category,
               '',
+              this.openAiService.getModelName(),
+              this.openAiService.getOutputLanguage(),
             );
+            this.cacheService.invalidateTranscripts([transcript.id]);
 
             successful++;
             return {
@@ -328,6 +386,12 @@ export class AiAnalysisController {
               status: 'success',
             };
           } catch (error) {
+            if (
+              error instanceof LlmUnavailableError ||
+              error instanceof AiBudgetExceededError
+            ) {
+              throw error;
+            }
             failed++;
             this.logger.error(
               `Failed to classify transcript ${transcript.id}:`,
@@ -339,15 +403,8 @@ export class AiAnalysisController {
               status: 'failed',
             };
           }
-        });
-
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
-
-        if (i + batchSize < allTranscripts.length) {
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-        }
-      }
+        }),
+      );
 
       const endTime = Date.now();
       const processingTime = ((endTime - startTime) / 1000).toFixed(1);
@@ -381,6 +438,12 @@ export class AiAnalysisController {
       if (error instanceof HttpException) {
         throw error;
       }
+      if (error instanceof AiBudgetExceededError) {
+        throw this.overBudget(error.exceeded);
+      }
+      if (error instanceof LlmUnavailableError) {
+        throw this.unavailable(error);
+      }
       throw new HttpException(
         'Error classifying transcripts with AI',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -427,10 +490,20 @@ export class AiAnalysisController {
     status: 402,
     description: 'AI budget exceeded - cannot perform operation',
   })
+  @ApiResponse({
+    status: 503,
+    description:
+      'AI unavailable - the provider kept failing, retry after the given time',
+  })
   @ApiResponse({
     status: 404,
     description: 'Transcript not found',
   })
+  @ApiResponse({
+    status: 502,
+    description:
+      'AI provider failed, or its answer still failed validation after retries',
+  })
   async classifyTranscriptWithAI(
     @Param('id') id: string,
   ): Promise<ApiResponseInterface<any>> {
@@ -449,34 +522,50 @@ export class AiAnalysisController {
         throw new HttpException('Transcript not found', HttpStatus.NOT_FOUND);
       }
 
-      if (!this.openAiService.canPerformOperation(500)) {
-        this.logger.warn(
-          `AI budget exceeded for transcript ${id}. Current cost: $${this.openAiService.getUsageStats().estimatedCost.toFixed(6)}`,
-        );
-        throw new HttpException(
-          'AI budget exceeded. Cannot perform this operation.',
-          HttpStatus.PAYMENT_REQUIRED,
-        );
+      const budget = this.openAiService.checkBudget(
+        this.openAiService.estimateCost(['classify_with_topics'], [transcript]),
+      );
+      if (!budget.allowed) {
+        this.logger.warn(`AI budget exceeded for transcript ${id}`);
+        throw this.overBudget(budget.exceeded);
       }
 
       const result =
         await this.openAiService.classifyAndExtractTopics(transcript);
 
+      // The summary is optional: without budget left for it the
+      // classification is still saved.
       let summary = '';
-      if (this.openAiService.canPerformOperation(200)) {
-        summary = await this.openAiService.generateSummary(transcript);
+      if (
+        this.openAiService.canPerformOperation(
+          this.openAiService.estimateCost(['summarize'], [transcript]),
+        )
+      ) {
+        summary = await this.openAiService
+          .generateSummary(transcript)
+          .catch((error: unknown) => {
+            if (error instanceof AiBudgetExceededError) return '';
+            throw error;
+          });
       }
 
       this.transcriptService.updateTranscriptClassification(
         id,
         result.classification.category,
         summary,
+        this.openAiService.getModelName(),
+        this.openAiService.getOutputLanguage(),
       );
 
       // También guardamos los topics extraídos
-      this.transcriptService.updateTranscriptTopics(id, result.topics);
+      this.transcriptService.updateTranscriptTopics(
+        id,
+        result.topics,
+        this.openAiService.getModelName(),
+        this.openAiService.getOutputLanguage(),
+      );
 
-      this.cacheService.delete('statistics');
+      this.cacheService.invalidateTranscripts([id]);
 
       const response: ApiResponseInterface<any> = {
         success: true,
@@ -502,6 +591,18 @@ export class AiAnalysisController {
       if (error instanceof HttpException) {
         throw error;
       }
+      if (
+        error instanceof StructuredOutputError ||
+        error instanceof LlmRequestError
+      ) {
+        throw this.providerFailure(error);
+      }
+      if (error instanceof AiBudgetExceededError) {
+        throw this.overBudget(error.exceeded);
+      }
+      if (error instanceof LlmUnavailableError) {
+        throw this.unavailable(error);
+      }
       throw new HttpException(
         'Error classifying transcript with AI',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -540,10 +641,20 @@ export class AiAnalysisController {
     status: 402,
     description: 'AI budget exceeded - cannot perform operation',
   })
+  @ApiResponse({
+    status: 503,
+    description:
+      'AI unavailable - the provider kept failing, retry after the given time',
+  })
   @ApiResponse({
     status: 404,
     description: 'Transcript not found',
   })
+  @ApiResponse({
+    status: 502,
+    description:
+      'AI provider failed, or its answer still failed validation after retries',
+  })
   async generateSummaryWithAI(
     @Param('id') id: string,
   ): Promise<ApiResponseInterface<any>> {
@@ -562,11 +673,11 @@ export class AiAnalysisController {
         throw new HttpException('Transcript not found', HttpStatus.NOT_FOUND);
       }
 
-      if (!this.openAiService.canPerformOperation(200)) {
-        throw new HttpException(
-          'AI budget exceeded. Cannot perform this operation.',
-          HttpStatus.PAYMENT_REQUIRED,
-        );
+      const budget = this.openAiService.checkBudget(
+        this.openAiService.estimateCost(['summarize'], [transcript]),
+      );
+      if (!budget.allowed) {
+        throw this.overBudget(budget.exceeded);
       }
 
       const summary = await this.openAiService.generateSummary(transcript);
@@ -594,10 +705,177 @@ export class AiAnalysisController {
       if (error instanceof HttpException) {
         throw error;
       }
+      if (
+        error instanceof StructuredOutputError ||
+        error instanceof LlmRequestError
+      ) {
+        throw this.providerFailure(error);
+      }
+      if (error instanceof AiBudgetExceededError) {
+        throw this.overBudget(error.exceeded);
+      }
+      if (error instanceof LlmUnavailableError) {
+        throw this.unavailable(error);
+      }
       throw new HttpException(
         'Error generating AI summary',
         HttpStatus.INTERNAL_SERVER_ERROR,
       );
     }
   }
+
+  @Get('usage')
+  @ApiOperation({
+    summary: 'Get AI spend from the usage ledger',
+    description:
+      'Reports the tokens and cost of every LLM call recorded in the persisted usage ledger, in total, per model, per operation and per day or month, along with where each configured budget stands. With format=csv returns one row per call (timestamp, operation, transcript, model, tokens, cost) for reconciling against the OpenAI invoice. Periods are UTC. Does not consume tokens.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Usage report generated successfully',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          from: '2025-09-01',
+          to: '2025-09-30',
+          totals: {
+            calls: 120,
+            promptTokens: 96000,
+            cachedPromptTokens: 12000,
+            completionTokens: 14000,
+            totalTokens: 110000,
+            cost: 0.0219,
+          },
+          byModel: {
+            'gpt-4o-mini': {
+              calls: 120,
+              promptTokens: 96000,
+              cachedPromptTokens: 12000,
+              completionTokens: 14000,
+              totalTokens: 110000,
+              cost: 0.0219,
+            },
+          },
+          byOperation: {
+            classify_topics: {
+              calls: 120,
+              promptTokens: 96000,
+              cachedPromptTokens: 12000,
+              completionTokens: 14000,
+              totalTokens: 110000,
+              cost: 0.0219,
+            },
+          },
+          history: [
+            {
+              period: '2025-09-06',
+              calls: 120,
+              promptTokens: 96000,
+              cachedPromptTokens: 12000,
+              completionTokens: 14000,
+              totalTokens: 110000,
+              cost: 0.0219,
+            },
+          ],
+          budgets: [
+            {
+              scope: 'daily',
+              period: '2025-09-06',
+              limit: 1,
+              spent: 0.0219,
+              remaining: 0.9781,
+              state: 'ok',
+            },
+            {
+              scope: 'monthly',
+              period: '2025-09',
+              limit: 5,
+              spent: 0.0219,
+              remaining: 4.9781,
+              state: 'ok',
+            },
+          ],
+        },
+      },
+    },
+  })
+  getUsage(
+    @Query() query: AiUsageQueryDto,
+  ): ApiResponseInterface<any> | StreamableFile {
+    try {
+      const filter = {
+        from: query.from,
+        to: query.to,
+        operation: query.operation,
+        model: query.model,
+      };
+
+      if (query.format === 'csv') {
+        const csv = this.aiBudgetService.toCsv(
+          this.aiBudgetService.getEntries(filter),
+        );
+        return new StreamableFile(Buffer.from(csv, 'utf-8'), {
+          type: 'text/csv; charset=utf-8',
+          disposition: `attachment; filename="ai-usage-${query.from ?? 'start'}-${query.to ?? 'now'}.csv"`,
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          from: query.from ?? null,
+          to: query.to ?? null,
+          ...this.aiBudgetService.getReport(filter, query.groupBy ?? 'day'),
+          budgets: this.aiBudgetService.getBudgets(),
+        },
+      };
+    } catch (error) {
+      this.logger.error('Error getting AI usage:', error);
+      throw new HttpException(
+        'Error getting AI usage',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  private needsClassification(transcript: ParsedTranscript): boolean {
+    return !transcript.category || transcript.category === 'uncategorized';
+  }
+
+  private providerFailure(
+    error: StructuredOutputError | LlmRequestError,
+  ): HttpException {
+    return new HttpException(
+      error instanceof StructuredOutputError
+        ? `AI returned an invalid response: ${error.message}`
+        : `AI provider error: ${error.message}`,
+      HttpStatus.BAD_GATEWAY,
+    );
+  }
+
+  private overBudget(
+    exceeded: AiBudgetStatus[],
+    message = 'AI budget exceeded. Cannot perform this operation.',
+  ): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.PAYMENT_REQUIRED,
+        message,
+        budgets: exceeded,
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+
+  private unavailable(error: LlmUnavailableError): HttpException {
+    return new HttpException(
+      {
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+        message: 'AI unavailable',
+        retryAt: error.retryAt.toISOString(),
+      },
+      HttpStatus.SERVICE_UNAVAILABLE,
+    );
+  }
 }
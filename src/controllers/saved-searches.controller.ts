@@ -0,0 +1,284 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Logger,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { SaveSearchDto } from '../dto/saved-searches.dto';
+import { SavedSearchService } from '../services/saved-search.service';
+import { QueryParseError } from '../search/query-parser';
+import type { ApiResponse as ApiResponseInterface } from '../interfaces/transcript.interface';
+import type {
+  SavedSearch,
+  SavedSearchParams,
+} from '../interfaces/saved-search.interface';
+
+const SAVED_SEARCH_EXAMPLE = {
+  id: '3f0c8f4e-2a7b-4d8e-9a51-6f2d1c7b9e10',
+  name: 'Portabilidad',
+  params: { query: 'portabilidad', category: ['commercial_support'] },
+  createdAt: '2025-09-15T08:00:00.000Z',
+  updatedAt: '2025-09-15T08:00:00.000Z',
+  lastRunAt: '2025-09-16T08:05:00.000Z',
+  matches: [
+    {
+      transcriptId: 'sample_104',
+      fileName: 'sample_104.txt',
+      category: 'commercial_support',
+      relevanceScore: 4.812,
+      matchedAt: '2025-09-16T08:05:00.000Z',
+    },
+  ],
+};
+
+@ApiTags('Saved Searches')
+@Controller('api/saved-searches')
+export class SavedSearchesController {
+  private readonly logger = new Logger(SavedSearchesController.name);
+
+  constructor(private readonly savedSearchService: SavedSearchService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Save a search',
+    description:
+      'Stores the parameters of GET /api/transcripts/search under a name. Transcripts matching at this point are taken as already seen; scheduled runs report transcripts that match afterwards to the configured notification sink (NOTIFICATION_SINK).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Saved search created',
+    schema: {
+      example: {
+        success: true,
+        data: { ...SAVED_SEARCH_EXAMPLE, matches: [] },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid parameters or malformed query',
+  })
+  create(@Body() dto: SaveSearchDto): ApiResponseInterface<any> {
+    try {
+      const savedSearch = this.savedSearchService.create(
+        dto.name,
+        this.toParams(dto),
+      );
+      this.logger.log(`Saved search "${dto.name}" created`);
+      return { success: true, data: this.toView(savedSearch) };
+    } catch (error) {
+      this.rethrow(error, 'Error saving search');
+    }
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List saved searches' })
+  @ApiResponse({
+    status: 200,
+    description: 'Saved searches, oldest first',
+    schema: { example: { success: true, data: [SAVED_SEARCH_EXAMPLE] } },
+  })
+  findAll(): ApiResponseInterface<any> {
+    return {
+      success: true,
+      data: this.savedSearchService
+        .findAll()
+        .map((savedSearch) => this.toView(savedSearch)),
+    };
+  }
+
+  @Post('run')
+  @ApiOperation({
+    summary: 'Run every saved search now',
+    description:
+      'Runs the scheduled evaluation immediately and delivers any new matches.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'New matches per saved search',
+    schema: {
+      example: {
+        success: true,
+        data: [
+          {
+            savedSearchId: SAVED_SEARCH_EXAMPLE.id,
+            newMatches: SAVED_SEARCH_EXAMPLE.matches,
+          },
+        ],
+      },
+    },
+  })
+  async runAll(): Promise<ApiResponseInterface<any>> {
+    try {
+      return { success: true, data: await this.savedSearchService.runAll() };
+    } catch (error) {
+      this.rethrow(error, 'Error running saved searches');
+    }
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a saved search',
+    description:
+      'Includes the most recent delivered matches (up to 100) and the error of the last run, if it failed.',
+  })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Saved search found',
+    schema: { example: { success: true, data: SAVED_SEARCH_EXAMPLE } },
+  })
+  @ApiResponse({ status: 404, description: 'Saved search not found' })
+  findOne(@Param('id') id: string): ApiResponseInterface<any> {
+    const savedSearch = this.savedSearchService.findById(id);
+    if (!savedSearch) {
+      throw this.notFound(id);
+    }
+    return { success: true, data: this.toView(savedSearch) };
+  }
+
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Replace a saved search',
+    description:
+      'Replaces the name and parameters. When the parameters change, transcripts matching at this point are taken as already seen.',
+  })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({ status: 200, description: 'Saved search updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid parameters or malformed query',
+  })
+  @ApiResponse({ status: 404, description: 'Saved search not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() dto: SaveSearchDto,
+  ): Promise<ApiResponseInterface<any>> {
+    try {
+      const savedSearch = await this.savedSearchService.update(
+        id,
+        dto.name,
+        this.toParams(dto),
+      );
+      if (!savedSearch) {
+        throw this.notFound(id);
+      }
+      return { success: true, data: this.toView(savedSearch) };
+    } catch (error) {
+      this.rethrow(error, 'Error updating saved search');
+    }
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a saved search' })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({ status: 200, description: 'Saved search deleted' })
+  @ApiResponse({ status: 404, description: 'Saved search not found' })
+  remove(@Param('id') id: string): ApiResponseInterface<any> {
+    if (!this.savedSearchService.delete(id)) {
+      throw this.notFound(id);
+    }
+    this.logger.log(`Saved search ${id} deleted`);
+    return { success: true };
+  }
+
+  @Post(':id/run')
+  @ApiOperation({
+    summary: 'Run one saved search now',
+    description:
+      'Evaluates the saved search immediately and delivers any new matches.',
+  })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'New matches; "error" is set when delivery failed',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          savedSearchId: SAVED_SEARCH_EXAMPLE.id,
+          newMatches: SAVED_SEARCH_EXAMPLE.matches,
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Saved search not found' })
+  async run(@Param('id') id: string): Promise<ApiResponseInterface<any>> {
+    try {
+      const result = await this.savedSearchService.run(id);
+      if (!result) {
+        throw this.notFound(id);
+      }
+      return { success: true, data: result };
+    } catch (error) {
+      this.rethrow(error, 'Error running saved search');
+    }
+  }
+
+  private toParams(dto: SaveSearchDto): SavedSearchParams {
+    const params: SavedSearchParams = {
+      query: dto.query,
+      category: dto.category,
+      topic: dto.topic,
+      sentiment: dto.sentiment,
+      agent: dto.agent,
+      duration: dto.duration,
+      agentName: dto.agentName,
+      customerName: dto.customerName,
+      outcome: dto.outcome,
+      supervisorInvolvement: dto.supervisorInvolvement,
+    };
+    // Unset filters are left out so they do not count as a change.
+    return Object.fromEntries(
+      Object.entries(params).filter(([, value]) => value !== undefined),
+    ) as unknown as SavedSearchParams;
+  }
+
+  /** Seen transcript IDs are bookkeeping and stay out of responses. */
+  private toView(
+    savedSearch: SavedSearch,
+  ): Omit<SavedSearch, 'seenTranscriptIds'> {
+    return {
+      id: savedSearch.id,
+      name: savedSearch.name,
+      params: savedSearch.params,
+      createdAt: savedSearch.createdAt,
+      updatedAt: savedSearch.updatedAt,
+      lastRunAt: savedSearch.lastRunAt,
+      lastError: savedSearch.lastError,
+      matches: savedSearch.matches,
+    };
+  }
+
+  private notFound(id: string): HttpException {
+    return new HttpException(
+      `Saved search with ID ${id} not found`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof HttpException) {
+      throw error;
+    }
+    if (error instanceof QueryParseError) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message,
+          position: error.position,
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    this.logger.error(`${message}:`, error);
+    throw new HttpException(message, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,197 @@
+import { HttpException, INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppModule } from '../app.module';
+import { TranscriptsController } from './transcripts.controller';
+import { TranscriptProcessingService } from '../services/transcript-processing.service';
+import { CacheService } from '../services/cache.service';
+import type {
+  ApiResponse as ApiResponseInterface,
+  TranscriptUploadResult,
+} from '../interfaces/transcript.interface';
+
+const ENV = {
+  LLM_PROVIDER: 'mock',
+  TRANSCRIPT_STORE: 'memory',
+  TRANSCRIPTS_WATCH: 'false',
+  SAVED_SEARCH_INTERVAL_MS: '0',
+};
+
+type UploadData = {
+  loaded: number;
+  duplicates: number;
+  failed: number;
+  results: TranscriptUploadResult[];
+};
+
+function upload(fileName: string, content: string): Express.Multer.File {
+  return {
+    originalname: fileName,
+    buffer: Buffer.from(content, 'utf-8'),
+  } as Express.Multer.File;
+}
+
+function transcript(client: string): string {
+  return [
+    '[00:00:00] AGENTE: Buenos días, ¿en qué le puedo ayudar?',
+    `[00:00:05] CLIENTE: ${client}`,
+    '[00:00:12] AGENTE: Lo reviso de inmediato.',
+  ].join('\n');
+}
+
+/** The body of the HttpException the upload was rejected with. */
+function rejection(call: () => unknown): {
+  status: number;
+  data?: UploadData;
+} {
+  try {
+    call();
+  } catch (error) {
+    const exception = error as HttpException;
+    const body = exception.getResponse() as { data?: UploadData };
+    return { status: exception.getStatus(), data: body.data };
+  }
+  throw new Error('Upload was not rejected');
+}
+
+describe('TranscriptsController uploads', () => {
+  let dir: string;
+  let app: INestApplication;
+  let controller: TranscriptsController;
+  let transcripts: TranscriptProcessingService;
+  let cache: CacheService;
+  const previousEnv: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'transcript-upload-'));
+    await writeFile(
+      join(dir, 'existing.txt'),
+      transcript('Tengo un cobro duplicado en la boleta.'),
+    );
+
+    const env = { ...ENV, TRANSCRIPTS_DIR: dir };
+    for (const [key, value] of Object.entries(env)) {
+      previousEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+
+    controller = app.get(TranscriptsController);
+    transcripts = app.get(TranscriptProcessingService);
+    cache = app.get(CacheService);
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('ingests a batch and makes it searchable', () => {
+    const response = controller.uploadTranscripts({
+      files: [
+        upload('router.txt', transcript('El router no enciende la luz.')),
+        upload('portability.txt', transcript('Quiero la portabilidad.')),
+      ],
+    }) as ApiResponseInterface<UploadData>;
+
+    expect(response.data).toMatchObject({ loaded: 2, failed: 0 });
+    expect(transcripts.getTranscriptById('router')?.messages).toHaveLength(3);
+    expect(
+      transcripts
+        .searchTranscripts('portabilidad')
+        .results.map((result) => result.transcript.id),
+    ).toEqual(['portability']);
+  });
+
+  it('reports unsupported and empty files per file', () => {
+    const response = controller.uploadTranscripts({
+      file: [upload('notes.docx', 'irrelevant')],
+      files: [
+        upload('empty.txt', ''),
+        upload('outage.txt', transcript('No tengo señal desde ayer.')),
+      ],
+    }) as ApiResponseInterface<UploadData>;
+
+    expect(
+      response.data!.results.map(({ fileName, status }) => [fileName, status]),
+    ).toEqual([
+      ['notes.docx', 'failed'],
+      ['empty.txt', 'failed'],
+      ['outage.txt', 'loaded'],
+    ]);
+    expect(response.data!.results[0].error).toContain('Unsupported file type');
+    expect(response.data!.results[1].error).toBe(
+      'No valid transcript lines found',
+    );
+    expect(
+      transcripts
+        .getIngestionReport()
+        .failedFiles.map((failure) => [failure.fileName, failure.source]),
+    ).toEqual(
+      expect.arrayContaining([
+        ['notes.docx', 'upload'],
+        ['empty.txt', 'upload'],
+      ]),
+    );
+  });
+
+  it('rejects an upload where no file could be parsed with 400', () => {
+    const { status, data } = rejection(() =>
+      controller.uploadTranscripts({ files: [upload('blank.txt', '')] }),
+    );
+
+    expect(status).toBe(400);
+    expect(data).toMatchObject({ loaded: 0, failed: 1 });
+  });
+
+  it('rejects ids that already exist', () => {
+    const { status, data } = rejection(() =>
+      controller.uploadTranscripts({
+        file: [upload('existing.txt', transcript('Otro contenido.'))],
+      }),
+    );
+
+    expect(status).toBe(409);
+    expect(data!.results[0]).toMatchObject({
+      transcriptId: 'existing',
+      status: 'duplicate',
+    });
+    expect(transcripts.getTranscriptById('existing')?.messages[1].content).toBe(
+      'Tengo un cobro duplicado en la boleta.',
+    );
+  });
+
+  it('invalidates the cached results that depend on the transcript set', () => {
+    const keys = [
+      'statistics',
+      'search:cobro',
+      'frequent-topics:all',
+      'ai-topics:{}',
+      'ai-classify-all-transcripts',
+      'ai-summary:fresh',
+    ];
+    keys.forEach((key) => cache.set(key, { stale: true }));
+    cache.set('ai-summary:existing', { stale: false });
+
+    controller.uploadTranscripts({
+      file: [upload('fresh.txt', transcript('Necesito una boleta nueva.'))],
+    });
+
+    expect(keys.filter((key) => cache.has(key))).toEqual([]);
+    expect(cache.has('ai-summary:existing')).toBe(true);
+  });
+});
@@ -1,27 +1,48 @@
 import {
   Controller,
   Get,
+  Post,
   Query,
   Param,
   Logger,
   HttpException,
   HttpStatus,
+  UploadedFiles,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiQuery,
   ApiParam,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
 import {
+  CALL_OUTCOMES,
+  DURATION_FACET_VALUES,
+  FACET_CATEGORIES,
+  SearchSuggestDto,
   SearchTranscriptsDto,
+  SemanticSearchDto,
+  SENTIMENTS,
+  SimilarTranscriptsDto,
+  SUPERVISOR_INVOLVEMENTS,
   TranscriptCategory,
+  TranscriptMetadataFilterDto,
 } from '../dto/transcripts.dto';
 import { TranscriptProcessingService } from '../services/transcript-processing.service';
 import { OpenAiService } from '../services/openai.service';
 import { CacheService } from '../services/cache.service';
-import type { ApiResponse as ApiResponseInterface } from '../interfaces/transcript.interface';
+import { PiiRedactionService } from '../services/pii-redaction.service';
+import { SemanticSearchService } from '../services/semantic-search.service';
+import { QueryParseError } from '../search/query-parser';
+import type {
+  ApiResponse as ApiResponseInterface,
+  SemanticSearchResult,
+} from '../interfaces/transcript.interface';
 
 @ApiTags('Transcripts Analysis (Local/Fast - No AI Required)')
 @Controller('api/transcripts')
@@ -32,13 +53,15 @@ export class TranscriptsController {
     private readonly transcriptService: TranscriptProcessingService,
     private readonly openAiService: OpenAiService,
     private readonly cacheService: CacheService,
+    private readonly piiRedactionService: PiiRedactionService,
+    private readonly semanticSearchService: SemanticSearchService,
   ) {}
 
   @Get('search')
   @ApiOperation({
     summary: 'Search transcripts by keywords (Local Search)',
     description:
-      'Fast local search through transcripts using keyword matching and semantic analysis. No AI tokens consumed.',
+      'Fast local search through transcripts ranked with BM25. Supports "quoted phrases", AND/OR/NOT with parentheses, -term exclusions and the filters speaker:<label>, from:<time> and to:<time> (e.g. to:2m for the first two minutes of the call). No AI tokens consumed.',
   })
   @ApiResponse({
     status: 200,
@@ -61,7 +84,39 @@ export class TranscriptsController {
               {
                 timestamp: '00:01:15',
                 speaker: 'CLIENT',
-                content: 'I have internet connection problems since yesterday',
+                speakerLabel: 'CLIENTE',
+                content: 'Tengo un cargo adicional en mi boleta',
+              },
+            ],
+            snippets: [
+              {
+                messageIndex: 4,
+                message: {
+                  timestamp: '00:01:15',
+                  speaker: 'CLIENT',
+                  speakerLabel: 'CLIENTE',
+                  content: 'Tengo un cargo adicional en mi boleta',
+                },
+                highlights: [
+                  { start: 9, end: 14, term: 'carg' },
+                  { start: 15, end: 24, term: 'adicional' },
+                ],
+                before: [
+                  {
+                    timestamp: '00:01:02',
+                    speaker: 'AGENT',
+                    speakerLabel: 'AGENTE',
+                    content: '¿En qué puedo ayudarle?',
+                  },
+                ],
+                after: [
+                  {
+                    timestamp: '00:01:24',
+                    speaker: 'AGENT',
+                    speakerLabel: 'AGENTE',
+                    content: 'Reviso su cuenta de inmediato.',
+                  },
+                ],
               },
             ],
           },
@@ -72,20 +127,83 @@ export class TranscriptsController {
           total: 1,
           totalPages: 1,
         },
+        suggestion: 'internet conexión',
+        facets: {
+          category: [
+            { value: 'technical_issues', count: 3 },
+            { value: 'billing_issues', count: 1 },
+          ],
+          topic: [{ value: 'facturación', count: 1 }],
+          sentiment: [{ value: 'unknown', count: 4 }],
+          agent: [
+            { value: 'Carlos', count: 2 },
+            { value: 'Valeria', count: 1 },
+            { value: 'unknown', count: 1 },
+          ],
+          duration: [
+            { value: 'under_3m', count: 3 },
+            { value: '3_to_6m', count: 1 },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Malformed query; the message names the offending position',
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "Missing ')' for the '(' at position 25",
+        position: 25,
       },
     },
   })
   @ApiQuery({
     name: 'query',
-    description: 'Keywords to search for',
-    example: 'internet connection problem',
+    description:
+      'Search query: words, "phrases", AND/OR/NOT, (groups), -exclusions and speaker:/from:/to: filters',
+    example:
+      '"cargo adicional" AND (devolución OR reembolso) -cancelar speaker:CLIENTE',
   })
   @ApiQuery({
     name: 'category',
     required: false,
-    enum: TranscriptCategory,
-    description: 'Filter by category',
-    example: 'technical_issues',
+    enum: FACET_CATEGORIES,
+    isArray: true,
+    description:
+      'Filter by category; repeat the parameter or separate values with commas',
+    example: 'technical_issues,billing_issues',
+  })
+  @ApiQuery({
+    name: 'topic',
+    required: false,
+    type: [String],
+    description: 'Filter by AI-extracted topic (case-insensitive)',
+    example: 'facturación',
+  })
+  @ApiQuery({
+    name: 'sentiment',
+    required: false,
+    enum: SENTIMENTS,
+    isArray: true,
+    description: 'Filter by sentiment',
+    example: 'negative',
+  })
+  @ApiQuery({
+    name: 'agent',
+    required: false,
+    type: [String],
+    description: 'Filter by agent name as listed in the agent facet',
+    example: 'Carlos',
+  })
+  @ApiQuery({
+    name: 'duration',
+    required: false,
+    enum: DURATION_FACET_VALUES,
+    isArray: true,
+    description: 'Filter by call duration bucket',
+    example: 'under_3m',
   })
   @ApiQuery({
     name: 'page',
@@ -101,6 +219,40 @@ export class TranscriptsController {
     description: 'Items per page',
     example: 10,
   })
+  @ApiQuery({
+    name: 'context',
+    required: false,
+    type: Number,
+    description:
+      'Messages to include before and after each match (0-5, defaults to SEARCH_CONTEXT_MESSAGES)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'agentName',
+    required: false,
+    description: 'Filter by agent name (partial match)',
+    example: 'Carlos',
+  })
+  @ApiQuery({
+    name: 'customerName',
+    required: false,
+    description: 'Filter by customer name (partial match)',
+    example: 'Mariana',
+  })
+  @ApiQuery({
+    name: 'outcome',
+    required: false,
+    enum: CALL_OUTCOMES,
+    description: 'Filter by how the call ended',
+    example: 'completed',
+  })
+  @ApiQuery({
+    name: 'supervisorInvolvement',
+    required: false,
+    enum: SUPERVISOR_INVOLVEMENTS,
+    description: 'Filter by supervisor involvement',
+    example: 'requested',
+  })
   searchTranscripts(
     @Query() searchDto: SearchTranscriptsDto,
   ): ApiResponseInterface<any> {
@@ -116,20 +268,45 @@ export class TranscriptsController {
 
       const result = this.transcriptService.searchTranscripts(
         searchDto.query,
-        searchDto.category,
+        {
+          category: searchDto.category,
+          topic: searchDto.topic,
+          sentiment: searchDto.sentiment,
+          agent: searchDto.agent,
+          duration: searchDto.duration,
+        },
         searchDto.page,
         searchDto.limit,
+        {
+          agentName: searchDto.agentName,
+          customerName: searchDto.customerName,
+          outcome: searchDto.outcome,
+          supervisorInvolvement: searchDto.supervisorInvolvement,
+        },
+        searchDto.context,
       );
 
+      const results = this.piiRedactionService.shouldMaskResponses()
+        ? result.results.map((r) =>
+            this.piiRedactionService.maskSearchResult(r),
+          )
+        : result.results;
+
+      const facets = this.piiRedactionService.shouldMaskResponses()
+        ? { ...result.facets, agent: [] }
+        : result.facets;
+
       const response: ApiResponseInterface<any> = {
         success: true,
-        data: result.results,
+        data: results,
         pagination: {
           page: result.page,
           limit: searchDto.limit || 10,
           total: result.total,
           totalPages: result.totalPages,
         },
+        suggestion: result.suggestion,
+        facets,
       };
 
       this.cacheService.set(cacheKey, response, 30 * 60 * 1000);
@@ -140,6 +317,16 @@ export class TranscriptsController {
 
       return response;
     } catch (error) {
+      if (error instanceof QueryParseError) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.BAD_REQUEST,
+            message: error.message,
+            position: error.position,
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
       this.logger.error('Error searching transcripts:', error);
       throw new HttpException(
         'Error searching transcripts',
@@ -148,6 +335,164 @@ export class TranscriptsController {
     }
   }
 
+  @Get('search/suggest')
+  @ApiOperation({
+    summary: 'Autocomplete search terms',
+    description:
+      'Suggests known topics and indexed words starting with the prefix, accents ignored, most common first. Names of people are left out. No AI tokens consumed.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Suggestions, topics first',
+    schema: {
+      example: {
+        success: true,
+        data: [
+          { text: 'facturación', type: 'topic', documentCount: 12 },
+          { text: 'factura', type: 'word', documentCount: 31 },
+          { text: 'facturación', type: 'word', documentCount: 18 },
+        ],
+      },
+    },
+  })
+  @ApiQuery({
+    name: 'prefix',
+    description: 'Beginning of the word or topic being typed',
+    example: 'fact',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of suggestions',
+    example: 10,
+  })
+  suggestSearchTerms(
+    @Query() suggestDto: SearchSuggestDto,
+  ): ApiResponseInterface<any> {
+    try {
+      return {
+        success: true,
+        data: this.transcriptService.completeSearchTerm(
+          suggestDto.prefix,
+          suggestDto.limit,
+        ),
+      };
+    } catch (error) {
+      this.logger.error('Error suggesting search terms:', error);
+      throw new HttpException(
+        'Error suggesting search terms',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('search/semantic')
+  @ApiOperation({
+    summary: 'Semantic search over conversation chunks',
+    description:
+      'Finds the windows of turns closest in meaning to the query, even when they share no words with it. Each chunk is ranked by a blend of embedding similarity and the BM25 score of its transcript. Embeddings come from EMBEDDING_PROVIDER: "local" (default, offline, no AI tokens) or "openai".',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Nearest chunks, best first',
+    schema: {
+      example: {
+        success: true,
+        data: [
+          {
+            transcriptId: 'sample_12',
+            fileName: 'sample_12.txt',
+            category: 'billing_issues',
+            score: 0.642,
+            semanticScore: 0.581,
+            lexicalScore: 0.785,
+            chunk: {
+              startIndex: 3,
+              endIndex: 6,
+              messages: [
+                {
+                  timestamp: '00:00:35',
+                  speaker: 'CLIENT',
+                  speakerLabel: 'CLIENTE',
+                  content:
+                    'Me llegó un cobro que no reconozco y quiero que me lo devuelvan.',
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'The embedding provider could not be reached',
+  })
+  @ApiQuery({
+    name: 'query',
+    description: 'Free-text description of what to look for',
+    example: 'el cliente quiere que le devuelvan un cobro que no reconoce',
+  })
+  @ApiQuery({
+    name: 'category',
+    required: false,
+    enum: TranscriptCategory,
+    description: 'Filter by category',
+    example: 'billing_issues',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of chunks to return',
+    example: 10,
+  })
+  @ApiQuery({
+    name: 'semanticWeight',
+    required: false,
+    type: Number,
+    description:
+      'Share of the semantic score in the ranking, 0 to 1 (defaults to SEMANTIC_WEIGHT)',
+    example: 0.7,
+  })
+  async semanticSearch(
+    @Query() searchDto: SemanticSearchDto,
+  ): Promise<ApiResponseInterface<any>> {
+    let results: SemanticSearchResult[];
+    try {
+      results = await this.semanticSearchService.search(searchDto.query, {
+        limit: searchDto.limit,
+        category: searchDto.category,
+        semanticWeight: searchDto.semanticWeight,
+      });
+    } catch (error) {
+      this.logger.error('Error running semantic search:', error);
+      throw new HttpException(
+        'Embedding provider unavailable',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    const data = this.piiRedactionService.shouldMaskResponses()
+      ? results.map((result) => ({
+          ...result,
+          chunk: {
+            ...result.chunk,
+            messages: this.piiRedactionService.redactMessages(
+              result.chunk.messages,
+            ).messages,
+          },
+        }))
+      : results;
+
+    this.logger.log(
+      `Semantic search completed: ${data.length} chunks for "${searchDto.query}"`,
+    );
+
+    return { success: true, data };
+  }
+
   @Get('statistics')
   @ApiOperation({
     summary: 'Get general statistics',
@@ -173,7 +518,16 @@ export class TranscriptsController {
               complaints: 2,
             },
             averageMessageCount: 12.5,
-            averageDuration: '00:04:30',
+            duplicatesExcluded: 0,
+            timing: {
+              averageDurationSeconds: 270,
+              averageDuration: '00:04:30',
+              totalDurationSeconds: 27000,
+              totalLongGaps: 42,
+              averageLongGapSeconds: 31,
+              averageTimeToFirstAgentResponseSeconds: 3.4,
+              talkTimeShare: { AGENT: 58.2, CLIENT: 40.1, SUPERVISOR: 1.7 },
+            },
           },
           openAiUsage: {
             tokenUsage: {
@@ -183,6 +537,44 @@ export class TranscriptsController {
             },
             estimatedCost: 0.75,
             remainingBudget: 4.25,
+            budgets: [
+              {
+                scope: 'monthly',
+                period: '2025-09',
+                limit: 5,
+                spent: 0.75,
+                remaining: 4.25,
+                state: 'ok',
+              },
+            ],
+            byModel: {
+              'gpt-5-mini': {
+                calls: 120,
+                promptTokens: 15420,
+                cachedPromptTokens: 2048,
+                completionTokens: 8930,
+                totalTokens: 24350,
+                cost: 0.75,
+              },
+            },
+            byOperation: {
+              classify_topics: {
+                calls: 100,
+                promptTokens: 13100,
+                cachedPromptTokens: 2048,
+                completionTokens: 7900,
+                totalTokens: 21000,
+                cost: 0.66,
+              },
+              summarize: {
+                calls: 20,
+                promptTokens: 2320,
+                cachedPromptTokens: 0,
+                completionTokens: 1030,
+                totalTokens: 3350,
+                cost: 0.09,
+              },
+            },
           },
           cache: {
             size: 45,
@@ -228,6 +620,118 @@ export class TranscriptsController {
     }
   }
 
+  @Get('ingestion-report')
+  @ApiOperation({
+    summary: 'Get ingestion diagnostics',
+    description:
+      'Summarizes files loaded and failed, and the lines skipped while parsing grouped by reason, so data quality problems in the transcript sources are visible.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ingestion report generated successfully',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          generatedAt: '2025-09-06T10:30:00.000Z',
+          filesLoaded: 99,
+          filesFailed: 1,
+          failedFiles: [
+            {
+              fileName: 'sample_51.txt',
+              source: 'startup',
+              error: 'No valid transcript lines found',
+              failedAt: '2025-09-06T10:00:00.000Z',
+            },
+          ],
+          linesSkipped: 12,
+          skippedByReason: { missing_speaker: 12 },
+          transcriptsWithSkippedLines: [
+            {
+              transcriptId: 'sample_94',
+              fileName: 'sample_94.txt',
+              skippedLines: 2,
+            },
+          ],
+        },
+      },
+    },
+  })
+  getIngestionReport(): ApiResponseInterface<any> {
+    try {
+      return {
+        success: true,
+        data: this.transcriptService.getIngestionReport(),
+      };
+    } catch (error) {
+      this.logger.error('Error getting ingestion report:', error);
+      throw new HttpException(
+        'Error getting ingestion report',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('duplicates')
+  @ApiOperation({
+    summary: 'Get clusters of duplicate transcripts',
+    description:
+      'Groups transcripts whose words are the same (re-exports in another format or with shifted timestamps) or nearly the same (MinHash estimate of shared 5-word shingles at or above DUPLICATE_SIMILARITY_THRESHOLD). The first member of each cluster is the one kept when EXCLUDE_DUPLICATES=true removes copies from statistics, frequent topics and AI batch jobs.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Duplicate clusters, largest first',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          threshold: 0.8,
+          excludedFromAnalysis: false,
+          redundantTranscripts: 2,
+          clusters: [
+            {
+              canonicalId: 'sample_12',
+              members: [
+                {
+                  transcriptId: 'sample_12',
+                  fileName: 'sample_12.txt',
+                  similarity: 1,
+                  exact: true,
+                },
+                {
+                  transcriptId: 'sample_12_export',
+                  fileName: 'sample_12_export.json',
+                  similarity: 1,
+                  exact: true,
+                },
+                {
+                  transcriptId: 'test_call_03',
+                  fileName: 'test_call_03.txt',
+                  similarity: 0.867,
+                  exact: false,
+                },
+              ],
+            },
+          ],
+        },
+      },
+    },
+  })
+  getDuplicates(): ApiResponseInterface<any> {
+    try {
+      return {
+        success: true,
+        data: this.transcriptService.getDuplicateReport(),
+      };
+    } catch (error) {
+      this.logger.error('Error getting duplicate transcripts:', error);
+      throw new HttpException(
+        'Error getting duplicate transcripts',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get('topics/frequent')
   @ApiOperation({
     summary: 'Get most frequent topics from AI-analyzed transcripts',
@@ -306,7 +810,7 @@ export class TranscriptsController {
   @ApiOperation({
     summary: 'Get all transcripts',
     description:
-      'Returns a list of all available transcripts with basic metadata',
+      'Returns a list of all available transcripts with basic metadata. Extracted call metadata (agent, customer, outcome, supervisor involvement) can be used as filters.',
   })
   @ApiResponse({
     status: 200,
@@ -320,26 +824,69 @@ export class TranscriptsController {
             fileName: 'sample_01.txt',
             messageCount: 15,
             duration: '00:05:23',
+            language: 'es',
             category: 'technical_issues',
             summary: 'Customer reporting internet connection problems',
             topics: ['internet', 'connectivity', 'troubleshooting'],
+            metadata: {
+              agentName: 'Carlos',
+              customerName: 'Mariana López',
+              outcome: 'completed',
+              supervisorInvolvement: 'none',
+            },
           },
           {
             id: 'sample_02',
             fileName: 'sample_02.txt',
             messageCount: 12,
             duration: '00:03:45',
+            language: 'es',
             category: 'billing_issues',
             summary: 'Inquiry about unexpected charges on monthly bill',
             topics: ['billing', 'charges', 'payment'],
+            metadata: {
+              agentName: 'Claudia',
+              customerName: 'José Ramírez',
+              outcome: 'transferred',
+              supervisorInvolvement: 'consulted',
+            },
           },
         ],
       },
     },
   })
-  getAllTranscripts(): ApiResponseInterface<any> {
+  @ApiQuery({
+    name: 'agentName',
+    required: false,
+    description: 'Filter by agent name (partial match)',
+    example: 'Carlos',
+  })
+  @ApiQuery({
+    name: 'customerName',
+    required: false,
+    description: 'Filter by customer name (partial match)',
+    example: 'Mariana',
+  })
+  @ApiQuery({
+    name: 'outcome',
+    required: false,
+    enum: CALL_OUTCOMES,
+    description: 'Filter by how the call ended',
+    example: 'completed',
+  })
+  @ApiQuery({
+    name: 'supervisorInvolvement',
+    required: false,
+    enum: SUPERVISOR_INVOLVEMENTS,
+    description: 'Filter by supervisor involvement',
+    example: 'requested',
+  })
+  getAllTranscripts(
+    @Query() filters: TranscriptMetadataFilterDto,
+  ): ApiResponseInterface<any> {
     try {
-      const transcripts = this.transcriptService.getTranscripts();
+      const transcripts = this.transcriptService.getTranscripts(filters);
+      const mask = this.piiRedactionService.shouldMaskResponses();
 
       return {
         success: true,
@@ -348,9 +895,13 @@ export class TranscriptsController {
           fileName: t.fileName,
           messageCount: t.messages.length,
           duration: t.duration,
+          language: t.language,
           category: t.category,
           summary: t.summary,
           topics: t.topics,
+          metadata: mask
+            ? this.piiRedactionService.maskMetadata(t.metadata)
+            : t.metadata,
         })),
       };
     } catch (error) {
@@ -362,6 +913,210 @@ export class TranscriptsController {
     }
   }
 
+  @Post()
+  @UseInterceptors(
+    FileFieldsInterceptor([
+      { name: 'file', maxCount: 1 },
+      { name: 'files', maxCount: 100 },
+    ]),
+  )
+  @ApiOperation({
+    summary: 'Upload new transcripts',
+    description:
+      'Ingests one transcript (field "file") or a batch of transcripts (field "files") at runtime. Files are parsed with the same rules used at startup and added to the in-memory store. Duplicate IDs are rejected and parse failures are reported per file.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        files: {
+          type: 'array',
+          items: { type: 'string', format: 'binary' },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'At least one transcript was ingested',
+    schema: {
+      example: {
+        success: true,
+        data: {
+          loaded: 1,
+          duplicates: 1,
+          failed: 0,
+          results: [
+            {
+              fileName: 'sample_101.txt',
+              transcriptId: 'sample_101',
+              status: 'loaded',
+              messageCount: 24,
+            },
+            {
+              fileName: 'sample_01.txt',
+              transcriptId: 'sample_01',
+              status: 'duplicate',
+              error: 'Transcript sample_01 already exists',
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No files were provided or none of them could be parsed',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Every uploaded transcript already exists',
+  })
+  uploadTranscripts(
+    @UploadedFiles()
+    uploads: {
+      file?: Express.Multer.File[];
+      files?: Express.Multer.File[];
+    },
+  ): ApiResponseInterface<any> {
+    try {
+      const files = [...(uploads?.file || []), ...(uploads?.files || [])];
+
+      if (files.length === 0) {
+        throw new HttpException(
+          'No transcript files provided. Use the "file" or "files" field.',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      const results = this.transcriptService.ingestTranscripts(
+        files.map((file) => ({
+          fileName: file.originalname,
+          content: file.buffer.toString('utf-8'),
+        })),
+      );
+
+      const loaded = results.filter((r) => r.status === 'loaded').length;
+      const duplicates = results.filter((r) => r.status === 'duplicate').length;
+      const failed = results.filter((r) => r.status === 'failed').length;
+
+      const data = { loaded, duplicates, failed, results };
+
+      if (loaded === 0) {
+        throw new HttpException(
+          {
+            success: false,
+            error:
+              failed === 0
+                ? 'All uploaded transcripts already exist'
+                : 'None of the uploaded transcripts could be ingested',
+            data,
+          },
+          failed === 0 ? HttpStatus.CONFLICT : HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      this.cacheService.invalidateTranscripts(
+        results
+          .filter((result) => result.status === 'loaded')
+          .map((result) => result.transcriptId!),
+      );
+
+      this.logger.log(
+        `Upload completed: ${loaded} loaded, ${duplicates} duplicates, ${failed} failed`,
+      );
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      this.logger.error('Error uploading transcripts:', error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error uploading transcripts',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get(':id/similar')
+  @ApiOperation({
+    summary: 'Find transcripts similar to a given call',
+    description:
+      'Ranks other transcripts by the TF-IDF similarity of their messages combined with shared AI topics and category (SIMILAR_WEIGHTS), and explains which shared words and topics drove each match. Runs locally; no AI tokens consumed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Transcript ID',
+    example: 'sample_01',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of similar transcripts',
+    example: 10,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Similar transcripts, most similar first',
+    schema: {
+      example: {
+        success: true,
+        data: [
+          {
+            transcriptId: 'sample_17',
+            fileName: 'sample_17.txt',
+            category: 'billing_issues',
+            topics: ['facturación', 'cobro duplicado'],
+            score: 0.512,
+            components: { terms: 0.298, topics: 0.333, category: 1 },
+            explanation: {
+              sharedTerms: [
+                { word: 'factura', weight: 0.071 },
+                { word: 'cobro', weight: 0.052 },
+              ],
+              sharedTopics: ['facturación'],
+              sameCategory: true,
+            },
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Transcript not found' })
+  getSimilarTranscripts(
+    @Param('id') id: string,
+    @Query() similarDto: SimilarTranscriptsDto,
+  ): ApiResponseInterface<any> {
+    try {
+      const similar = this.transcriptService.findSimilarTranscripts(
+        id,
+        similarDto.limit,
+      );
+
+      if (!similar) {
+        throw new HttpException('Transcript not found', HttpStatus.NOT_FOUND);
+      }
+
+      return { success: true, data: similar };
+    } catch (error) {
+      this.logger.error(`Error finding transcripts similar to ${id}:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Error finding similar transcripts',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get(':id')
   @ApiOperation({
     summary: 'Get a specific transcript',
@@ -387,21 +1142,42 @@ export class TranscriptsController {
           summary: 'Customer reporting internet connection problems',
           topics: ['internet', 'connectivity', 'troubleshooting'],
           sentiment: 'neutral',
+          metrics: {
+            durationSeconds: 323,
+            talkTimeSeconds: { AGENT: 151.2, CLIENT: 96.4 },
+            longGaps: {
+              count: 1,
+              totalSeconds: 36,
+              gaps: [
+                {
+                  from: '00:00:34',
+                  to: '00:01:10',
+                  seconds: 36,
+                  before: 'AGENT',
+                  after: 'AGENT',
+                },
+              ],
+            },
+            timeToFirstAgentResponseSeconds: 3,
+          },
           messages: [
             {
               timestamp: '00:00:15',
               speaker: 'AGENT',
+              speakerLabel: 'AGENTE',
               content: 'Hello, how can I help you today?',
             },
             {
               timestamp: '00:00:18',
               speaker: 'CLIENT',
+              speakerLabel: 'CLIENTE',
               content:
                 'Hi, I have been having internet connection problems since yesterday',
             },
             {
               timestamp: '00:00:25',
               speaker: 'AGENT',
+              speakerLabel: 'AGENTE',
               content:
                 'I understand the frustration. Let me help you troubleshoot this issue.',
             },
@@ -420,7 +1196,9 @@ export class TranscriptsController {
 
       return {
         success: true,
-        data: transcript,
+        data: this.piiRedactionService.shouldMaskResponses()
+          ? this.piiRedactionService.maskTranscript(transcript)
+          : transcript,
       };
     } catch (error) {
       this.logger.error(`Error getting transcript ${id}:`, error);
@@ -0,0 +1,57 @@
+import { IsDateString, IsIn, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { LLM_OPERATIONS } from '../llm/llm.provider';
+import type { LlmOperation } from '../llm/llm.provider';
+import type { AiUsageGranularity } from '../interfaces/ai-usage.interface';
+
+export class AiUsageQueryDto {
+  @ApiPropertyOptional({
+    description: 'First day (UTC) or timestamp to include',
+    example: '2025-09-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Last day (UTC) or timestamp to include',
+    example: '2025-09-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only calls for this operation',
+    enum: LLM_OPERATIONS,
+  })
+  @IsOptional()
+  @IsIn(LLM_OPERATIONS)
+  operation?: LlmOperation;
+
+  @ApiPropertyOptional({
+    description: 'Only calls to this model',
+    example: 'gpt-4o-mini',
+  })
+  @IsOptional()
+  @IsString()
+  model?: string;
+
+  @ApiPropertyOptional({
+    description: 'Bucket size of the history',
+    enum: ['day', 'month'],
+    default: 'day',
+  })
+  @IsOptional()
+  @IsIn(['day', 'month'])
+  groupBy?: AiUsageGranularity = 'day';
+
+  @ApiPropertyOptional({
+    description: 'csv returns one row per call instead of the JSON report',
+    enum: ['json', 'csv'],
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv' = 'json';
+}
@@ -0,0 +1,19 @@
+import { IsString, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { SearchTranscriptsDto } from './transcripts.dto';
+
+/** The parameters of GET /api/transcripts/search plus a name; no paging. */
+export class SaveSearchDto extends OmitType(SearchTranscriptsDto, [
+  'page',
+  'limit',
+  'context',
+] as const) {
+  @ApiProperty({
+    description: 'Name shown in notifications',
+    example: 'Portabilidad',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+}
@@ -6,9 +6,16 @@ import {
   Min,
   Max,
   IsArray,
+  IsIn,
+  MinLength,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type {
+  CallOutcome,
+  SupervisorInvolvement,
+} from '../interfaces/transcript.interface';
+import { DURATION_BUCKETS, MISSING_FACET_VALUE } from '../search/facets';
 
 export enum TranscriptCategory {
   TECHNICAL_ISSUES = 'technical_issues',
@@ -19,22 +26,146 @@ export enum TranscriptCategory {
   COMPLAINTS_CLAIMS = 'complaints_claims',
 }
 
-export class SearchTranscriptsDto {
+export const CALL_OUTCOMES: CallOutcome[] = [
+  'completed',
+  'dropped',
+  'transferred',
+  'unknown',
+];
+
+export const SUPERVISOR_INVOLVEMENTS: SupervisorInvolvement[] = [
+  'none',
+  'requested',
+  'consulted',
+  'joined',
+];
+
+export const FACET_CATEGORIES = [
+  ...Object.values(TranscriptCategory),
+  MISSING_FACET_VALUE.category!,
+];
+
+export const SENTIMENTS = [
+  'positive',
+  'negative',
+  'neutral',
+  MISSING_FACET_VALUE.sentiment!,
+];
+
+export const DURATION_FACET_VALUES = DURATION_BUCKETS.map(
+  (bucket) => bucket.value,
+);
+
+/** Accepts `?topic=a&topic=b` as well as `?topic=a,b`. */
+function toList({ value }: { value: unknown }): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export class TranscriptMetadataFilterDto {
+  @ApiPropertyOptional({
+    description: 'Filter by agent name (case-insensitive, partial match)',
+    example: 'Carlos',
+  })
+  @IsOptional()
+  @IsString()
+  agentName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by customer name (case-insensitive, partial match)',
+    example: 'Mariana',
+  })
+  @IsOptional()
+  @IsString()
+  customerName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by how the call ended',
+    enum: CALL_OUTCOMES,
+    example: 'completed',
+  })
+  @IsOptional()
+  @IsIn(CALL_OUTCOMES)
+  outcome?: CallOutcome;
+
+  @ApiPropertyOptional({
+    description: 'Filter by supervisor involvement',
+    enum: SUPERVISOR_INVOLVEMENTS,
+    example: 'requested',
+  })
+  @IsOptional()
+  @IsIn(SUPERVISOR_INVOLVEMENTS)
+  supervisorInvolvement?: SupervisorInvolvement;
+}
+
+export class SearchTranscriptsDto extends TranscriptMetadataFilterDto {
   @ApiProperty({
-    description: 'Keywords or phrases to search for',
-    example: 'internet connection problem',
+    description:
+      'Search query: words, "phrases", AND/OR/NOT, (groups), -exclusions and speaker:/from:/to: filters',
+    example: '"cargo adicional" AND (devolución OR reembolso) speaker:CLIENTE',
   })
   @IsString()
   query: string;
 
   @ApiPropertyOptional({
-    description: 'Filter by category',
-    enum: TranscriptCategory,
-    example: TranscriptCategory.TECHNICAL_ISSUES,
+    description:
+      'Filter by category; repeat the parameter or separate values with commas',
+    enum: FACET_CATEGORIES,
+    isArray: true,
+    example: [TranscriptCategory.TECHNICAL_ISSUES],
   })
   @IsOptional()
-  @IsEnum(TranscriptCategory)
-  category?: TranscriptCategory;
+  @Transform(toList)
+  @IsIn(FACET_CATEGORIES, { each: true })
+  category?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Filter by AI-extracted topic (case-insensitive)',
+    type: [String],
+    example: ['facturación'],
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsString({ each: true })
+  topic?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Filter by sentiment',
+    enum: SENTIMENTS,
+    isArray: true,
+    example: ['negative'],
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsIn(SENTIMENTS, { each: true })
+  sentiment?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Filter by agent name as listed in the agent facet (case-insensitive, exact)',
+    type: [String],
+    example: ['Carlos'],
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsString({ each: true })
+  agent?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Filter by call duration bucket',
+    enum: DURATION_FACET_VALUES,
+    isArray: true,
+    example: ['under_3m'],
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsIn(DURATION_FACET_VALUES, { each: true })
+  duration?: string[];
 
   @ApiPropertyOptional({
     description: 'Page number',
@@ -58,6 +189,96 @@ export class SearchTranscriptsDto {
   @Min(1)
   @Max(50)
   limit?: number = 10;
+
+  @ApiPropertyOptional({
+    description:
+      'Messages to include before and after each match (defaults to SEARCH_CONTEXT_MESSAGES)',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  context?: number;
+}
+
+export class SearchSuggestDto {
+  @ApiProperty({
+    description: 'Beginning of the word or topic being typed',
+    example: 'fact',
+  })
+  @IsString()
+  @MinLength(1)
+  prefix: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of suggestions',
+    default: 10,
+    example: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+}
+
+export class SimilarTranscriptsDto {
+  @ApiPropertyOptional({
+    description: 'Maximum number of similar transcripts',
+    default: 10,
+    example: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+}
+
+export class SemanticSearchDto {
+  @ApiProperty({
+    description: 'Free-text description of what to look for',
+    example: 'el cliente quiere que le devuelvan un cobro que no reconoce',
+  })
+  @IsString()
+  query: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by category',
+    enum: TranscriptCategory,
+    example: TranscriptCategory.BILLING_ISSUES,
+  })
+  @IsOptional()
+  @IsEnum(TranscriptCategory)
+  category?: TranscriptCategory;
+
+  @ApiPropertyOptional({
+    description: 'Number of chunks to return',
+    default: 10,
+    example: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+
+  @ApiPropertyOptional({
+    description:
+      'Share of the semantic score in the ranking, 0 to 1 (defaults to SEMANTIC_WEIGHT); the rest is the lexical BM25 score',
+    example: 0.7,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  semanticWeight?: number;
 }
 
 export class ExtractTopicsDto {
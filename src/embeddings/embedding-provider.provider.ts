@@ -0,0 +1,39 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { EmbeddingProvider } from './embedding.provider';
+import { LocalEmbeddingProvider } from './local-embedding.provider';
+import { OpenAiEmbeddingProvider } from './openai-embedding.provider';
+import {
+  DEFAULT_SYNONYMS,
+  parseSynonyms,
+  SpanishAnalyzer,
+} from '../search/spanish-analyzer';
+
+export const embeddingProvider: Provider = {
+  provide: EmbeddingProvider,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): EmbeddingProvider => {
+    const provider = configService.get<string>('EMBEDDING_PROVIDER', 'local');
+    const dimensions = Number(
+      configService.get<string>('EMBEDDING_DIMENSIONS'),
+    );
+
+    if (provider === 'openai') {
+      return new OpenAiEmbeddingProvider(
+        new OpenAI({ apiKey: configService.get<string>('OPENAI_API_KEY') }),
+        configService.get<string>('EMBEDDING_MODEL', 'text-embedding-3-small'),
+        dimensions > 0 ? dimensions : undefined,
+      );
+    }
+
+    return new LocalEmbeddingProvider(
+      new SpanishAnalyzer(
+        parseSynonyms(
+          configService.get<string>('SEARCH_SYNONYMS', DEFAULT_SYNONYMS),
+        ),
+      ),
+      dimensions > 0 ? dimensions : 256,
+    );
+  },
+};
@@ -0,0 +1,9 @@
+/**
+ * Turns text into vectors for semantic search. Vectors are only comparable
+ * when they come from the same `model`, so the vector index is discarded
+ * whenever the configured model changes.
+ */
+export abstract class EmbeddingProvider {
+  abstract readonly model: string;
+  abstract embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,61 @@
+import { foldAccents, SpanishAnalyzer } from '../search/spanish-analyzer';
+import { tokenize } from '../search/tokenizer';
+import { EmbeddingProvider } from './embedding.provider';
+
+// Word stems carry the meaning; trigrams let misspellings and unseen
+// inflections land near the right words.
+const TERM_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * Deterministic embeddings computed offline: analyzed terms and character
+ * trigrams are hashed into a fixed number of signed dimensions (feature
+ * hashing). Same text, same vector, on every machine.
+ */
+export class LocalEmbeddingProvider extends EmbeddingProvider {
+  readonly model: string;
+
+  constructor(
+    private readonly analyzer: SpanishAnalyzer,
+    private readonly dimensions = 256,
+  ) {
+    super();
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedText(text)));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const term of this.analyzer.analyze(text)) {
+      this.addFeature(vector, `t:${term}`, TERM_WEIGHT);
+    }
+    for (const word of tokenize(text)) {
+      const padded = `_${foldAccents(word)}_`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? vector.map((x) => x / norm) : vector;
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const sign = hash & 1 ? -1 : 1;
+    vector[(hash >>> 1) % this.dimensions] += sign * weight;
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
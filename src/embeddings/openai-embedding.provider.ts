@@ -0,0 +1,46 @@
+import { Logger } from '@nestjs/common';
+import OpenAI from 'openai';
+import { EmbeddingProvider } from './embedding.provider';
+
+// The embeddings endpoint accepts up to 2048 inputs per request; smaller
+// batches keep each request well under the token limit.
+const BATCH_SIZE = 100;
+
+export class OpenAiEmbeddingProvider extends EmbeddingProvider {
+  private readonly logger = new Logger(OpenAiEmbeddingProvider.name);
+  readonly model: string;
+
+  constructor(
+    private readonly openai: OpenAI,
+    private readonly modelName: string,
+    private readonly dimensions?: number,
+  ) {
+    super();
+    this.model = dimensions
+      ? `openai:${modelName}:${dimensions}`
+      : `openai:${modelName}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const response = await this.openai.embeddings.create({
+        model: this.modelName,
+        input: texts.slice(start, start + BATCH_SIZE),
+        ...(this.dimensions ? { dimensions: this.dimensions } : {}),
+      });
+
+      this.logger.debug(
+        `Embedded ${response.data.length} texts (${response.usage.total_tokens} tokens)`,
+      );
+      vectors.push(
+        ...response.data
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding),
+      );
+    }
+
+    return vectors;
+  }
+}
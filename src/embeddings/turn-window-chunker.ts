@@ -0,0 +1,38 @@
+import { TranscriptMessage } from '../interfaces/transcript.interface';
+
+export interface TranscriptChunk {
+  /** First and last message of the window, inclusive. */
+  startIndex: number;
+  endIndex: number;
+  text: string;
+}
+
+/**
+ * Splits a conversation into overlapping windows of `size` turns so each
+ * chunk keeps a question together with its answer. SYSTEM messages stay
+ * inside the window ranges but are left out of the embedded text.
+ */
+export function chunkByTurns(
+  messages: TranscriptMessage[],
+  size: number,
+  overlap: number,
+): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  const step = Math.max(1, size - overlap);
+
+  for (let start = 0; start < messages.length; start += step) {
+    const endIndex = Math.min(start + size, messages.length) - 1;
+    const text = messages
+      .slice(start, endIndex + 1)
+      .filter((m) => m.speaker !== 'SYSTEM')
+      .map((m) => `${m.speakerLabel}: ${m.content}`)
+      .join('\n');
+
+    if (text) {
+      chunks.push({ startIndex: start, endIndex, text });
+    }
+    if (endIndex === messages.length - 1) break;
+  }
+
+  return chunks;
+}
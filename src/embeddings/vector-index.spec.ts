@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { VectorIndex } from './vector-index';
+
+describe('VectorIndex', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'vector-index-'));
+    filePath = join(directory, 'nested', 'vectors.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('returns the chunks closest to a vector first', () => {
+    const index = new VectorIndex('test', null);
+    index.set('a', 'hash-a', [
+      { startIndex: 0, endIndex: 3, vector: [1, 0] },
+      { startIndex: 3, endIndex: 6, vector: [0, 1] },
+    ]);
+    index.set('b', 'hash-b', [{ startIndex: 0, endIndex: 2, vector: [1, 1] }]);
+
+    const matches = index.nearest([0, 2], 2);
+
+    expect(matches.map((m) => [m.transcriptId, m.startIndex])).toEqual([
+      ['a', 3],
+      ['b', 0],
+    ]);
+    expect(matches[0].similarity).toBeCloseTo(1);
+  });
+
+  it('persists vectors and knows which transcripts are current', async () => {
+    const index = new VectorIndex('test', filePath, 0);
+    index.set('a', 'hash-a', [{ startIndex: 0, endIndex: 1, vector: [1, 0] }]);
+    await index.flush();
+
+    const reloaded = new VectorIndex('test', filePath);
+    await reloaded.load();
+
+    expect(reloaded.size).toBe(1);
+    expect(reloaded.isCurrent('a', 'hash-a')).toBe(true);
+    expect(reloaded.isCurrent('a', 'hash-b')).toBe(false);
+  });
+
+  it('ignores vectors computed with another model', async () => {
+    const index = new VectorIndex('old-model', filePath, 0);
+    index.set('a', 'hash-a', [{ startIndex: 0, endIndex: 1, vector: [1, 0] }]);
+    await index.flush();
+
+    const reloaded = new VectorIndex('new-model', filePath);
+    await reloaded.load();
+
+    expect(reloaded.size).toBe(0);
+  });
+});
@@ -0,0 +1,179 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+export interface StoredChunk {
+  startIndex: number;
+  endIndex: number;
+  vector: number[];
+}
+
+export interface VectorMatch {
+  transcriptId: string;
+  startIndex: number;
+  endIndex: number;
+  similarity: number;
+}
+
+interface VectorEntry {
+  /** Hash of the transcript the vectors were computed from. */
+  contentHash?: string;
+  chunks: StoredChunk[];
+}
+
+interface VectorIndexFile {
+  version: 1;
+  model: string;
+  savedAt: string;
+  transcripts: Record<string, VectorEntry>;
+}
+
+/**
+ * Chunk vectors per transcript, searched by brute-force cosine similarity.
+ * With a file path the index is mirrored to disk like the transcript store
+ * (coalesced, atomic writes), so restarts only embed what changed. Only
+ * vectors and message ranges are stored, never transcript text.
+ */
+export class VectorIndex {
+  private readonly logger = new Logger(VectorIndex.name);
+  private readonly entries = new Map<string, VectorEntry>();
+  private writeTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly model: string,
+    private readonly filePath: string | null,
+    private readonly writeDelayMs = 500,
+  ) {}
+
+  get size(): number {
+    let chunks = 0;
+    this.entries.forEach((entry) => (chunks += entry.chunks.length));
+    return chunks;
+  }
+
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const stored = JSON.parse(content) as VectorIndexFile;
+
+      if (stored.model !== this.model) {
+        this.logger.warn(
+          `Ignoring vectors in ${this.filePath}: computed with ${stored.model}, configured ${this.model}`,
+        );
+        return;
+      }
+
+      this.entries.clear();
+      for (const [id, entry] of Object.entries(stored.transcripts || {})) {
+        this.entries.set(id, entry);
+      }
+      this.logger.log(
+        `Loaded ${this.size} vectors for ${this.entries.size} transcripts from ${this.filePath}`,
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.log(`No vector index at ${this.filePath} yet`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  isCurrent(transcriptId: string, contentHash: string | undefined): boolean {
+    const entry = this.entries.get(transcriptId);
+    return !!entry && !!contentHash && entry.contentHash === contentHash;
+  }
+
+  transcriptIds(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  set(
+    transcriptId: string,
+    contentHash: string | undefined,
+    chunks: StoredChunk[],
+  ): void {
+    this.entries.set(transcriptId, { contentHash, chunks });
+    this.scheduleWrite();
+  }
+
+  delete(transcriptId: string): boolean {
+    const deleted = this.entries.delete(transcriptId);
+    if (deleted) {
+      this.scheduleWrite();
+    }
+    return deleted;
+  }
+
+  /** The `limit` chunks closest to `vector`, most similar first. */
+  nearest(vector: number[], limit: number): VectorMatch[] {
+    const matches: VectorMatch[] = [];
+
+    for (const [transcriptId, entry] of this.entries) {
+      for (const chunk of entry.chunks) {
+        matches.push({
+          transcriptId,
+          startIndex: chunk.startIndex,
+          endIndex: chunk.endIndex,
+          similarity: cosineSimilarity(vector, chunk.vector),
+        });
+      }
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.writeIndex());
+    }
+    await this.writing;
+  }
+
+  private scheduleWrite(): void {
+    if (!this.filePath || this.writeTimer) return;
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.writeIndex());
+    }, this.writeDelayMs);
+  }
+
+  private async writeIndex(): Promise<void> {
+    if (!this.filePath) return;
+
+    const stored: VectorIndexFile = {
+      version: 1,
+      model: this.model,
+      savedAt: new Date().toISOString(),
+      transcripts: Object.fromEntries(this.entries),
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(stored), 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+      this.logger.debug(`Persisted ${this.size} vectors to ${this.filePath}`);
+    } catch (error) {
+      this.logger.error(`Error persisting vectors to ${this.filePath}:`, error);
+    }
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,106 @@
+import type { LlmOperation } from '../llm/llm.provider';
+
+/**
+ * The analyses OpenAiService runs. Topic extraction and classification with
+ * topics share the classify_topics operation but use different prompts.
+ */
+export type AiAnalysis =
+  | 'classify'
+  | 'topics'
+  | 'classify_with_topics'
+  | 'summarize';
+
+export interface AiUsageTotals {
+  calls: number;
+  promptTokens: number;
+  cachedPromptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** USD; calls to models without a price count as 0. */
+  cost: number;
+}
+
+/** Pre-flight estimate from the real prompts, before anything is sent. */
+export interface AiCostEstimate {
+  model: string;
+  promptTokens: number;
+  /** Upper bound: the completion token limit of every call. */
+  completionTokens: number;
+  estimatedCost: number;
+  /** The estimated cost split by operation, for per-operation budgets. */
+  byOperation: Partial<Record<LlmOperation, number>>;
+}
+
+export interface AiUsageStats {
+  tokenUsage: { prompt: number; completion: number; total: number };
+  estimatedCost: number;
+  /** Left of this month's budget, or null when there is no monthly limit. */
+  remainingBudget: number | null;
+  budgets: AiBudgetStatus[];
+  byModel: Record<string, AiUsageTotals>;
+  byOperation: Partial<Record<LlmOperation, AiUsageTotals>>;
+}
+
+/** One LLM call, as recorded in the usage ledger. */
+export interface AiLedgerEntry {
+  timestamp: string;
+  operation: LlmOperation;
+  transcriptId: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  cachedPromptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** USD at the catalog price when the call was made. */
+  cost: number;
+  /** False when the model had no price and the call was counted as free. */
+  priced: boolean;
+}
+
+export type AiBudgetScope = 'daily' | 'monthly' | 'operation';
+
+export type AiBudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface AiBudgetStatus {
+  scope: AiBudgetScope;
+  /** Set for per-operation budgets, which run per calendar month. */
+  operation?: LlmOperation;
+  /** The UTC day (2025-09-06) or month (2025-09) the spend counts towards. */
+  period: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+  state: AiBudgetState;
+}
+
+/** Outcome of checking an estimate against every budget it touches. */
+export interface AiBudgetCheck {
+  allowed: boolean;
+  /** Budgets the operation would take past the hard-stop threshold. */
+  exceeded: AiBudgetStatus[];
+  /** Budgets the operation would take past the warning threshold. */
+  warnings: AiBudgetStatus[];
+}
+
+export type AiUsageGranularity = 'day' | 'month';
+
+export interface AiUsageFilter {
+  /** Inclusive; a date (2025-09-01) or a full timestamp. */
+  from?: string;
+  /** Inclusive; a bare date covers the whole day. */
+  to?: string;
+  operation?: LlmOperation;
+  model?: string;
+}
+
+export interface AiUsageHistoryBucket extends AiUsageTotals {
+  period: string;
+}
+
+export interface AiUsageReport {
+  totals: AiUsageTotals;
+  byModel: Record<string, AiUsageTotals>;
+  byOperation: Partial<Record<LlmOperation, AiUsageTotals>>;
+  history: AiUsageHistoryBucket[];
+}
@@ -0,0 +1,60 @@
+import type {
+  CallOutcome,
+  SupervisorInvolvement,
+} from './transcript.interface';
+
+/** The search parameters of GET /api/transcripts/search, minus paging. */
+export interface SavedSearchParams {
+  query: string;
+  category?: string[];
+  topic?: string[];
+  sentiment?: string[];
+  agent?: string[];
+  duration?: string[];
+  agentName?: string;
+  customerName?: string;
+  outcome?: CallOutcome;
+  supervisorInvolvement?: SupervisorInvolvement;
+}
+
+export interface SavedSearchMatch {
+  transcriptId: string;
+  fileName: string;
+  category?: string;
+  relevanceScore: number;
+  matchedAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  params: SavedSearchParams;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+  /** Why the last delivery failed; cleared by the next successful one. */
+  lastError?: string;
+  /** Most recent matches first. */
+  matches: SavedSearchMatch[];
+  /**
+   * Transcripts already matched (or present when the search was saved),
+   * so each run only reports transcripts that are new to the search.
+   */
+  seenTranscriptIds: string[];
+}
+
+/** What a notification sink receives when a run finds new matches. */
+export interface SavedSearchNotification {
+  savedSearchId: string;
+  name: string;
+  params: SavedSearchParams;
+  matches: SavedSearchMatch[];
+  detectedAt: string;
+}
+
+export interface SavedSearchRunResult {
+  savedSearchId: string;
+  newMatches: SavedSearchMatch[];
+  /** Set when the search failed or the matches could not be delivered. */
+  error?: string;
+}
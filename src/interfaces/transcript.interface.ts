@@ -1,24 +1,248 @@
+import type { TranscriptCategory } from '../dto/transcripts.dto';
+
+export type SpeakerRole = 'AGENT' | 'CLIENT' | 'SYSTEM' | 'SUPERVISOR';
+
 export interface TranscriptMessage {
   timestamp: string;
-  speaker: 'AGENT' | 'CLIENT' | 'SYSTEM';
+  speaker: SpeakerRole;
+  /** Speaker label exactly as it appears in the source, e.g. `AGENTE 2`. */
+  speakerLabel: string;
+  content: string;
+}
+
+export type SkipReason =
+  | 'unknown_speaker'
+  | 'missing_speaker'
+  | 'orphan_continuation'
+  | 'invalid_timestamp'
+  | 'empty_content'
+  | 'malformed_record';
+
+export interface SkippedLine {
+  /** Line, row, cue or turn number in the source file, starting at 1. */
+  lineNumber: number;
   content: string;
+  reason: SkipReason;
+}
+
+export interface TranscriptParticipant {
+  label: string;
+  role: SpeakerRole;
+  messageCount: number;
+}
+
+export interface CallGap {
+  from: string;
+  to: string;
+  seconds: number;
+  before: SpeakerRole;
+  after: SpeakerRole;
+}
+
+export interface TranscriptMetrics {
+  durationSeconds: number;
+  /** Estimated from word counts, capped at the start of the next turn. */
+  talkTimeSeconds: Partial<Record<SpeakerRole, number>>;
+  longGaps: {
+    count: number;
+    totalSeconds: number;
+    gaps: CallGap[];
+  };
+  timeToFirstAgentResponseSeconds: number | null;
+}
+
+export interface TimingStatistics {
+  averageDurationSeconds: number;
+  averageDuration: string;
+  totalDurationSeconds: number;
+  totalLongGaps: number;
+  averageLongGapSeconds: number;
+  averageTimeToFirstAgentResponseSeconds: number | null;
+  /** Percentage of the estimated talk time taken by each role. */
+  talkTimeShare: Partial<Record<SpeakerRole, number>>;
+}
+
+export type PiiEntityType = 'EMAIL' | 'RUT' | 'PHONE' | 'ADDRESS' | 'PERSON';
+
+export type SupportedLanguage = 'es' | 'en' | 'pt';
+
+export interface AnnotationProvenance {
+  model: string;
+  annotatedAt: string;
+  /** Language the annotation was written in. */
+  language?: SupportedLanguage;
+}
+
+export type CallOutcome = 'completed' | 'dropped' | 'transferred' | 'unknown';
+
+export type SupervisorInvolvement =
+  | 'none'
+  | 'requested'
+  | 'consulted'
+  | 'joined';
+
+/** Facts extracted from the conversation itself by local rules. */
+export interface TranscriptMetadata {
+  agentName?: string;
+  customerName?: string;
+  outcome: CallOutcome;
+  supervisorInvolvement: SupervisorInvolvement;
+}
+
+export interface TranscriptMetadataFilters {
+  agentName?: string;
+  customerName?: string;
+  outcome?: CallOutcome;
+  supervisorInvolvement?: SupervisorInvolvement;
 }
 
 export interface ParsedTranscript {
   id: string;
   fileName: string;
+  format?: string;
+  /**
+   * A file in TRANSCRIPTS_DIR or an upload. Stored transcripts without one
+   * predate the field and are treated as directory files.
+   */
+  origin?: 'directory' | 'upload';
+  /** SHA-256 of the source content, used to detect edited files. */
+  contentHash?: string;
+  /** Detected language of the conversation. */
+  language?: SupportedLanguage;
   messages: TranscriptMessage[];
+  participants?: TranscriptParticipant[];
+  skippedLines?: SkippedLine[];
+  /** PII entity types found in the messages and redacted before AI calls. */
+  redactedEntityTypes?: PiiEntityType[];
   duration?: string;
+  metrics?: TranscriptMetrics;
+  metadata?: TranscriptMetadata;
   summary?: string;
   category?: string;
   topics?: string[];
   sentiment?: 'positive' | 'negative' | 'neutral';
+  /** Which model produced each AI-generated field, and when. */
+  annotations?: Partial<
+    Record<'category' | 'summary' | 'topics', AnnotationProvenance>
+  >;
+}
+
+/** Character range in a message's content that matched a query term. */
+export interface SearchHighlight {
+  start: number;
+  end: number;
+  term: string;
+}
+
+/** A matched message with the turns said just before and after it. */
+export interface SearchSnippet {
+  messageIndex: number;
+  message: TranscriptMessage;
+  highlights: SearchHighlight[];
+  before: TranscriptMessage[];
+  after: TranscriptMessage[];
 }
 
 export interface SearchResult {
   transcript: ParsedTranscript;
   relevanceScore: number;
   matchedMessages: TranscriptMessage[];
+  snippets: SearchSnippet[];
+}
+
+/** A transcript ranked by how much it resembles another one. */
+export interface SimilarTranscript {
+  transcriptId: string;
+  fileName: string;
+  category?: string;
+  topics?: string[];
+  /** Weighted blend of the components, 0 to 1. */
+  score: number;
+  components: {
+    /** Cosine similarity of the TF-IDF message vectors. */
+    terms: number;
+    /** Jaccard overlap of the AI topics. */
+    topics: number;
+    /** 1 when both calls have the same AI category. */
+    category: number;
+  };
+  explanation: {
+    sharedTerms: Array<{ word: string; weight: number }>;
+    sharedTopics: string[];
+    sameCategory: boolean;
+  };
+}
+
+/** An autocomplete entry for the search box. */
+export interface SearchCompletion {
+  text: string;
+  type: 'topic' | 'word';
+  /** Transcripts containing the word or tagged with the topic. */
+  documentCount: number;
+}
+
+/** A window of turns close to the query in embedding space. */
+export interface SemanticSearchResult {
+  transcriptId: string;
+  fileName: string;
+  category?: string;
+  /** Weighted blend of the semantic and lexical scores, 0 to 1. */
+  score: number;
+  semanticScore: number;
+  /** BM25 score of the whole transcript, relative to the best match. */
+  lexicalScore: number;
+  chunk: {
+    startIndex: number;
+    endIndex: number;
+    messages: TranscriptMessage[];
+  };
+}
+
+export interface TranscriptUploadResult {
+  fileName: string;
+  transcriptId?: string;
+  status: 'loaded' | 'duplicate' | 'failed';
+  messageCount?: number;
+  error?: string;
+  /** Closest stored transcript with (nearly) the same content, if any. */
+  duplicateOf?: { transcriptId: string; similarity: number };
+}
+
+export interface DuplicateClusterMember {
+  transcriptId: string;
+  fileName: string;
+  /** Estimated share of shingles in common with the kept transcript. */
+  similarity: number;
+  /** Same words as the kept transcript, formatting aside. */
+  exact: boolean;
+}
+
+export interface DuplicateCluster {
+  /** Transcript kept when duplicates are excluded from analysis. */
+  canonicalId: string;
+  /** The kept transcript first, then the most similar copies. */
+  members: DuplicateClusterMember[];
+}
+
+export interface IngestionFailure {
+  fileName: string;
+  source: 'startup' | 'upload' | 'watcher';
+  error: string;
+  failedAt: string;
+}
+
+export interface IngestionReport {
+  generatedAt: string;
+  filesLoaded: number;
+  filesFailed: number;
+  failedFiles: IngestionFailure[];
+  linesSkipped: number;
+  skippedByReason: Partial<Record<SkipReason, number>>;
+  transcriptsWithSkippedLines: Array<{
+    transcriptId: string;
+    fileName: string;
+    skippedLines: number;
+  }>;
 }
 
 export interface TopicAnalysis {
@@ -31,7 +255,7 @@ export interface TopicAnalysis {
 
 export interface ClassificationResult {
   transcriptId: string;
-  category: string;
+  category: TranscriptCategory;
   confidence: number;
   reasoning: string;
 }
@@ -46,4 +270,8 @@ export interface ApiResponse<T> {
     total: number;
     totalPages: number;
   };
+  /** Corrected query, returned by search for misspelled or rare words. */
+  suggestion?: string;
+  /** Value counts per facet, returned by search. */
+  facets?: Record<string, Array<{ value: string; count: number }>>;
 }
@@ -0,0 +1,14 @@
+import { AzureOpenAI } from 'openai';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+
+/**
+ * Azure OpenAI. Requests go to a deployment rather than a model, so the
+ * deployment name is what gets recorded as the model.
+ */
+export class AzureOpenAiLlmProvider extends OpenAiLlmProvider {
+  readonly name = 'azure';
+
+  constructor(client: AzureOpenAI, deployment: string) {
+    super(client, deployment);
+  }
+}
@@ -0,0 +1,48 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(2, 1000, () => now);
+  });
+
+  it('opens after consecutive failures and refuses calls until the reset', () => {
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryAt).toEqual(new Date(1000));
+  });
+
+  it('lets one trial call through once the reset time has passed', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.retryAt).toBeNull();
+  });
+
+  it('opens again when the trial call fails', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1500;
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.retryAt).toEqual(new Date(2500));
+  });
+});
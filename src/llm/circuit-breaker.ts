@@ -0,0 +1,69 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Opens after `failureThreshold` consecutive failures and refuses calls for
+ * `resetAfterMs`. Then one trial call is let through (half open): success
+ * closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetAfterMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.resetAfterMs
+      ? 'half_open'
+      : 'open';
+  }
+
+  /** When calls will be accepted again, or null while the circuit is closed. */
+  get retryAt(): Date | null {
+    return this.openedAt === null
+      ? null
+      : new Date(this.openedAt + this.resetAfterMs);
+  }
+
+  /** Whether a call may go out now; in half open, only the trial call. */
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.trialInFlight) {
+          return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /** A call that went out but says nothing about availability (e.g. a 400). */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * A provider call that failed. Retryable failures (rate limits, 5xx,
+ * timeouts, dropped connections) are retried with backoff and count against
+ * the circuit breaker; the rest are returned to the caller as they are.
+ */
+export class LlmRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+    /** How long the provider asked us to wait (Retry-After). */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'LlmRequestError';
+  }
+}
+
+/** The circuit is open: calls are refused until `retryAt`. */
+export class LlmUnavailableError extends Error {
+  constructor(readonly retryAt: Date) {
+    super(`AI unavailable until ${retryAt.toISOString()}`);
+    this.name = 'LlmUnavailableError';
+  }
+}
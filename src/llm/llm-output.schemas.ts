@@ -0,0 +1,126 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ClassConstructor } from 'class-transformer';
+import { TranscriptCategory } from '../dto/transcripts.dto';
+
+/**
+ * Shape an AI operation must answer with. The class is what the answer is
+ * validated against; the JSON schema is handed to providers that support
+ * structured output so the model is constrained to it up front.
+ */
+export interface LlmOutputSchema<T extends object> {
+  name: string;
+  type: ClassConstructor<T>;
+  jsonSchema: Record<string, unknown>;
+}
+
+const MAX_TOPICS = 10;
+
+export class ClassificationOutput {
+  @IsEnum(TranscriptCategory)
+  category!: TranscriptCategory;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  confidence!: number;
+
+  @IsString()
+  reasoning!: string;
+}
+
+export class TopicsOutput {
+  @IsEnum(TranscriptCategory)
+  category!: TranscriptCategory;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  confidence!: number;
+
+  @IsArray()
+  @ArrayMaxSize(MAX_TOPICS)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  topics!: string[];
+}
+
+export class ClassificationWithTopicsOutput extends TopicsOutput {
+  @IsString()
+  reasoning!: string;
+}
+
+export class SummaryOutput {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  summary!: string;
+}
+
+// Strict structured output requires every property to be listed as required
+// and rejects range keywords, so bounds are left to the validator.
+function objectSchema(
+  properties: Record<string, unknown>,
+): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
+
+const CATEGORY = {
+  type: 'string',
+  enum: Object.values(TranscriptCategory),
+};
+const CONFIDENCE = { type: 'number' };
+const REASONING = { type: 'string' };
+const TOPICS = { type: 'array', items: { type: 'string' } };
+
+export const CLASSIFICATION_SCHEMA: LlmOutputSchema<ClassificationOutput> = {
+  name: 'classification',
+  type: ClassificationOutput,
+  jsonSchema: objectSchema({
+    category: CATEGORY,
+    confidence: CONFIDENCE,
+    reasoning: REASONING,
+  }),
+};
+
+export const TOPICS_SCHEMA: LlmOutputSchema<TopicsOutput> = {
+  name: 'topics',
+  type: TopicsOutput,
+  jsonSchema: objectSchema({
+    category: CATEGORY,
+    confidence: CONFIDENCE,
+    topics: TOPICS,
+  }),
+};
+
+export const CLASSIFICATION_WITH_TOPICS_SCHEMA: LlmOutputSchema<ClassificationWithTopicsOutput> =
+  {
+    name: 'classification_with_topics',
+    type: ClassificationWithTopicsOutput,
+    jsonSchema: objectSchema({
+      category: CATEGORY,
+      confidence: CONFIDENCE,
+      reasoning: REASONING,
+      topics: TOPICS,
+    }),
+  };
+
+export const SUMMARY_SCHEMA: LlmOutputSchema<SummaryOutput> = {
+  name: 'summary',
+  type: SummaryOutput,
+  jsonSchema: objectSchema({ summary: { type: 'string' } }),
+};
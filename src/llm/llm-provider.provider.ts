@@ -0,0 +1,68 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LlmProvider } from './llm.provider';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+import { AzureOpenAiLlmProvider } from './azure-openai-llm.provider';
+import { OpenAiCompatibleLlmProvider } from './openai-compatible-llm.provider';
+import { MockLlmProvider } from './mock-llm.provider';
+
+// SDK retries are off: LlmSchedulerService retries with its own backoff,
+// limits and circuit breaker.
+export const llmProvider: Provider = {
+  provide: LlmProvider,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): LlmProvider => {
+    const provider = configService.get<string>('LLM_PROVIDER', 'openai');
+    const model = configService.get<string>('OPENAI_MODEL') || 'gpt-4o-mini';
+
+    switch (provider) {
+      case 'mock':
+        return new MockLlmProvider();
+
+      case 'azure': {
+        const deployment =
+          configService.get<string>('AZURE_OPENAI_DEPLOYMENT') || model;
+        return new AzureOpenAiLlmProvider(
+          new AzureOpenAI({
+            endpoint: configService.get<string>('AZURE_OPENAI_ENDPOINT'),
+            apiKey: configService.get<string>('AZURE_OPENAI_API_KEY'),
+            apiVersion:
+              configService.get<string>('AZURE_OPENAI_API_VERSION') ||
+              '2024-10-21',
+            deployment,
+            maxRetries: 0,
+          }),
+          deployment,
+        );
+      }
+
+      case 'openai-compatible': {
+        const baseURL = configService.get<string>('LLM_BASE_URL');
+        if (!baseURL) {
+          throw new Error(
+            'LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible',
+          );
+        }
+        return new OpenAiCompatibleLlmProvider(
+          new OpenAI({
+            baseURL,
+            // Local servers ignore the key, but the client requires one.
+            apiKey: configService.get<string>('LLM_API_KEY') || 'not-needed',
+            maxRetries: 0,
+          }),
+          configService.get<string>('LLM_MODEL') || model,
+        );
+      }
+
+      default:
+        return new OpenAiLlmProvider(
+          new OpenAI({
+            apiKey: configService.get<string>('OPENAI_API_KEY'),
+            maxRetries: 0,
+          }),
+          model,
+        );
+    }
+  },
+};
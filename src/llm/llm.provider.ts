@@ -0,0 +1,55 @@
+/** What a completion is for; providers may use it, the mock relies on it. */
+export type LlmOperation = 'classify' | 'classify_topics' | 'summarize';
+
+export const LLM_OPERATIONS: LlmOperation[] = [
+  'classify',
+  'classify_topics',
+  'summarize',
+];
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** JSON schema the answer must follow, for providers with structured output. */
+export interface LlmResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LlmCompletionRequest {
+  operation: LlmOperation;
+  messages: LlmMessage[];
+  maxTokens: number;
+  responseFormat?: LlmResponseFormat;
+  /** Aborted when the call times out. */
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  /** Part of promptTokens served from the prompt cache. */
+  cachedPromptTokens?: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage?: LlmUsage;
+  /** The answer stopped at maxTokens. */
+  truncated?: boolean;
+}
+
+/**
+ * Chat completion backend behind OpenAiService. Also the injection token;
+ * LLM_PROVIDER picks the implementation.
+ */
+export abstract class LlmProvider {
+  /** Provider kind, e.g. "openai" or "azure". */
+  abstract readonly name: string;
+  /** Model (or deployment) name recorded with every AI annotation. */
+  abstract readonly model: string;
+  abstract complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
@@ -0,0 +1,53 @@
+import { MockLlmProvider } from './mock-llm.provider';
+import { LlmOperation } from './llm.provider';
+
+describe('MockLlmProvider', () => {
+  const provider = new MockLlmProvider();
+  const prompt = (lines: string) =>
+    `Classify into one of these categories:\n- billing_issues: Billing queries, charges\n\nID: sample_01\nMessages:\n${lines}`;
+  const complete = (operation: LlmOperation, lines: string) =>
+    provider.complete({
+      operation,
+      messages: [{ role: 'user', content: prompt(lines) }],
+      maxTokens: 200,
+    });
+
+  it('classifies from the transcript lines, not the instructions', async () => {
+    const completion = await complete(
+      'classify_topics',
+      'AGENT: ¿En qué le ayudo?\nCLIENT: Mi internet está lento y no hay señal.',
+    );
+
+    expect(JSON.parse(completion.content)).toEqual({
+      category: 'technical_issues',
+      confidence: 0.8,
+      reasoning: 'Mentions connectivity 3 time(s)',
+      topics: ['connectivity'],
+    });
+    expect(completion.usage!.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('answers the same prompt the same way', async () => {
+    const lines = 'CLIENT: Tengo un reclamo por un cobro en mi boleta.';
+    const first = await complete('classify', lines);
+    const second = await complete('classify', lines);
+
+    expect(second).toEqual(first);
+    expect(JSON.parse(first.content)).toMatchObject({
+      category: 'billing_issues',
+      topics: ['billing', 'complaint'],
+    });
+  });
+
+  it('falls back to administrative requests and summarizes as JSON', async () => {
+    const lines = 'AGENT: Hola.\nCLIENT: Quiero dar de baja mi línea fija.';
+
+    expect(
+      JSON.parse((await complete('classify', lines)).content),
+    ).toMatchObject({ category: 'administrative_requests', confidence: 0.5 });
+    expect(JSON.parse((await complete('summarize', lines)).content)).toEqual({
+      summary:
+        'Customer call about account management. The customer said: "Quiero dar de baja mi línea fija."',
+    });
+  });
+});
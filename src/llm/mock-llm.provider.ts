@@ -0,0 +1,128 @@
+import { foldAccents } from '../search/spanish-analyzer';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from './llm.provider';
+import { countMessageTokens, countTokens } from './tokenizer';
+
+interface CategoryRule {
+  category: string;
+  topic: string;
+  pattern: RegExp;
+}
+
+// Earlier rules win ties: a complaint about a charge is a complaint.
+const CATEGORY_RULES: CategoryRule[] = [
+  {
+    category: 'complaints_claims',
+    topic: 'complaint',
+    pattern: /\b(reclam\w*|queja\w*|complain\w*|insatisf\w*)/g,
+  },
+  {
+    category: 'billing_issues',
+    topic: 'billing',
+    pattern:
+      /\b(factur\w*|fatura\w*|boleta\w*|cobr\w*|cargo\w*|pago\w*|bill\w*|charge\w*)/g,
+  },
+  {
+    category: 'technical_issues',
+    topic: 'connectivity',
+    pattern:
+      /\b(internet|senal|sinal|wifi|router|modem|conexion\w*|signal|lent\w*)/g,
+  },
+  {
+    category: 'service_activation',
+    topic: 'service activation',
+    pattern: /\b(activ\w*|ativ\w*|habilit\w*)/g,
+  },
+  {
+    category: 'commercial_support',
+    topic: 'plans and promotions',
+    pattern:
+      /\b(plan|planes|plano\w*|promoci\w*|oferta\w*|portabilidad|contratar|upgrade)/g,
+  },
+];
+
+const FALLBACK = {
+  category: 'administrative_requests',
+  topic: 'account management',
+};
+
+// Lines written by OpenAiService for each message, e.g. "CLIENT: Hola".
+const MESSAGE_LINE = /^(AGENT|CLIENT|SUPERVISOR): (.*)$/gm;
+
+/**
+ * Offline provider for tests and demos. Answers with keyword rules over the
+ * transcript lines of the prompt, so the same prompt always gets the same
+ * answer. Reasoning, topics and summaries are in English whatever
+ * AI_OUTPUT_LANGUAGE says.
+ */
+export class MockLlmProvider extends LlmProvider {
+  readonly name = 'mock';
+  readonly model = 'mock-rules';
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const prompt = request.messages.map((m) => m.content).join('\n');
+    const lines = Array.from(prompt.matchAll(MESSAGE_LINE), (match) => ({
+      speaker: match[1],
+      content: match[2],
+    }));
+    const text = foldAccents(
+      lines.map((line) => line.content).join('\n'),
+    ).toLowerCase();
+
+    const scored = CATEGORY_RULES.map((rule) => ({
+      ...rule,
+      hits: text.match(rule.pattern)?.length ?? 0,
+    }))
+      .filter((rule) => rule.hits > 0)
+      .sort((a, b) => b.hits - a.hits);
+    const best = scored[0] ?? { ...FALLBACK, hits: 0 };
+
+    let content: string;
+    switch (request.operation) {
+      case 'classify':
+      case 'classify_topics':
+        content = JSON.stringify({
+          category: best.category,
+          confidence: Math.min(0.95, 0.5 + 0.1 * best.hits),
+          reasoning:
+            best.hits > 0
+              ? `Mentions ${best.topic} ${best.hits} time(s)`
+              : 'No category keywords found',
+          topics: (scored.length > 0 ? scored : [best])
+            .slice(0, 3)
+            .map((rule) => rule.topic),
+        });
+        break;
+      case 'summarize': {
+        const opening =
+          lines.find((line) => line.speaker === 'CLIENT')?.content ?? '';
+        content = JSON.stringify({
+          summary: `Customer call about ${best.topic}. The customer said: "${truncate(opening, 120)}"`,
+        });
+        break;
+      }
+      default:
+        return Promise.reject(
+          new Error(`Unsupported operation ${String(request.operation)}`),
+        );
+    }
+
+    const promptTokens = countMessageTokens(request.messages, this.model);
+    const completionTokens = countTokens(content, this.model);
+    return Promise.resolve({
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    });
+  }
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
@@ -0,0 +1,45 @@
+import { PricingCatalog } from './model-pricing';
+
+describe('PricingCatalog', () => {
+  const catalog = new PricingCatalog();
+
+  it('prices dated snapshots like their base model', () => {
+    expect(catalog.priceFor('gpt-4o-mini-2024-07-18')).toEqual(
+      catalog.priceFor('gpt-4o-mini'),
+    );
+    expect(catalog.priceFor('gpt-5-mini-2025-08-07')?.output).toBe(2);
+    expect(catalog.priceFor('llama3.1')).toBeUndefined();
+  });
+
+  it('bills cached prompt tokens at the cached rate', () => {
+    // gpt-5-mini: $0.25 input, $0.025 cached input, $2 output per 1M.
+    expect(
+      catalog.cost('gpt-5-mini', {
+        promptTokens: 1_000_000,
+        cachedPromptTokens: 400_000,
+        completionTokens: 100_000,
+      }),
+    ).toBeCloseTo(0.15 + 0.01 + 0.2, 10);
+  });
+
+  it('adds and overrides models from LLM_PRICING', () => {
+    const configured = PricingCatalog.fromJson(
+      '{"llama3.1":{"input":0,"output":0},"gpt-4o-mini":{"input":1,"cachedInput":0.5,"output":2}}',
+    );
+
+    expect(configured.priceFor('llama3.1')).toEqual({
+      input: 0,
+      cachedInput: 0,
+      output: 0,
+    });
+    expect(
+      configured.cost('gpt-4o-mini', {
+        promptTokens: 1_000_000,
+        completionTokens: 0,
+      }),
+    ).toBe(1);
+    expect(() =>
+      PricingCatalog.fromJson('{"custom":{"input":-1,"output":1}}'),
+    ).toThrow('LLM_PRICING for "custom"');
+  });
+});
@@ -0,0 +1,105 @@
+import { LlmUsage } from './llm.provider';
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  input: number;
+  /** Prompt tokens served from the provider's prompt cache. */
+  cachedInput: number;
+  output: number;
+}
+
+/** OpenAI list prices for standard processing. */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-5': { input: 1.25, cachedInput: 0.125, output: 10 },
+  'gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 2 },
+  'gpt-5-nano': { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  'gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  'o4-mini': { input: 1.1, cachedInput: 0.275, output: 4.4 },
+  'o3-mini': { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  'mock-rules': { input: 0, cachedInput: 0, output: 0 },
+};
+
+/**
+ * Prices per model. A model without an entry of its own takes the entry of
+ * the longest model name it starts with, so dated snapshots such as
+ * gpt-4o-mini-2024-07-18 are priced like gpt-4o-mini.
+ */
+export class PricingCatalog {
+  private readonly prices: Map<string, ModelPricing>;
+
+  constructor(overrides: Record<string, ModelPricing> = {}) {
+    this.prices = new Map(
+      Object.entries({ ...DEFAULT_MODEL_PRICING, ...overrides }),
+    );
+  }
+
+  /**
+   * Parses LLM_PRICING, e.g. {"llama3.1":{"input":0,"output":0}}. A missing
+   * cachedInput rate defaults to the input rate.
+   */
+  static fromJson(json: string | undefined): PricingCatalog {
+    if (!json?.trim()) {
+      return new PricingCatalog();
+    }
+    const parsed = JSON.parse(json) as Record<string, Partial<ModelPricing>>;
+    const overrides: Record<string, ModelPricing> = {};
+    for (const [model, pricing] of Object.entries(parsed)) {
+      const { input, output } = pricing;
+      const cachedInput = pricing.cachedInput ?? input;
+      if (![input, cachedInput, output].every(isRate)) {
+        throw new Error(
+          `LLM_PRICING for "${model}" needs non-negative input and output rates`,
+        );
+      }
+      overrides[model] = {
+        input: input!,
+        cachedInput: cachedInput!,
+        output: output!,
+      };
+    }
+    return new PricingCatalog(overrides);
+  }
+
+  priceFor(model: string): ModelPricing | undefined {
+    const exact = this.prices.get(model);
+    if (exact) {
+      return exact;
+    }
+    let best: string | undefined;
+    for (const name of this.prices.keys()) {
+      if (model.startsWith(name) && (!best || name.length > best.length)) {
+        best = name;
+      }
+    }
+    return best ? this.prices.get(best) : undefined;
+  }
+
+  /** Cost in USD, or undefined when the model has no price. */
+  cost(
+    model: string,
+    usage: Pick<
+      LlmUsage,
+      'promptTokens' | 'completionTokens' | 'cachedPromptTokens'
+    >,
+  ): number | undefined {
+    const pricing = this.priceFor(model);
+    if (!pricing) {
+      return undefined;
+    }
+    const cached = Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens);
+    return (
+      ((usage.promptTokens - cached) * pricing.input +
+        cached * pricing.cachedInput +
+        usage.completionTokens * pricing.output) /
+      1_000_000
+    );
+  }
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
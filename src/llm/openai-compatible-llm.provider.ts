@@ -0,0 +1,20 @@
+import OpenAI from 'openai';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+
+/**
+ * Any server speaking the OpenAI chat completions API at its own base URL
+ * (Ollama, llama.cpp, vLLM, LM Studio). These servers take the older
+ * max_tokens parameter, and not all of them accept a JSON schema, so only
+ * JSON mode is requested; the answer is still validated afterwards.
+ */
+export class OpenAiCompatibleLlmProvider extends OpenAiLlmProvider {
+  readonly name = 'openai-compatible';
+
+  protected tokenLimit(maxTokens: number) {
+    return { max_tokens: maxTokens };
+  }
+
+  protected responseFormat(): OpenAI.ChatCompletionCreateParams['response_format'] {
+    return { type: 'json_object' };
+  }
+}
@@ -0,0 +1,121 @@
+import OpenAI, {
+  APIConnectionError,
+  APIError,
+  APIUserAbortError,
+} from 'openai';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmResponseFormat,
+} from './llm.provider';
+import { LlmRequestError } from './llm-errors';
+
+export class OpenAiLlmProvider extends LlmProvider {
+  readonly name: string = 'openai';
+
+  constructor(
+    protected readonly client: OpenAI,
+    readonly model: string,
+  ) {
+    super();
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    let response: OpenAI.ChatCompletion;
+    try {
+      response = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages: request.messages,
+          ...this.tokenLimit(request.maxTokens),
+          ...(request.responseFormat && {
+            response_format: this.responseFormat(request.responseFormat),
+          }),
+        },
+        { signal: request.signal },
+      );
+    } catch (error) {
+      throw toRequestError(error);
+    }
+
+    const choice = response.choices[0];
+    return {
+      content: choice?.message.content ?? '',
+      truncated: choice?.finish_reason === 'length',
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        cachedPromptTokens:
+          response.usage.prompt_tokens_details?.cached_tokens ?? 0,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens,
+      },
+    };
+  }
+
+  /** Reasoning models only accept max_completion_tokens. */
+  protected tokenLimit(
+    maxTokens: number,
+  ): Pick<
+    OpenAI.ChatCompletionCreateParamsNonStreaming,
+    'max_tokens' | 'max_completion_tokens'
+  > {
+    return { max_completion_tokens: maxTokens };
+  }
+
+  /** Strict structured output: the model can only answer with the schema. */
+  protected responseFormat(
+    format: LlmResponseFormat,
+  ): OpenAI.ChatCompletionCreateParams['response_format'] {
+    return {
+      type: 'json_schema',
+      json_schema: { name: format.name, schema: format.schema, strict: true },
+    };
+  }
+}
+
+function toRequestError(error: unknown): unknown {
+  if (error instanceof APIUserAbortError) {
+    return error;
+  }
+  if (error instanceof APIConnectionError) {
+    return new LlmRequestError(error.message, true);
+  }
+  if (error instanceof APIError) {
+    const { status, headers, code, message } = error as APIError<
+      number | undefined,
+      Headers | undefined
+    >;
+    if (status === undefined) {
+      return error;
+    }
+    // Out of quota is a 429 too, but waiting will not fix it.
+    const retryable =
+      code !== 'insufficient_quota' &&
+      (status === 408 || status === 409 || status === 429 || status >= 500);
+    return new LlmRequestError(
+      message,
+      retryable,
+      status,
+      retryAfterMs(headers),
+    );
+  }
+  return error;
+}
+
+function retryAfterMs(headers: Headers | undefined): number | undefined {
+  const milliseconds = Number(headers?.get('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+  const value = headers?.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,41 @@
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('waits for the oldest request to leave the window', () => {
+    const limiter = new RateLimiter(2, 0, () => now);
+    limiter.reserve(10);
+    now = 100;
+    limiter.reserve(10);
+    now = 200;
+
+    expect(limiter.delayFor(10)).toBe(59800);
+    now = 60000;
+    expect(limiter.delayFor(10)).toBe(0);
+  });
+
+  it('waits until enough tokens have left the window', () => {
+    const limiter = new RateLimiter(0, 1000, () => now);
+    limiter.reserve(600);
+    now = 1000;
+    limiter.reserve(300);
+
+    expect(limiter.delayFor(100)).toBe(0);
+    expect(limiter.delayFor(200)).toBe(59000);
+    expect(limiter.delayFor(5000)).toBe(60000);
+  });
+
+  it('counts the real usage once a call is settled', () => {
+    const limiter = new RateLimiter(0, 1000, () => now);
+    const reservation = limiter.reserve(900);
+
+    limiter.settle(reservation, 200);
+
+    expect(limiter.delayFor(800)).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+const WINDOW_MS = 60_000;
+
+export interface RateLimitReservation {
+  at: number;
+  tokens: number;
+}
+
+/**
+ * Requests-per-minute and tokens-per-minute limits over a sliding one-minute
+ * window. A limit of 0 disables it. Calls reserve their estimated tokens up
+ * front and settle the reservation with the real usage once it is known.
+ */
+export class RateLimiter {
+  private reservations: RateLimitReservation[] = [];
+
+  constructor(
+    private readonly requestsPerMinute: number,
+    private readonly tokensPerMinute: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /** Milliseconds until a call of `tokens` fits in both limits (0 = now). */
+  delayFor(tokens: number): number {
+    const now = this.now();
+    this.prune(now);
+
+    let delay = 0;
+    if (
+      this.requestsPerMinute > 0 &&
+      this.reservations.length >= this.requestsPerMinute
+    ) {
+      const oldest =
+        this.reservations[this.reservations.length - this.requestsPerMinute];
+      delay = oldest.at + WINDOW_MS - now;
+    }
+
+    if (this.tokensPerMinute > 0) {
+      // A single call larger than the whole budget waits for an empty window.
+      const needed = Math.min(tokens, this.tokensPerMinute);
+      let used = this.reservations.reduce((sum, r) => sum + r.tokens, 0);
+      for (const reservation of this.reservations) {
+        if (used + needed <= this.tokensPerMinute) {
+          break;
+        }
+        used -= reservation.tokens;
+        delay = Math.max(delay, reservation.at + WINDOW_MS - now);
+      }
+    }
+
+    return Math.max(0, delay);
+  }
+
+  reserve(tokens: number): RateLimitReservation {
+    const reservation = { at: this.now(), tokens };
+    this.reservations.push(reservation);
+    return reservation;
+  }
+
+  settle(reservation: RateLimitReservation, tokens: number): void {
+    reservation.tokens = tokens;
+  }
+
+  private prune(now: number): void {
+    while (
+      this.reservations.length > 0 &&
+      this.reservations[0].at + WINDOW_MS <= now
+    ) {
+      this.reservations.shift();
+    }
+  }
+}
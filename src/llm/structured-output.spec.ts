@@ -0,0 +1,68 @@
+import {
+  parseStructuredOutput,
+  StructuredOutputError,
+} from './structured-output';
+import {
+  CLASSIFICATION_SCHEMA,
+  CLASSIFICATION_WITH_TOPICS_SCHEMA,
+} from './llm-output.schemas';
+
+function violations(content: string): string[] {
+  try {
+    parseStructuredOutput(content, CLASSIFICATION_SCHEMA);
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return error.violations;
+    }
+    throw error;
+  }
+  throw new Error('expected a StructuredOutputError');
+}
+
+describe('parseStructuredOutput', () => {
+  it('accepts a fenced answer surrounded by prose and drops unknown keys', () => {
+    const output = parseStructuredOutput(
+      'Here it is:\n```json\n{"category":"billing_issues","confidence":0.9,"reasoning":"charge","extra":1}\n```',
+      CLASSIFICATION_SCHEMA,
+    );
+
+    expect({ ...output }).toEqual({
+      category: 'billing_issues',
+      confidence: 0.9,
+      reasoning: 'charge',
+    });
+  });
+
+  it('rejects categories outside TranscriptCategory', () => {
+    expect(
+      violations('{"category":"error","confidence":0.9,"reasoning":"x"}'),
+    ).toEqual([expect.stringMatching(/^category must be one of/)]);
+  });
+
+  it('rejects confidence outside 0-1 and missing fields', () => {
+    expect(
+      violations('{"category":"billing_issues","confidence":1.5}'),
+    ).toEqual([
+      'confidence must not be greater than 1',
+      'reasoning must be a string',
+    ]);
+  });
+
+  it('reports truncated JSON', () => {
+    expect(
+      violations('{"category":"billing_issues","confidence":0.9,"reas'),
+    ).toEqual([expect.stringMatching(/^the JSON does not parse/)]);
+    expect(violations('I cannot classify this call.')).toEqual([
+      'the answer does not contain a JSON object',
+    ]);
+  });
+
+  it('validates every topic', () => {
+    expect(() =>
+      parseStructuredOutput(
+        '{"category":"billing_issues","confidence":0.9,"reasoning":"x","topics":["billing",""]}',
+        CLASSIFICATION_WITH_TOPICS_SCHEMA,
+      ),
+    ).toThrow(/each value in topics should not be empty/);
+  });
+});
@@ -0,0 +1,79 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+import { LlmOutputSchema } from './llm-output.schemas';
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly violations: string[],
+  ) {
+    super(`${message}: ${violations.join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Parses a model answer and validates it against the schema. Code fences
+ * and prose around the JSON object are tolerated; anything else, including
+ * JSON cut off by the token limit, throws StructuredOutputError listing
+ * what was wrong so the model can be asked to fix it.
+ */
+export function parseStructuredOutput<T extends object>(
+  content: string,
+  schema: LlmOutputSchema<T>,
+): T {
+  const json = extractJsonObject(content);
+  if (json === undefined) {
+    throw new StructuredOutputError(`Invalid ${schema.name} output`, [
+      'the answer does not contain a JSON object',
+    ]);
+  }
+
+  let plain: unknown;
+  try {
+    plain = JSON.parse(json);
+  } catch (error) {
+    throw new StructuredOutputError(`Invalid ${schema.name} output`, [
+      `the JSON does not parse (${(error as Error).message})`,
+    ]);
+  }
+  if (typeof plain !== 'object' || plain === null || Array.isArray(plain)) {
+    throw new StructuredOutputError(`Invalid ${schema.name} output`, [
+      'the answer must be a JSON object',
+    ]);
+  }
+
+  const output = plainToInstance(schema.type, plain);
+  const errors = validateSync(output, { whitelist: true });
+  if (errors.length > 0) {
+    throw new StructuredOutputError(
+      `Invalid ${schema.name} output`,
+      errors.flatMap((error) => describe(error)),
+    );
+  }
+  return output;
+}
+
+function extractJsonObject(content: string): string | undefined {
+  const cleaned = content
+    .trim()
+    .replace(/^```(?:json)?\s*/, '')
+    .replace(/\s*```$/, '');
+  const start = cleaned.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+  const end = cleaned.lastIndexOf('}');
+  // Without a closing brace the answer was most likely truncated; hand the
+  // remainder to JSON.parse so the violation says where it stopped.
+  return end > start ? cleaned.slice(start, end + 1) : cleaned.slice(start);
+}
+
+function describe(error: ValidationError, path = ''): string[] {
+  const property = path ? `${path}.${error.property}` : error.property;
+  const own = Object.values(error.constraints ?? {});
+  const nested = (error.children ?? []).flatMap((child) =>
+    describe(child, property),
+  );
+  return [...own, ...nested];
+}
@@ -0,0 +1,24 @@
+import { countMessageTokens, countTokens, encodingForModel } from './tokenizer';
+
+describe('tokenizer', () => {
+  it('picks the encoding of the model', () => {
+    expect(encodingForModel('gpt-5-mini')).toBe('o200k_base');
+    expect(encodingForModel('gpt-4o-mini-2024-07-18')).toBe('o200k_base');
+    expect(encodingForModel('gpt-4-turbo')).toBe('cl100k_base');
+    expect(encodingForModel('my-azure-deployment')).toBe('o200k_base');
+  });
+
+  it('counts tokens with the model tokenizer', () => {
+    expect(countTokens('hello world', 'gpt-4o-mini')).toBe(2);
+    expect(countTokens('', 'gpt-4o-mini')).toBe(0);
+  });
+
+  it('adds the chat formatting overhead per message', () => {
+    expect(
+      countMessageTokens(
+        [{ role: 'user', content: 'hello world' }],
+        'gpt-4o-mini',
+      ),
+    ).toBe(3 + 2 + 3);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  getEncodingNameForModel,
+  Tiktoken,
+  TiktokenBPE,
+  TiktokenModel,
+} from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import { LlmMessage } from './llm.provider';
+
+type SupportedEncoding = 'o200k_base' | 'cl100k_base';
+
+const RANKS: Record<SupportedEncoding, TiktokenBPE> = {
+  o200k_base: o200kBase,
+  cl100k_base: cl100kBase,
+};
+
+// Chat formatting overhead per message and for priming the reply, as
+// documented for the gpt-4 and gpt-4o families.
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// Building an encoder takes about a second, so each is built on first use.
+const encoders = new Map<SupportedEncoding, Tiktoken>();
+
+/**
+ * Encoding a model uses. Models the tokenizer library does not know (Azure
+ * deployment names, local models) are counted with o200k_base, the encoding
+ * of every current OpenAI chat model; for other vendors' models the count is
+ * an approximation.
+ */
+export function encodingForModel(model: string): SupportedEncoding {
+  try {
+    const name = getEncodingNameForModel(model as TiktokenModel);
+    return name === 'o200k_base' ? 'o200k_base' : 'cl100k_base';
+  } catch {
+    return 'o200k_base';
+  }
+}
+
+export function countTokens(text: string, model: string): number {
+  const encoding = encodingForModel(model);
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder.encode(text).length;
+}
+
+/** Prompt tokens a chat completion request will be billed for. */
+export function countMessageTokens(
+  messages: LlmMessage[],
+  model: string,
+): number {
+  return (
+    messages.reduce(
+      (sum, message) =>
+        sum + TOKENS_PER_MESSAGE + countTokens(message.content, model),
+      0,
+    ) + TOKENS_PER_REPLY
+  );
+}
@@ -0,0 +1,16 @@
+import { Logger } from '@nestjs/common';
+import { SavedSearchNotification } from '../interfaces/saved-search.interface';
+import { NotificationSink } from './notification-sink';
+
+export class LogNotificationSink extends NotificationSink {
+  readonly name = 'log';
+  private readonly logger = new Logger('SavedSearchNotifications');
+
+  deliver(notification: SavedSearchNotification): Promise<void> {
+    const ids = notification.matches.map((match) => match.transcriptId);
+    this.logger.log(
+      `"${notification.name}" matched ${ids.length} new transcript(s): ${ids.join(', ')}`,
+    );
+    return Promise.resolve();
+  }
+}
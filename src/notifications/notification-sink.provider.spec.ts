@@ -0,0 +1,28 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { notificationSinkProvider } from './notification-sink.provider';
+import { NotificationSink } from './notification-sink';
+
+function createSink(env: Record<string, string>): NotificationSink {
+  const { useFactory } =
+    notificationSinkProvider as FactoryProvider<NotificationSink>;
+  return useFactory(new ConfigService(env)) as NotificationSink;
+}
+
+describe('notificationSinkProvider', () => {
+  it('logs notifications by default', () => {
+    expect(createSink({}).name).toBe('log');
+  });
+
+  it('requires a URL for the webhook sink', () => {
+    expect(() => createSink({ NOTIFICATION_SINK: 'webhook' })).toThrow(
+      'NOTIFICATION_WEBHOOK_URL is required when NOTIFICATION_SINK=webhook',
+    );
+  });
+
+  it('rejects unknown sinks instead of falling back to the log', () => {
+    expect(() => createSink({ NOTIFICATION_SINK: 'webhok' })).toThrow(
+      'Unknown NOTIFICATION_SINK "webhok"; expected one of log, webhook, outbox',
+    );
+  });
+});
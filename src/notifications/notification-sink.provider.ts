@@ -0,0 +1,48 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { NotificationSink } from './notification-sink';
+import { LogNotificationSink } from './log-notification.sink';
+import { WebhookNotificationSink } from './webhook-notification.sink';
+import { OutboxNotificationSink } from './outbox-notification.sink';
+
+const NOTIFICATION_SINKS = ['log', 'webhook', 'outbox'];
+
+export const notificationSinkProvider: Provider = {
+  provide: NotificationSink,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): NotificationSink => {
+    const sink = configService.get<string>('NOTIFICATION_SINK', 'log');
+    if (!NOTIFICATION_SINKS.includes(sink)) {
+      throw new Error(
+        `Unknown NOTIFICATION_SINK "${sink}"; expected one of ${NOTIFICATION_SINKS.join(', ')}`,
+      );
+    }
+
+    if (sink === 'webhook') {
+      const url = configService.get<string>('NOTIFICATION_WEBHOOK_URL');
+      if (!url) {
+        throw new Error(
+          'NOTIFICATION_WEBHOOK_URL is required when NOTIFICATION_SINK=webhook',
+        );
+      }
+      return new WebhookNotificationSink(
+        url,
+        Number(
+          configService.get<number>('NOTIFICATION_WEBHOOK_TIMEOUT_MS', 10000),
+        ),
+      );
+    }
+
+    if (sink === 'outbox') {
+      return new OutboxNotificationSink(
+        configService.get<string>(
+          'NOTIFICATION_OUTBOX_PATH',
+          join(process.cwd(), 'data', 'outbox.jsonl'),
+        ),
+      );
+    }
+
+    return new LogNotificationSink();
+  },
+};
@@ -0,0 +1,12 @@
+import { SavedSearchNotification } from '../interfaces/saved-search.interface';
+
+/**
+ * Where saved-search matches are delivered. Also the injection token;
+ * NOTIFICATION_SINK picks the implementation. `deliver` rejects when the
+ * notification did not get through, so the matches are offered again on
+ * the next run.
+ */
+export abstract class NotificationSink {
+  abstract readonly name: string;
+  abstract deliver(notification: SavedSearchNotification): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { SavedSearchNotification } from '../interfaces/saved-search.interface';
+import { NotificationSink } from './notification-sink';
+
+/**
+ * Appends one JSON line per notification to a local file, for setups
+ * where another process picks up and forwards the matches.
+ */
+export class OutboxNotificationSink extends NotificationSink {
+  readonly name = 'outbox';
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async deliver(notification: SavedSearchNotification): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      `${JSON.stringify(notification)}\n`,
+      'utf-8',
+    );
+  }
+}
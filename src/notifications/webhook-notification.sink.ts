@@ -0,0 +1,29 @@
+import { SavedSearchNotification } from '../interfaces/saved-search.interface';
+import { NotificationSink } from './notification-sink';
+
+/** POSTs each notification as JSON; any non-2xx answer counts as failed. */
+export class WebhookNotificationSink extends NotificationSink {
+  readonly name = 'webhook';
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs = 10000,
+  ) {
+    super();
+  }
+
+  async deliver(notification: SavedSearchNotification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Webhook answered ${response.status} ${response.statusText}`,
+      );
+    }
+  }
+}
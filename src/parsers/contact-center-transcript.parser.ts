@@ -0,0 +1,123 @@
+import { TranscriptMessage } from '../interfaces/transcript.interface';
+import { ParsedContent, TranscriptParser } from './transcript-parser.interface';
+import { SpeakerRoleMapper } from './speaker-role.mapper';
+import {
+  findSkipReason,
+  formatTimestamp,
+  parseTimestamp,
+  tryParseJson,
+} from './transcript-parser.utils';
+
+interface ContactCenterSegment {
+  start?: number | string;
+  offset?: number | string;
+  text?: string;
+  transcript?: string;
+}
+
+interface ContactCenterChannel {
+  role?: string;
+  participant?: string;
+  segments?: ContactCenterSegment[];
+  utterances?: ContactCenterSegment[];
+}
+
+interface ContactCenterEvent {
+  offset?: number | string;
+  start?: number | string;
+  description?: string;
+  type?: string;
+}
+
+interface ContactCenterExport {
+  channels?: ContactCenterChannel[];
+  events?: ContactCenterEvent[];
+}
+
+/**
+ * Parses contact-center exports where each audio channel (agent, customer)
+ * carries its own list of timed segments. Segments from every channel are
+ * merged by start offset, and call events become system messages.
+ */
+export class ContactCenterTranscriptParser implements TranscriptParser {
+  readonly format = 'contact-center';
+  readonly extensions = ['.json'];
+
+  constructor(private readonly speakers: SpeakerRoleMapper) {}
+
+  canParse(content: string): boolean {
+    const data = tryParseJson(content) as ContactCenterExport | undefined;
+    return (
+      !!data &&
+      typeof data === 'object' &&
+      Array.isArray(data.channels) &&
+      data.channels.length > 0
+    );
+  }
+
+  /** Skipped segments are reported with their 1-based position per channel. */
+  parse(content: string): ParsedContent {
+    const data = tryParseJson(content) as ContactCenterExport | undefined;
+    if (!data || !Array.isArray(data.channels)) {
+      throw new Error('Invalid contact-center export: missing channels');
+    }
+
+    const timed: Array<{ seconds: number; message: TranscriptMessage }> = [];
+    const skippedLines: ParsedContent['skippedLines'] = [];
+
+    for (const channel of data.channels) {
+      const label = channel.role ?? channel.participant;
+      const speaker = this.speakers.resolve(label);
+      const segments = channel.segments ?? channel.utterances ?? [];
+
+      segments.forEach((segment, index) => {
+        const seconds = parseTimestamp(segment.start ?? segment.offset ?? '');
+        const text = (segment.text ?? segment.transcript ?? '').trim();
+        if (seconds === null || !speaker || !text) {
+          skippedLines.push({
+            lineNumber: index + 1,
+            content: `[${label ?? 'unknown'}] ${text}`,
+            reason: findSkipReason(
+              seconds === null ? null : formatTimestamp(seconds),
+              speaker,
+              text,
+            ),
+          });
+          return;
+        }
+
+        timed.push({
+          seconds,
+          message: {
+            timestamp: formatTimestamp(seconds),
+            ...speaker,
+            content: text,
+          },
+        });
+      });
+    }
+
+    for (const event of data.events ?? []) {
+      const seconds = parseTimestamp(event.offset ?? event.start ?? '');
+      const text = (event.description ?? event.type ?? '').trim();
+      if (seconds === null || !text) continue;
+
+      timed.push({
+        seconds,
+        message: {
+          timestamp: formatTimestamp(seconds),
+          speaker: 'SYSTEM',
+          speakerLabel: 'SYSTEM',
+          content: `[${text}]`,
+        },
+      });
+    }
+
+    return {
+      messages: timed
+        .sort((a, b) => a.seconds - b.seconds)
+        .map(({ message }) => message),
+      skippedLines,
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { ParsedContent, TranscriptParser } from './transcript-parser.interface';
+import { SpeakerRoleMapper } from './speaker-role.mapper';
+import { findSkipReason, normalizeTimestamp } from './transcript-parser.utils';
+
+const HEADER_PATTERN =
+  /^\s*"?timestamp"?\s*,\s*"?speaker"?\s*,\s*"?text"?\s*$/i;
+
+/**
+ * Parses `timestamp,speaker,text` rows. The header row is optional and
+ * fields follow RFC 4180 quoting, so text may contain commas, escaped
+ * quotes and line breaks.
+ */
+export class CsvTranscriptParser implements TranscriptParser {
+  readonly format = 'csv';
+  readonly extensions = ['.csv'];
+
+  constructor(private readonly speakers: SpeakerRoleMapper) {}
+
+  canParse(content: string): boolean {
+    const [firstRow] = this.parseRows(content);
+    if (!firstRow) return false;
+
+    return (
+      HEADER_PATTERN.test(firstRow.join(',')) ||
+      (firstRow.length >= 3 &&
+        normalizeTimestamp(firstRow[0]) !== null &&
+        this.speakers.resolve(firstRow[1]) !== null)
+    );
+  }
+
+  /** Skipped rows are reported with their 1-based row number. */
+  parse(content: string): ParsedContent {
+    const result: ParsedContent = { messages: [], skippedLines: [] };
+    const rows = this.parseRows(content);
+    const hasHeader = rows.length > 0 && HEADER_PATTERN.test(rows[0].join(','));
+
+    rows.forEach((row, index) => {
+      if (index === 0 && hasHeader) return;
+
+      const lineNumber = index + 1;
+      if (row.length < 3) {
+        result.skippedLines.push({
+          lineNumber,
+          content: row.join(','),
+          reason: 'malformed_record',
+        });
+        return;
+      }
+
+      const [rawTimestamp, label, ...textParts] = row;
+      const timestamp = normalizeTimestamp(rawTimestamp);
+      const speaker = this.speakers.resolve(label);
+      const text = textParts.join(',').trim();
+
+      if (!timestamp || !speaker || !text) {
+        result.skippedLines.push({
+          lineNumber,
+          content: row.join(','),
+          reason: findSkipReason(timestamp, speaker, text),
+        });
+        return;
+      }
+
+      result.messages.push({ timestamp, ...speaker, content: text });
+    });
+
+    return result;
+  }
+
+  private parseRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        if (row.some((value) => value.trim())) rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    row.push(field);
+    if (row.some((value) => value.trim())) rows.push(row);
+
+    return rows;
+  }
+}
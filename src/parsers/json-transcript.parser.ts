@@ -0,0 +1,100 @@
+import { ParsedContent, TranscriptParser } from './transcript-parser.interface';
+import { SpeakerRoleMapper } from './speaker-role.mapper';
+import {
+  findSkipReason,
+  normalizeTimestamp,
+  tryParseJson,
+} from './transcript-parser.utils';
+
+interface JsonTurn {
+  timestamp?: string | number;
+  time?: string | number;
+  start?: string | number;
+  speaker?: string;
+  role?: string;
+  text?: string;
+  content?: string;
+}
+
+/**
+ * Parses turn arrays such as
+ * `[{ "timestamp": "00:00:05", "speaker": "AGENTE", "text": "..." }]`,
+ * optionally wrapped in `{ "messages": [...] }` or `{ "turns": [...] }`.
+ */
+export class JsonTranscriptParser implements TranscriptParser {
+  readonly format = 'json';
+  readonly extensions = ['.json'];
+
+  constructor(private readonly speakers: SpeakerRoleMapper) {}
+
+  canParse(content: string): boolean {
+    const turns = this.extractTurns(tryParseJson(content));
+    return (
+      turns !== null &&
+      turns.length > 0 &&
+      turns.every((turn) => this.isTurn(turn))
+    );
+  }
+
+  /** Skipped turns are reported with their 1-based position in the array. */
+  parse(content: string): ParsedContent {
+    const turns = this.extractTurns(tryParseJson(content));
+    if (!turns) {
+      throw new Error('Invalid JSON transcript: expected an array of turns');
+    }
+
+    const result: ParsedContent = { messages: [], skippedLines: [] };
+
+    turns.forEach((turn, index) => {
+      if (!this.isTurn(turn)) {
+        result.skippedLines.push({
+          lineNumber: index + 1,
+          content: JSON.stringify(turn),
+          reason: 'malformed_record',
+        });
+        return;
+      }
+
+      const speaker = this.speakers.resolve(turn.speaker ?? turn.role);
+      const timestamp = normalizeTimestamp(
+        turn.timestamp ?? turn.time ?? turn.start ?? '',
+      );
+      const text = (turn.text ?? turn.content ?? '').trim();
+
+      if (!timestamp || !speaker || !text) {
+        result.skippedLines.push({
+          lineNumber: index + 1,
+          content: JSON.stringify(turn),
+          reason: findSkipReason(timestamp, speaker, text),
+        });
+        return;
+      }
+
+      result.messages.push({ timestamp, ...speaker, content: text });
+    });
+
+    return result;
+  }
+
+  private extractTurns(data: unknown): unknown[] | null {
+    if (Array.isArray(data)) return data as unknown[];
+
+    if (data && typeof data === 'object') {
+      const wrapper = data as { messages?: unknown; turns?: unknown };
+      const turns = wrapper.messages ?? wrapper.turns;
+      if (Array.isArray(turns)) return turns as unknown[];
+    }
+
+    return null;
+  }
+
+  private isTurn(value: unknown): value is JsonTurn {
+    if (!value || typeof value !== 'object') return false;
+
+    const turn = value as JsonTurn;
+    return (
+      typeof (turn.speaker ?? turn.role) === 'string' &&
+      typeof (turn.text ?? turn.content) === 'string'
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SpeakerRole } from '../interfaces/transcript.interface';
+
+export type SpeakerAliases = Record<
+  string,
+  Partial<Record<SpeakerRole, string[]>>
+>;
+
+export const DEFAULT_SPEAKER_ALIASES: SpeakerAliases = {
+  es: {
+    AGENT: [
+      'AGENTE',
+      'EJECUTIVO',
+      'EJECUTIVA',
+      'OPERADOR',
+      'OPERADORA',
+      'ASESOR',
+      'ASESORA',
+    ],
+    CLIENT: ['CLIENTE', 'USUARIO', 'USUARIA'],
+    SYSTEM: ['SISTEMA'],
+    SUPERVISOR: ['SUPERVISOR', 'SUPERVISORA'],
+  },
+  en: {
+    AGENT: ['AGENT', 'REPRESENTATIVE', 'REP', 'OPERATOR'],
+    CLIENT: ['CLIENT', 'CUSTOMER', 'CALLER', 'USER'],
+    SYSTEM: ['SYSTEM', 'IVR'],
+    SUPERVISOR: ['SUPERVISOR', 'MANAGER'],
+  },
+  pt: {
+    AGENT: ['ATENDENTE', 'AGENTE'],
+    CLIENT: ['CLIENTE'],
+    SYSTEM: ['SISTEMA'],
+    SUPERVISOR: ['SUPERVISOR', 'SUPERVISORA'],
+  },
+};
+
+// Distinguishes several people with the same role in one call, e.g.
+// "AGENTE 2", "AGENTE_2", "AGENTE-B" or "AGENTE (Pedro)" after a transfer.
+const LABEL_SUFFIX_PATTERN = /(?:[\s_-]+(?:\d+|[A-Z])|\s*\([^)]*\))$/;
+
+@Injectable()
+export class SpeakerRoleMapper {
+  private readonly logger = new Logger(SpeakerRoleMapper.name);
+  private readonly aliases = new Map<string, SpeakerRole>();
+
+  constructor(private configService: ConfigService) {
+    const languages = this.configService
+      .get<string>('SPEAKER_LANGUAGES', 'es,en')
+      .split(',')
+      .map((language) => language.trim().toLowerCase())
+      .filter(Boolean);
+
+    const configured = this.parseConfiguredAliases(
+      this.configService.get<string>('SPEAKER_ROLE_ALIASES'),
+    );
+
+    for (const language of languages) {
+      this.addAliases(DEFAULT_SPEAKER_ALIASES[language]);
+      this.addAliases(configured[language]);
+    }
+  }
+
+  /**
+   * Maps a raw speaker label to its normalized role. Returns null when the
+   * label is not a known alias in any configured language.
+   */
+  resolve(
+    label: string | undefined,
+  ): { speaker: SpeakerRole; speakerLabel: string } | null {
+    if (!label) return null;
+
+    const speakerLabel = label.trim();
+    let key = this.normalizeLabel(speakerLabel);
+    let speaker = this.aliases.get(key);
+
+    while (!speaker && LABEL_SUFFIX_PATTERN.test(key)) {
+      key = key.replace(LABEL_SUFFIX_PATTERN, '').trim();
+      speaker = this.aliases.get(key);
+    }
+
+    return speaker ? { speaker, speakerLabel } : null;
+  }
+
+  private addAliases(
+    roles: Partial<Record<SpeakerRole, string[]>> | undefined,
+  ): void {
+    if (!roles) return;
+
+    for (const [role, labels] of Object.entries(roles)) {
+      for (const label of labels ?? []) {
+        this.aliases.set(this.normalizeLabel(label), role as SpeakerRole);
+      }
+    }
+  }
+
+  private parseConfiguredAliases(raw: string | undefined): SpeakerAliases {
+    if (!raw) return {};
+
+    try {
+      return JSON.parse(raw) as SpeakerAliases;
+    } catch (error) {
+      this.logger.warn(
+        `Ignoring invalid SPEAKER_ROLE_ALIASES: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return {};
+    }
+  }
+
+  private normalizeLabel(label: string): string {
+    return label
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+      .toUpperCase();
+  }
+}
@@ -0,0 +1,107 @@
+import { TranscriptMessage } from '../interfaces/transcript.interface';
+import { ParsedContent, TranscriptParser } from './transcript-parser.interface';
+import { SpeakerRoleMapper } from './speaker-role.mapper';
+import { normalizeTimestamp } from './transcript-parser.utils';
+
+const CUE_TIMING_PATTERN = /^\s*([\d:.,]+)\s+-->\s+([\d:.,]+)/;
+const VOICE_TAG_PATTERN = /^<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+const SPEAKER_PREFIX_PATTERN = /^(\p{L}[\p{L}\d _().-]{0,40}?):\s*(.+)$/su;
+
+/**
+ * Parses WebVTT and SRT subtitle files. The speaker is taken from a WebVTT
+ * voice tag (`<v AGENTE>`) or from a `SPEAKER:` prefix in the cue text, and
+ * the cue start time becomes the message timestamp.
+ */
+export class SubtitleTranscriptParser implements TranscriptParser {
+  readonly format = 'subtitle';
+  readonly extensions = ['.vtt', '.srt'];
+
+  constructor(private readonly speakers: SpeakerRoleMapper) {}
+
+  canParse(content: string): boolean {
+    return (
+      content.trimStart().startsWith('WEBVTT') ||
+      content.split(/\r?\n/).some((line) => CUE_TIMING_PATTERN.test(line))
+    );
+  }
+
+  /** Skipped cues are reported with the line number of their timing line. */
+  parse(content: string): ParsedContent {
+    const result: ParsedContent = { messages: [], skippedLines: [] };
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const blocks: Array<{ start: number; lines: string[] }> = [];
+    let current: { start: number; lines: string[] } | null = null;
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        current = null;
+        return;
+      }
+      if (!current) {
+        current = { start: index, lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line);
+    });
+
+    for (const block of blocks) {
+      const { lines } = block;
+      const timingIndex = lines.findIndex((line) =>
+        CUE_TIMING_PATTERN.test(line),
+      );
+      if (timingIndex === -1) continue;
+
+      const lineNumber = block.start + timingIndex + 1;
+      const [, start] = lines[timingIndex].match(CUE_TIMING_PATTERN)!;
+      const timestamp = normalizeTimestamp(start);
+      const cueText = lines
+        .slice(timingIndex + 1)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join(' ');
+
+      const cue = this.splitSpeaker(cueText);
+      if (!timestamp || !cue) {
+        result.skippedLines.push({
+          lineNumber,
+          content: cueText,
+          reason: !timestamp
+            ? 'invalid_timestamp'
+            : cueText
+              ? 'unknown_speaker'
+              : 'empty_content',
+        });
+        continue;
+      }
+
+      result.messages.push({ timestamp, ...cue });
+    }
+
+    return result;
+  }
+
+  private splitSpeaker(
+    text: string,
+  ): Pick<TranscriptMessage, 'speaker' | 'speakerLabel' | 'content'> | null {
+    const voice = text.match(VOICE_TAG_PATTERN);
+    if (voice) {
+      const speaker = this.speakers.resolve(voice[1]);
+      const content = this.stripTags(text.slice(voice[0].length));
+      return speaker && content ? { ...speaker, content } : null;
+    }
+
+    const plain = this.stripTags(text);
+    const prefixed = plain.match(SPEAKER_PREFIX_PATTERN);
+    if (prefixed) {
+      const speaker = this.speakers.resolve(prefixed[1]);
+      const content = prefixed[2].trim();
+      return speaker && content ? { ...speaker, content } : null;
+    }
+
+    return null;
+  }
+
+  private stripTags(text: string): string {
+    return text.replace(/<[^>]+>/g, '').trim();
+  }
+}
@@ -0,0 +1,73 @@
+import { SkipReason } from '../interfaces/transcript.interface';
+import { ParsedContent, TranscriptParser } from './transcript-parser.interface';
+import { SpeakerRoleMapper } from './speaker-role.mapper';
+
+// Leading bracket groups are tolerated so that lines such as
+// "[00:05:30] [FIN DE LA LLAMADA][00:00:00] AGENTE: ..." still parse.
+const LINE_PATTERN =
+  /^\s*(?:\[[^\]]*\]\s*)*?\[([^\]]+)\]\s+(\p{L}[\p{L}\d _().-]{0,40}?):\s*(.+)/u;
+const TIMESTAMP_ONLY_PATTERN = /^\s*\[[^\]]+\]/;
+
+export class TextTranscriptParser implements TranscriptParser {
+  readonly format = 'text';
+  readonly extensions = ['.txt'];
+
+  constructor(private readonly speakers: SpeakerRoleMapper) {}
+
+  canParse(content: string): boolean {
+    return content.split('\n').some((line) => LINE_PATTERN.test(line));
+  }
+
+  parse(content: string): ParsedContent {
+    const result: ParsedContent = { messages: [], skippedLines: [] };
+    const lines = content.split('\n');
+
+    lines.forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (!line) return;
+
+      const lineNumber = index + 1;
+      const match = line.match(LINE_PATTERN);
+
+      if (match) {
+        const [, timestamp, label, text] = match;
+        const speaker = this.speakers.resolve(label);
+        if (speaker) {
+          result.messages.push({
+            timestamp,
+            ...speaker,
+            content: text.trim(),
+          });
+        } else {
+          this.skip(result, lineNumber, line, 'unknown_speaker');
+        }
+        return;
+      }
+
+      if (TIMESTAMP_ONLY_PATTERN.test(line)) {
+        this.skip(result, lineNumber, line, 'missing_speaker');
+        return;
+      }
+
+      // Lines without a timestamp continue the previous turn, e.g. the
+      // bullet lists agents dictate when summarizing an offer.
+      const previous = result.messages[result.messages.length - 1];
+      if (previous) {
+        previous.content = `${previous.content}\n${line}`;
+      } else {
+        this.skip(result, lineNumber, line, 'orphan_continuation');
+      }
+    });
+
+    return result;
+  }
+
+  private skip(
+    result: ParsedContent,
+    lineNumber: number,
+    content: string,
+    reason: SkipReason,
+  ): void {
+    result.skippedLines.push({ lineNumber, content, reason });
+  }
+}
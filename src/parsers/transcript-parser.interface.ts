@@ -0,0 +1,19 @@
+import {
+  SkippedLine,
+  TranscriptMessage,
+} from '../interfaces/transcript.interface';
+
+export interface ParsedContent {
+  messages: TranscriptMessage[];
+  skippedLines: SkippedLine[];
+}
+
+export interface TranscriptParser {
+  /** Short identifier stored on the parsed transcript (e.g. `text`, `csv`). */
+  readonly format: string;
+  /** Lower-case file extensions, including the dot, handled by this parser. */
+  readonly extensions: string[];
+  /** Content sniffing used when the extension is ambiguous or unknown. */
+  canParse(content: string): boolean;
+  parse(content: string): ParsedContent;
+}
@@ -0,0 +1,170 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { TranscriptParserRegistry } from './transcript-parser.registry';
+import { SpeakerRoleMapper } from './speaker-role.mapper';
+
+const fixturesPath = join(__dirname, '../../test/fixtures/transcripts');
+
+function readFixture(fileName: string): string {
+  return readFileSync(join(fixturesPath, fileName), 'utf-8');
+}
+
+describe('TranscriptParserRegistry', () => {
+  let registry: TranscriptParserRegistry;
+
+  beforeEach(() => {
+    registry = new TranscriptParserRegistry(
+      new SpeakerRoleMapper(new ConfigService()),
+    );
+  });
+
+  it('parses the line-based text format', () => {
+    const content = readFileSync(
+      join(__dirname, '../../sample/sample_01.txt'),
+      'utf-8',
+    );
+
+    const { format, messages } = registry.parse('sample_01.txt', content);
+
+    expect(format).toBe('text');
+    expect(messages).toHaveLength(27);
+    expect(messages[1]).toEqual({
+      timestamp: '00:00:05',
+      speaker: 'CLIENT',
+      speakerLabel: 'CLIENTE',
+      content: 'Hola, buen día. Soy Mariana López.',
+    });
+  });
+
+  it('keeps supervisors and distinct agents after a transfer', () => {
+    const content = [
+      '[00:00:00] AGENTE: Le atiende Carlos.',
+      '[00:00:05] CLIENTE: Quiero hablar con un supervisor.',
+      '[00:00:09] SUPERVISOR: Buenas tardes, soy Laura.',
+      '[00:01:00] AGENTE 2: Le atiende Pedro, del área técnica.',
+    ].join('\n');
+
+    const { messages } = registry.parse('transfer.txt', content);
+
+    expect(messages.map((m) => [m.speaker, m.speakerLabel])).toEqual([
+      ['AGENT', 'AGENTE'],
+      ['CLIENT', 'CLIENTE'],
+      ['SUPERVISOR', 'SUPERVISOR'],
+      ['AGENT', 'AGENTE 2'],
+    ]);
+  });
+
+  it('merges continuation lines and reports skipped lines', () => {
+    const content = [
+      '[00:00:00] AGENTE: Su nuevo plan incluye:',
+      '- Fibra óptica de 600 Mbps',
+      '- Dos líneas móviles',
+      '[00:00:20] *** TRANSFERENCIA EN CURSO ***',
+      '[00:00:25] OPERADOR_IVR: Marque 1 para continuar',
+      '[00:00:30] CLIENTE: Perfecto.',
+    ].join('\n');
+
+    const { messages, skippedLines } = registry.parse('plan.txt', content);
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).toBe(
+      'Su nuevo plan incluye:\n- Fibra óptica de 600 Mbps\n- Dos líneas móviles',
+    );
+    expect(skippedLines).toEqual([
+      {
+        lineNumber: 4,
+        content: '[00:00:20] *** TRANSFERENCIA EN CURSO ***',
+        reason: 'missing_speaker',
+      },
+      {
+        lineNumber: 5,
+        content: '[00:00:25] OPERADOR_IVR: Marque 1 para continuar',
+        reason: 'unknown_speaker',
+      },
+    ]);
+  });
+
+  it('parses JSON turn arrays', () => {
+    const { format, messages } = registry.parse(
+      'turns.json',
+      readFixture('turns.json'),
+    );
+
+    expect(format).toBe('json');
+    expect(messages).toHaveLength(4);
+    expect(messages[3]).toEqual({
+      timestamp: '00:01:02',
+      speaker: 'SYSTEM',
+      speakerLabel: 'SISTEMA',
+      content: '[Llamada finalizada]',
+    });
+  });
+
+  it('parses CSV rows with quoted fields', () => {
+    const { format, messages } = registry.parse(
+      'turns.csv',
+      readFixture('turns.csv'),
+    );
+
+    expect(format).toBe('csv');
+    expect(messages).toHaveLength(4);
+    expect(messages[1].content).toBe(
+      'Quiero consultar un cobro de "roaming" en mi boleta.',
+    );
+  });
+
+  it('parses WebVTT cues with voice tags and speaker prefixes', () => {
+    const { format, messages } = registry.parse(
+      'call.vtt',
+      readFixture('call.vtt'),
+    );
+
+    expect(format).toBe('subtitle');
+    expect(messages.map((m) => m.speaker)).toEqual([
+      'AGENT',
+      'CLIENT',
+      'AGENT',
+    ]);
+    expect(messages[1]).toEqual({
+      timestamp: '00:00:04',
+      speaker: 'CLIENT',
+      speakerLabel: 'CLIENTE',
+      content: 'Necesito activar el plan de datos internacional para un viaje.',
+    });
+  });
+
+  it('parses SRT cues', () => {
+    const { messages } = registry.parse('call.srt', readFixture('call.srt'));
+
+    expect(messages).toHaveLength(3);
+    expect(messages[2].timestamp).toBe('00:00:08');
+  });
+
+  it('merges contact-center channels by start offset', () => {
+    const { format, messages } = registry.parse(
+      'contact-center.json',
+      readFixture('contact-center.json'),
+    );
+
+    expect(format).toBe('contact-center');
+    expect(messages.map((m) => [m.timestamp, m.speaker])).toEqual([
+      ['00:00:00', 'AGENT'],
+      ['00:00:03', 'CLIENT'],
+      ['00:00:09', 'AGENT'],
+      ['00:01:02', 'SYSTEM'],
+    ]);
+  });
+
+  it('sniffs the format when the extension is unknown', () => {
+    const parser = registry.resolve('export.dat', readFixture('turns.csv'));
+
+    expect(parser?.format).toBe('csv');
+  });
+
+  it('rejects files no parser understands', () => {
+    expect(() => registry.parse('notes.dat', 'just some notes')).toThrow(
+      'No parser available for notes.dat',
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { extname } from 'path';
+import { ParsedContent, TranscriptParser } from './transcript-parser.interface';
+import { TextTranscriptParser } from './text-transcript.parser';
+import { ContactCenterTranscriptParser } from './contact-center-transcript.parser';
+import { JsonTranscriptParser } from './json-transcript.parser';
+import { CsvTranscriptParser } from './csv-transcript.parser';
+import { SubtitleTranscriptParser } from './subtitle-transcript.parser';
+import { SpeakerRoleMapper } from './speaker-role.mapper';
+
+@Injectable()
+export class TranscriptParserRegistry {
+  private readonly parsers: TranscriptParser[] = [];
+
+  constructor(speakers: SpeakerRoleMapper) {
+    // Order matters for sniffing: the contact-center export is also valid
+    // JSON, so it is tried before the generic turn-array parser.
+    this.register(new TextTranscriptParser(speakers));
+    this.register(new ContactCenterTranscriptParser(speakers));
+    this.register(new JsonTranscriptParser(speakers));
+    this.register(new CsvTranscriptParser(speakers));
+    this.register(new SubtitleTranscriptParser(speakers));
+  }
+
+  register(parser: TranscriptParser): void {
+    this.parsers.push(parser);
+  }
+
+  getSupportedExtensions(): string[] {
+    return Array.from(new Set(this.parsers.flatMap((p) => p.extensions)));
+  }
+
+  isSupported(fileName: string): boolean {
+    return this.getSupportedExtensions().includes(
+      extname(fileName).toLowerCase(),
+    );
+  }
+
+  resolve(fileName: string, content: string): TranscriptParser | undefined {
+    const extension = extname(fileName).toLowerCase();
+    const byExtension = this.parsers.filter((p) =>
+      p.extensions.includes(extension),
+    );
+
+    if (byExtension.length === 1) {
+      return byExtension[0];
+    }
+
+    const candidates = byExtension.length > 0 ? byExtension : this.parsers;
+    return candidates.find((parser) => parser.canParse(content));
+  }
+
+  parse(fileName: string, content: string): ParsedContent & { format: string } {
+    const parser = this.resolve(fileName, content);
+    if (!parser) {
+      throw new Error(`No parser available for ${fileName}`);
+    }
+
+    return { format: parser.format, ...parser.parse(content) };
+  }
+}
@@ -0,0 +1,61 @@
+import { SkipReason } from '../interfaces/transcript.interface';
+
+/**
+ * Accepts `hh:mm:ss`, `mm:ss`, subtitle cue times (`00:01:02.500`,
+ * `00:01:02,500`) or plain seconds and returns the offset in seconds.
+ */
+export function parseTimestamp(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  const trimmed = value.trim().replace(',', '.');
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  const parts = trimmed.split(':');
+  if (parts.length < 2 || parts.length > 3) return null;
+  if (!parts.every((part) => /^\d+(\.\d+)?$/.test(part))) return null;
+
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+
+  return [hours, minutes, rest]
+    .map((unit) => unit.toString().padStart(2, '0'))
+    .join(':');
+}
+
+export function normalizeTimestamp(value: string | number): string | null {
+  const seconds = parseTimestamp(value);
+  return seconds === null ? null : formatTimestamp(seconds);
+}
+
+/**
+ * Picks the reason a structured record (JSON turn, CSV row, channel
+ * segment) could not become a message.
+ */
+export function findSkipReason(
+  timestamp: string | null,
+  speaker: unknown,
+  text: string,
+): SkipReason {
+  if (!timestamp) return 'invalid_timestamp';
+  if (!speaker) return 'unknown_speaker';
+  if (!text) return 'empty_content';
+  return 'malformed_record';
+}
+
+export function tryParseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,314 @@
+import { SupportedLanguage } from '../interfaces/transcript.interface';
+
+/**
+ * Prompts for each output language. The prompt is written in the language
+ * the answer should come back in, and names the transcript language, so
+ * summaries, reasoning and topics stay consistent across the corpus.
+ * Category identifiers and JSON keys are never translated.
+ */
+export interface AnalysisPrompts {
+  classify(transcript: string, source: SupportedLanguage): string;
+  classifyWithTopics(
+    transcript: string,
+    source: SupportedLanguage,
+    includeReasoning: boolean,
+  ): string;
+  summarize(transcript: string, source: SupportedLanguage): string;
+  /** Follow-up asking the model to fix an answer that failed validation. */
+  repair(violations: string[]): string;
+  describeTopic(topic: string): string;
+}
+
+const LANGUAGE_NAMES: Record<
+  SupportedLanguage,
+  Record<SupportedLanguage, string>
+> = {
+  en: { en: 'English', es: 'Spanish', pt: 'Portuguese' },
+  es: { en: 'inglés', es: 'español', pt: 'portugués' },
+  pt: { en: 'inglês', es: 'espanhol', pt: 'português' },
+};
+
+const TOPIC_DESCRIPTIONS: Record<SupportedLanguage, Record<string, string>> = {
+  en: {
+    billing: 'Issues related to billing, charges, and payment inquiries',
+    technical: 'Technical problems with services like internet, TV, or phone',
+    activation: 'Service activation and setup requests',
+    support: 'General customer support and assistance requests',
+    complaint: 'Customer complaints and dissatisfaction issues',
+    commercial: 'Commercial inquiries about plans, promotions, and upgrades',
+    refund: 'Refund requests and credit adjustments',
+    cancellation: 'Service cancellation and termination requests',
+    internet: 'Internet connectivity and speed related issues',
+    plan: 'Plan changes, upgrades, and service modifications',
+    disputed: 'Disputed charges and billing discrepancies',
+    configuration: 'Service configuration and setup assistance',
+    appointment: 'Service appointment scheduling and coordination',
+  },
+  es: {
+    factura: 'Consultas sobre facturación, cobros y pagos',
+    cobro: 'Cobros no reconocidos y diferencias en la facturación',
+    técnic: 'Problemas técnicos con internet, TV o telefonía',
+    activación: 'Solicitudes de activación y puesta en marcha de servicios',
+    reclamo: 'Reclamos e insatisfacción del cliente',
+    plan: 'Cambios de plan, mejoras y modificaciones del servicio',
+    promoci: 'Consultas comerciales sobre planes, promociones y mejoras',
+    reembolso: 'Solicitudes de reembolso y ajustes de crédito',
+    devolución: 'Solicitudes de reembolso y ajustes de crédito',
+    cancelación: 'Solicitudes de cancelación y término del servicio',
+    internet: 'Problemas de conectividad y velocidad de internet',
+    configuración: 'Asistencia con la configuración del servicio',
+    visita: 'Agendamiento y coordinación de visitas técnicas',
+  },
+  pt: {
+    fatura: 'Dúvidas sobre faturamento, cobranças e pagamentos',
+    cobrança: 'Cobranças não reconhecidas e divergências na fatura',
+    técnic: 'Problemas técnicos com internet, TV ou telefone',
+    ativação: 'Pedidos de ativação e configuração de serviços',
+    reclamação: 'Reclamações e insatisfação do cliente',
+    plano: 'Mudanças de plano, upgrades e alterações do serviço',
+    reembolso: 'Pedidos de reembolso e ajustes de crédito',
+    cancelamento: 'Pedidos de cancelamento do serviço',
+    internet: 'Problemas de conectividade e velocidade da internet',
+    configuração: 'Ajuda com a configuração do serviço',
+    visita: 'Agendamento e coordenação de visitas técnicas',
+  },
+};
+
+function describeTopic(language: SupportedLanguage, fallback: string) {
+  return (topic: string): string => {
+    const lowerTopic = topic.toLowerCase();
+    for (const [key, description] of Object.entries(
+      TOPIC_DESCRIPTIONS[language],
+    )) {
+      if (lowerTopic.includes(key)) {
+        return description;
+      }
+    }
+    return `${fallback} ${lowerTopic}`;
+  };
+}
+
+const english: AnalysisPrompts = {
+  classify: (
+    transcript,
+    source,
+  ) => `Analyze this customer service call transcript and classify it into one of these categories:
+- technical_issues: Problems with internet, TV, phone, configurations
+- commercial_support: Queries about plans, promotions, sales
+- administrative_requests: Data changes, activations/deactivations
+- billing_issues: Billing queries, charges, adjustments
+- service_activation: Activation of additional services
+- complaints_claims: Formal complaints, claims, dissatisfaction
+
+The transcript is in ${LANGUAGE_NAMES.en[source]}. Write the reasoning in English.
+
+Summarized transcript:
+${transcript}
+
+Respond in JSON format with:
+{
+  "category": "exact_category",
+  "confidence": number_0_to_1,
+  "reasoning": "brief_explanation"
+}`,
+
+  classifyWithTopics: (
+    transcript,
+    source,
+    includeReasoning,
+  ) => `Analyze this customer service call transcript and perform two tasks:
+
+1. CLASSIFY the conversation into one of these categories:
+   - technical_issues: Technical problems (internet, TV, phone)
+   - commercial_support: Commercial support (plans, promotions)
+   - administrative_requests: Administrative requests
+   - billing_issues: Billing problems
+   - service_activation: Service activation
+   - complaints_claims: Complaints and claims
+
+2. EXTRACT the main topics/themes present in the conversation.
+
+The transcript is in ${LANGUAGE_NAMES.en[source]}. Write ${includeReasoning ? 'the reasoning and ' : ''}the topics in English. Topics are short lowercase noun phrases, e.g. "billing", "internet outage".
+
+Transcript:
+${transcript}
+
+Respond in JSON format:
+{
+  "category": "category_name",
+  "confidence": 0.95,${includeReasoning ? '\n  "reasoning": "brief explanation for classification",' : ''}
+  "topics": ["topic1", "topic2", "topic3"]
+}`,
+
+  summarize: (
+    transcript,
+    source,
+  ) => `Summarize this customer service call in 2-3 sentences highlighting the main problem and resolution. The transcript is in ${LANGUAGE_NAMES.en[source]}; write the summary in English.
+
+${transcript}
+
+Respond in JSON format:
+{
+  "summary": "2-3 sentence summary"
+}`,
+
+  repair: (violations) => `Your previous answer was not valid:
+${violations.map((violation) => `- ${violation}`).join('\n')}
+
+Answer again with only the corrected JSON object, using the same keys and one of the listed categories.`,
+
+  describeTopic: describeTopic('en', 'Customer service topic related to'),
+};
+
+const spanish: AnalysisPrompts = {
+  classify: (
+    transcript,
+    source,
+  ) => `Analiza esta transcripción de una llamada de atención al cliente y clasifícala en una de estas categorías:
+- technical_issues: Problemas con internet, TV, telefonía, configuraciones
+- commercial_support: Consultas sobre planes, promociones, ventas
+- administrative_requests: Cambios de datos, altas y bajas
+- billing_issues: Consultas de facturación, cobros, ajustes
+- service_activation: Activación de servicios adicionales
+- complaints_claims: Reclamos formales, quejas, insatisfacción
+
+La transcripción está en ${LANGUAGE_NAMES.es[source]}. Escribe la justificación en español. Usa el identificador de la categoría tal cual.
+
+Transcripción resumida:
+${transcript}
+
+Responde en formato JSON con:
+{
+  "category": "categoria_exacta",
+  "confidence": numero_0_a_1,
+  "reasoning": "explicacion_breve"
+}`,
+
+  classifyWithTopics: (
+    transcript,
+    source,
+    includeReasoning,
+  ) => `Analiza esta transcripción de una llamada de atención al cliente y realiza dos tareas:
+
+1. CLASIFICA la conversación en una de estas categorías (usa el identificador tal cual):
+   - technical_issues: Problemas técnicos (internet, TV, telefonía)
+   - commercial_support: Soporte comercial (planes, promociones)
+   - administrative_requests: Solicitudes administrativas
+   - billing_issues: Problemas de facturación
+   - service_activation: Activación de servicios
+   - complaints_claims: Reclamos y quejas
+
+2. EXTRAE los temas principales presentes en la conversación.
+
+La transcripción está en ${LANGUAGE_NAMES.es[source]}. Escribe ${includeReasoning ? 'la justificación y ' : ''}los temas en español. Los temas son frases nominales breves en minúsculas, p. ej. "facturación", "corte de internet".
+
+Transcripción:
+${transcript}
+
+Responde en formato JSON:
+{
+  "category": "nombre_categoria",
+  "confidence": 0.95,${includeReasoning ? '\n  "reasoning": "explicación breve de la clasificación",' : ''}
+  "topics": ["tema1", "tema2", "tema3"]
+}`,
+
+  summarize: (
+    transcript,
+    source,
+  ) => `Resume esta llamada de atención al cliente en 2 o 3 oraciones, destacando el problema principal y su resolución. La transcripción está en ${LANGUAGE_NAMES.es[source]}; escribe el resumen en español.
+
+${transcript}
+
+Responde en formato JSON:
+{
+  "summary": "resumen de 2 o 3 oraciones"
+}`,
+
+  repair: (violations) => `Tu respuesta anterior no era válida:
+${violations.map((violation) => `- ${violation}`).join('\n')}
+
+Responde de nuevo solo con el objeto JSON corregido, con las mismas claves y una de las categorías indicadas.`,
+
+  describeTopic: describeTopic(
+    'es',
+    'Tema de atención al cliente relacionado con',
+  ),
+};
+
+const portuguese: AnalysisPrompts = {
+  classify: (
+    transcript,
+    source,
+  ) => `Analise esta transcrição de uma chamada de atendimento ao cliente e classifique-a em uma destas categorias:
+- technical_issues: Problemas com internet, TV, telefone, configurações
+- commercial_support: Dúvidas sobre planos, promoções, vendas
+- administrative_requests: Alterações cadastrais, ativações e cancelamentos
+- billing_issues: Dúvidas de faturamento, cobranças, ajustes
+- service_activation: Ativação de serviços adicionais
+- complaints_claims: Reclamações formais, insatisfação
+
+A transcrição está em ${LANGUAGE_NAMES.pt[source]}. Escreva a justificativa em português. Use o identificador da categoria sem traduzir.
+
+Transcrição resumida:
+${transcript}
+
+Responda em formato JSON com:
+{
+  "category": "categoria_exata",
+  "confidence": numero_0_a_1,
+  "reasoning": "explicacao_breve"
+}`,
+
+  classifyWithTopics: (
+    transcript,
+    source,
+    includeReasoning,
+  ) => `Analise esta transcrição de uma chamada de atendimento ao cliente e realize duas tarefas:
+
+1. CLASSIFIQUE a conversa em uma destas categorias (use o identificador sem traduzir):
+   - technical_issues: Problemas técnicos (internet, TV, telefone)
+   - commercial_support: Suporte comercial (planos, promoções)
+   - administrative_requests: Solicitações administrativas
+   - billing_issues: Problemas de faturamento
+   - service_activation: Ativação de serviços
+   - complaints_claims: Reclamações
+
+2. EXTRAIA os principais temas presentes na conversa.
+
+A transcrição está em ${LANGUAGE_NAMES.pt[source]}. Escreva ${includeReasoning ? 'a justificativa e ' : ''}os temas em português. Os temas são expressões nominais curtas em minúsculas, por exemplo "fatura", "queda de internet".
+
+Transcrição:
+${transcript}
+
+Responda em formato JSON:
+{
+  "category": "nome_categoria",
+  "confidence": 0.95,${includeReasoning ? '\n  "reasoning": "breve explicação da classificação",' : ''}
+  "topics": ["tema1", "tema2", "tema3"]
+}`,
+
+  summarize: (
+    transcript,
+    source,
+  ) => `Resuma esta chamada de atendimento ao cliente em 2 ou 3 frases, destacando o problema principal e a resolução. A transcrição está em ${LANGUAGE_NAMES.pt[source]}; escreva o resumo em português.
+
+${transcript}
+
+Responda em formato JSON:
+{
+  "summary": "resumo de 2 ou 3 frases"
+}`,
+
+  repair: (violations) => `Sua resposta anterior não era válida:
+${violations.map((violation) => `- ${violation}`).join('\n')}
+
+Responda novamente apenas com o objeto JSON corrigido, com as mesmas chaves e uma das categorias indicadas.`,
+
+  describeTopic: describeTopic('pt', 'Tema de atendimento relacionado a'),
+};
+
+export const ANALYSIS_PROMPTS: Record<SupportedLanguage, AnalysisPrompts> = {
+  en: english,
+  es: spanish,
+  pt: portuguese,
+};
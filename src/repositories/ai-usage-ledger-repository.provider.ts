@@ -0,0 +1,25 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { AiUsageLedgerRepository } from './ai-usage-ledger.repository';
+import { InMemoryAiUsageLedgerRepository } from './in-memory-ai-usage-ledger.repository';
+import { FileAiUsageLedgerRepository } from './file-ai-usage-ledger.repository';
+
+export const aiUsageLedgerRepositoryProvider: Provider = {
+  provide: AiUsageLedgerRepository,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): AiUsageLedgerRepository => {
+    const store = configService.get<string>('TRANSCRIPT_STORE', 'file');
+
+    if (store === 'memory') {
+      return new InMemoryAiUsageLedgerRepository();
+    }
+
+    return new FileAiUsageLedgerRepository(
+      configService.get<string>(
+        'AI_USAGE_LEDGER_PATH',
+        join(process.cwd(), 'data', 'ai-usage-ledger.jsonl'),
+      ),
+    );
+  },
+};
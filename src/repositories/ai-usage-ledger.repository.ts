@@ -0,0 +1,9 @@
+import { AiLedgerEntry } from '../interfaces/ai-usage.interface';
+
+/** Storage behind AiBudgetService. Entries are only ever appended. */
+export abstract class AiUsageLedgerRepository {
+  abstract load(): Promise<void>;
+  abstract findAll(): AiLedgerEntry[];
+  abstract append(entry: AiLedgerEntry): void;
+  abstract flush(): Promise<void>;
+}
@@ -0,0 +1,68 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileAiUsageLedgerRepository } from './file-ai-usage-ledger.repository';
+import { AiLedgerEntry } from '../interfaces/ai-usage.interface';
+
+describe('FileAiUsageLedgerRepository', () => {
+  let directory: string;
+  let filePath: string;
+
+  const entry: AiLedgerEntry = {
+    timestamp: '2025-09-06T10:30:00.000Z',
+    operation: 'classify',
+    transcriptId: 'sample_01',
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    promptTokens: 1000,
+    cachedPromptTokens: 0,
+    completionTokens: 100,
+    totalTokens: 1100,
+    cost: 0.00021,
+    priced: true,
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'ai-usage-ledger-'));
+    filePath = join(directory, 'nested', 'ai-usage-ledger.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('appends one line per call and reloads them', async () => {
+    const repository = new FileAiUsageLedgerRepository(filePath);
+    repository.append(entry);
+    repository.append({ ...entry, operation: 'summarize' });
+    await repository.flush();
+
+    expect(readFileSync(filePath, 'utf-8').split('\n')).toHaveLength(3);
+
+    const reloaded = new FileAiUsageLedgerRepository(filePath);
+    await reloaded.load();
+    expect(reloaded.findAll().map((loaded) => loaded.operation)).toEqual([
+      'classify',
+      'summarize',
+    ]);
+  });
+
+  it('skips a line cut off by a crash and keeps appending after it', async () => {
+    const repository = new FileAiUsageLedgerRepository(filePath);
+    repository.append(entry);
+    await repository.flush();
+    appendFileSync(filePath, '{"timestamp":"2025-09-06T1');
+
+    const restarted = new FileAiUsageLedgerRepository(filePath);
+    await restarted.load();
+    restarted.append({ ...entry, operation: 'summarize' });
+    await restarted.flush();
+
+    const reloaded = new FileAiUsageLedgerRepository(filePath);
+    await reloaded.load();
+    expect(reloaded.findAll().map((loaded) => loaded.operation)).toEqual([
+      'classify',
+      'summarize',
+    ]);
+  });
+});
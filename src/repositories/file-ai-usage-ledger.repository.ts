@@ -0,0 +1,84 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { AiLedgerEntry } from '../interfaces/ai-usage.interface';
+import { InMemoryAiUsageLedgerRepository } from './in-memory-ai-usage-ledger.repository';
+
+/**
+ * Keeps the ledger in memory and appends one JSON line per call to a file,
+ * so past spend survives restarts and the file can be handed to finance as
+ * is. Appends are chained so lines never interleave.
+ */
+export class FileAiUsageLedgerRepository
+  extends InMemoryAiUsageLedgerRepository
+  implements OnModuleDestroy
+{
+  private readonly logger = new Logger(FileAiUsageLedgerRepository.name);
+  private writing: Promise<void> = Promise.resolve();
+  // A crash mid-append leaves a partial last line; the next entry must not
+  // be glued onto it.
+  private needsNewline = false;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    this.entries.length = 0;
+    let unreadable = 0;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.entries.push(JSON.parse(line) as AiLedgerEntry);
+      } catch {
+        unreadable++;
+      }
+    }
+    this.needsNewline = content.length > 0 && !content.endsWith('\n');
+
+    this.logger.log(
+      `Loaded ${this.entries.length} AI usage entries from ${this.filePath}`,
+    );
+    if (unreadable > 0) {
+      this.logger.warn(
+        `Skipped ${unreadable} unreadable lines in ${this.filePath}`,
+      );
+    }
+  }
+
+  append(entry: AiLedgerEntry): void {
+    super.append(entry);
+    const prefix = this.needsNewline ? '\n' : '';
+    this.needsNewline = false;
+    this.writing = this.writing.then(() =>
+      this.appendLine(`${prefix}${JSON.stringify(entry)}\n`),
+    );
+  }
+
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flush();
+  }
+
+  private async appendLine(line: string): Promise<void> {
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line, 'utf-8');
+    } catch (error) {
+      this.logger.error(`Error appending AI usage to ${this.filePath}:`, error);
+    }
+  }
+}
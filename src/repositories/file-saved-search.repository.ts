@@ -0,0 +1,107 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { SavedSearch } from '../interfaces/saved-search.interface';
+import { InMemorySavedSearchRepository } from './in-memory-saved-search.repository';
+
+interface SavedSearchStoreFile {
+  version: 1;
+  savedAt: string;
+  savedSearches: SavedSearch[];
+}
+
+/**
+ * Keeps saved searches in memory and mirrors them to a JSON file, written
+ * the same way as the transcript store (coalesced, temp file + rename).
+ */
+export class FileSavedSearchRepository
+  extends InMemorySavedSearchRepository
+  implements OnModuleDestroy
+{
+  private readonly logger = new Logger(FileSavedSearchRepository.name);
+  private writeTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly writeDelayMs = 200,
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const store = JSON.parse(content) as SavedSearchStoreFile;
+
+      this.savedSearches.clear();
+      for (const savedSearch of store.savedSearches || []) {
+        this.savedSearches.set(savedSearch.id, savedSearch);
+      }
+
+      this.logger.log(
+        `Loaded ${this.savedSearches.size} saved searches from ${this.filePath}`,
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  save(savedSearch: SavedSearch): void {
+    super.save(savedSearch);
+    this.scheduleWrite();
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.scheduleWrite();
+    }
+    return deleted;
+  }
+
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.writeStore());
+    }
+    await this.writing;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flush();
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) return;
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.writeStore());
+    }, this.writeDelayMs);
+  }
+
+  private async writeStore(): Promise<void> {
+    const store: SavedSearchStoreFile = {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      savedSearches: this.findAll(),
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(store), 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      this.logger.error(
+        `Error persisting saved searches to ${this.filePath}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTranscriptRepository } from './file-transcript.repository';
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+
+describe('FileTranscriptRepository', () => {
+  let directory: string;
+  let filePath: string;
+
+  const transcript: ParsedTranscript = {
+    id: 'sample_01',
+    fileName: 'sample_01.txt',
+    messages: [
+      {
+        timestamp: '00:00:00',
+        speaker: 'AGENT',
+        speakerLabel: 'AGENTE',
+        content: 'Buenos días',
+      },
+    ],
+    category: 'billing_issues',
+    annotations: {
+      category: {
+        model: 'gpt-4o-mini',
+        annotatedAt: '2025-09-06T10:30:00.000Z',
+      },
+    },
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'transcript-store-'));
+    filePath = join(directory, 'nested', 'transcripts.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('starts empty when the store file does not exist', async () => {
+    const repository = new FileTranscriptRepository(filePath);
+
+    await repository.load();
+
+    expect(repository.findAll()).toEqual([]);
+  });
+
+  it('persists transcripts and annotations across instances', async () => {
+    const repository = new FileTranscriptRepository(filePath, 0);
+    repository.save(transcript);
+    await repository.flush();
+
+    const reloaded = new FileTranscriptRepository(filePath);
+    await reloaded.load();
+
+    expect(reloaded.findById('sample_01')).toEqual(transcript);
+  });
+
+  it('persists deletions', async () => {
+    const repository = new FileTranscriptRepository(filePath, 0);
+    repository.save(transcript);
+    repository.delete('sample_01');
+    await repository.flush();
+
+    const reloaded = new FileTranscriptRepository(filePath);
+    await reloaded.load();
+
+    expect(reloaded.findAll()).toEqual([]);
+  });
+});
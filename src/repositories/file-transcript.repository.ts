@@ -0,0 +1,112 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+import { InMemoryTranscriptRepository } from './in-memory-transcript.repository';
+
+interface TranscriptStoreFile {
+  version: 1;
+  savedAt: string;
+  transcripts: ParsedTranscript[];
+}
+
+/**
+ * Keeps transcripts in memory and mirrors them to a JSON file. Writes are
+ * coalesced and done atomically (temp file + rename) so a crash mid-write
+ * never leaves a truncated store behind.
+ */
+export class FileTranscriptRepository
+  extends InMemoryTranscriptRepository
+  implements OnModuleDestroy
+{
+  private readonly logger = new Logger(FileTranscriptRepository.name);
+  private writeTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly writeDelayMs = 200,
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const store = JSON.parse(content) as TranscriptStoreFile;
+
+      this.transcripts.clear();
+      for (const transcript of store.transcripts || []) {
+        this.transcripts.set(transcript.id, transcript);
+      }
+
+      this.logger.log(
+        `Loaded ${this.transcripts.size} stored transcripts from ${this.filePath}`,
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.log(`No transcript store at ${this.filePath} yet`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  save(transcript: ParsedTranscript): void {
+    super.save(transcript);
+    this.scheduleWrite();
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.scheduleWrite();
+    }
+    return deleted;
+  }
+
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.writeStore());
+    }
+    await this.writing;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flush();
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) return;
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.writeStore());
+    }, this.writeDelayMs);
+  }
+
+  private async writeStore(): Promise<void> {
+    const store: TranscriptStoreFile = {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      transcripts: this.findAll(),
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(store), 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+      this.logger.debug(
+        `Persisted ${store.transcripts.length} transcripts to ${this.filePath}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error persisting transcripts to ${this.filePath}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { AiLedgerEntry } from '../interfaces/ai-usage.interface';
+import { AiUsageLedgerRepository } from './ai-usage-ledger.repository';
+
+export class InMemoryAiUsageLedgerRepository extends AiUsageLedgerRepository {
+  protected readonly entries: AiLedgerEntry[] = [];
+
+  load(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  findAll(): AiLedgerEntry[] {
+    return [...this.entries];
+  }
+
+  append(entry: AiLedgerEntry): void {
+    this.entries.push(entry);
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,30 @@
+import { SavedSearch } from '../interfaces/saved-search.interface';
+import { SavedSearchRepository } from './saved-search.repository';
+
+export class InMemorySavedSearchRepository extends SavedSearchRepository {
+  protected readonly savedSearches = new Map<string, SavedSearch>();
+
+  load(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  findAll(): SavedSearch[] {
+    return Array.from(this.savedSearches.values());
+  }
+
+  findById(id: string): SavedSearch | undefined {
+    return this.savedSearches.get(id);
+  }
+
+  save(savedSearch: SavedSearch): void {
+    this.savedSearches.set(savedSearch.id, savedSearch);
+  }
+
+  delete(id: string): boolean {
+    return this.savedSearches.delete(id);
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+}
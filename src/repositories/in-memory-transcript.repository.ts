@@ -0,0 +1,30 @@
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+import { TranscriptRepository } from './transcript.repository';
+
+export class InMemoryTranscriptRepository extends TranscriptRepository {
+  protected readonly transcripts = new Map<string, ParsedTranscript>();
+
+  load(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  findAll(): ParsedTranscript[] {
+    return Array.from(this.transcripts.values());
+  }
+
+  findById(id: string): ParsedTranscript | undefined {
+    return this.transcripts.get(id);
+  }
+
+  save(transcript: ParsedTranscript): void {
+    this.transcripts.set(transcript.id, transcript);
+  }
+
+  delete(id: string): boolean {
+    return this.transcripts.delete(id);
+  }
+
+  flush(): Promise<void> {
+    return Promise.resolve();
+  }
+}
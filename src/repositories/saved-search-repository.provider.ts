@@ -0,0 +1,25 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { SavedSearchRepository } from './saved-search.repository';
+import { InMemorySavedSearchRepository } from './in-memory-saved-search.repository';
+import { FileSavedSearchRepository } from './file-saved-search.repository';
+
+export const savedSearchRepositoryProvider: Provider = {
+  provide: SavedSearchRepository,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): SavedSearchRepository => {
+    const store = configService.get<string>('TRANSCRIPT_STORE', 'file');
+
+    if (store === 'memory') {
+      return new InMemorySavedSearchRepository();
+    }
+
+    return new FileSavedSearchRepository(
+      configService.get<string>(
+        'SAVED_SEARCH_STORE_PATH',
+        join(process.cwd(), 'data', 'saved-searches.json'),
+      ),
+    );
+  },
+};
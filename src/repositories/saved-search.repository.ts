@@ -0,0 +1,11 @@
+import { SavedSearch } from '../interfaces/saved-search.interface';
+
+/** Storage behind SavedSearchService, shaped like TranscriptRepository. */
+export abstract class SavedSearchRepository {
+  abstract load(): Promise<void>;
+  abstract findAll(): SavedSearch[];
+  abstract findById(id: string): SavedSearch | undefined;
+  abstract save(savedSearch: SavedSearch): void;
+  abstract delete(id: string): boolean;
+  abstract flush(): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import { TranscriptRepository } from './transcript.repository';
+import { InMemoryTranscriptRepository } from './in-memory-transcript.repository';
+import { FileTranscriptRepository } from './file-transcript.repository';
+
+export const transcriptRepositoryProvider: Provider = {
+  provide: TranscriptRepository,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): TranscriptRepository => {
+    const store = configService.get<string>('TRANSCRIPT_STORE', 'file');
+
+    if (store === 'memory') {
+      return new InMemoryTranscriptRepository();
+    }
+
+    return new FileTranscriptRepository(
+      configService.get<string>(
+        'TRANSCRIPT_STORE_PATH',
+        join(process.cwd(), 'data', 'transcripts.json'),
+      ),
+    );
+  },
+};
@@ -0,0 +1,15 @@
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+
+/**
+ * Storage behind TranscriptProcessingService. Reads are synchronous so the
+ * search and statistics paths stay synchronous; implementations that
+ * persist to disk keep an in-memory copy and write in the background.
+ */
+export abstract class TranscriptRepository {
+  abstract load(): Promise<void>;
+  abstract findAll(): ParsedTranscript[];
+  abstract findById(id: string): ParsedTranscript | undefined;
+  abstract save(transcript: ParsedTranscript): void;
+  abstract delete(id: string): boolean;
+  abstract flush(): Promise<void>;
+}
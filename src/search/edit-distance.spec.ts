@@ -0,0 +1,24 @@
+import { allowedEdits, editDistance } from './edit-distance';
+
+describe('editDistance', () => {
+  it.each([
+    ['intenet', 'internet', 1],
+    ['factuar', 'factura', 1],
+    ['boleta', 'boleta', 0],
+    ['cobro', 'cargo', 3],
+  ])('%s → %s is %i', (a, b, expected) => {
+    expect(editDistance(a, b, 5)).toBe(expected);
+  });
+
+  it('stops at the maximum', () => {
+    expect(editDistance('reembolso', 'cancelar', 2)).toBe(3);
+    expect(editDistance('a', 'abcd', 1)).toBe(2);
+  });
+
+  it('tolerates more edits in longer words', () => {
+    expect(allowedEdits('sms', 2)).toBe(0);
+    expect(allowedEdits('cobro', 2)).toBe(1);
+    expect(allowedEdits('internet', 2)).toBe(2);
+    expect(allowedEdits('internet', 1)).toBe(1);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of adjacent characters ("factuar" → "factura") each cost 1.
+ * Stops early and returns `max + 1` once the distance is known to exceed
+ * `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous2 = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/** Edits tolerated for a word: none for short words, more for long ones. */
+export function allowedEdits(word: string, max: number): number {
+  if (word.length < 4) return 0;
+  return Math.min(max, word.length < 7 ? 1 : 2);
+}
@@ -0,0 +1,107 @@
+import {
+  computeFacets,
+  durationBucket,
+  facetValues,
+  matchesFacets,
+} from './facets';
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+
+function transcript(
+  id: string,
+  fields: Partial<ParsedTranscript> & { agentName?: string; seconds?: number },
+): ParsedTranscript {
+  const { agentName, seconds = 120, ...rest } = fields;
+  return {
+    id,
+    fileName: `${id}.txt`,
+    messages: [],
+    metadata: {
+      agentName,
+      outcome: 'completed',
+      supervisorInvolvement: 'none',
+    },
+    metrics: {
+      durationSeconds: seconds,
+      talkTimeSeconds: {},
+      longGaps: { count: 0, totalSeconds: 0, gaps: [] },
+      timeToFirstAgentResponseSeconds: null,
+    },
+    ...rest,
+  };
+}
+
+describe('facets', () => {
+  const hits = [
+    transcript('a', {
+      category: 'billing_issues',
+      topics: ['Facturación', 'cobro'],
+      agentName: 'Carlos',
+    }),
+    transcript('b', {
+      category: 'billing_issues',
+      topics: ['facturación'],
+      sentiment: 'negative',
+      agentName: 'Valeria',
+      seconds: 300,
+    }),
+    transcript('c', { category: 'technical_issues', seconds: 500 }),
+    transcript('d', {}),
+  ].map(facetValues);
+
+  it('counts every facet value, grouping topics regardless of case', () => {
+    const facets = computeFacets(hits, {});
+
+    expect(facets.category).toEqual([
+      { value: 'billing_issues', count: 2 },
+      { value: 'technical_issues', count: 1 },
+      { value: 'unclassified', count: 1 },
+    ]);
+    expect(facets.topic).toEqual([
+      { value: 'Facturación', count: 2 },
+      { value: 'cobro', count: 1 },
+    ]);
+    expect(facets.sentiment).toEqual([
+      { value: 'unknown', count: 3 },
+      { value: 'negative', count: 1 },
+    ]);
+    expect(facets.duration).toEqual([
+      { value: 'under_3m', count: 2 },
+      { value: '3_to_6m', count: 1 },
+      { value: '6_to_10m', count: 1 },
+    ]);
+  });
+
+  it('counts a facet without its own filter but with the others', () => {
+    const facets = computeFacets(hits, {
+      category: ['billing_issues'],
+      agent: ['carlos'],
+    });
+
+    expect(facets.category).toEqual([{ value: 'billing_issues', count: 1 }]);
+    expect(facets.agent).toEqual([
+      { value: 'Carlos', count: 1 },
+      { value: 'Valeria', count: 1 },
+    ]);
+  });
+
+  it('matches any selected value within a facet and every facet', () => {
+    const filters = {
+      category: ['billing_issues', 'technical_issues'],
+      duration: ['3_to_6m', '6_to_10m'],
+    };
+
+    expect(hits.map((values) => matchesFacets(values, filters))).toEqual([
+      false,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it('buckets durations by their upper bound', () => {
+    expect(durationBucket(179)).toBe('under_3m');
+    expect(durationBucket(180)).toBe('3_to_6m');
+    expect(durationBucket(3600)).toBe('over_10m');
+    expect(durationBucket(undefined)).toBe('unknown');
+  });
+});
@@ -0,0 +1,117 @@
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+
+export const FACET_FIELDS = [
+  'category',
+  'topic',
+  'sentiment',
+  'agent',
+  'duration',
+] as const;
+
+export type FacetField = (typeof FACET_FIELDS)[number];
+
+/** Selected values per facet: any value within a facet, every facet. */
+export type FacetFilters = Partial<Record<FacetField, string[]>>;
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type SearchFacets = Record<FacetField, FacetCount[]>;
+
+// Most calls in the corpus last two to three minutes; the buckets split
+// the long tail of escalations.
+export const DURATION_BUCKETS: Array<{ value: string; maxSeconds: number }> = [
+  { value: 'under_3m', maxSeconds: 180 },
+  { value: '3_to_6m', maxSeconds: 360 },
+  { value: '6_to_10m', maxSeconds: 600 },
+  { value: 'over_10m', maxSeconds: Infinity },
+];
+
+/** Facet value for transcripts that have no value for a field. */
+export const MISSING_FACET_VALUE: Record<FacetField, string | null> = {
+  category: 'unclassified',
+  topic: null,
+  sentiment: 'unknown',
+  agent: 'unknown',
+  duration: 'unknown',
+};
+
+export function durationBucket(seconds: number | undefined): string {
+  if (seconds === undefined) {
+    return MISSING_FACET_VALUE.duration!;
+  }
+  return DURATION_BUCKETS.find((bucket) => seconds < bucket.maxSeconds)!.value;
+}
+
+/** Values of every facet for one transcript. */
+export function facetValues(
+  transcript: ParsedTranscript,
+): Record<FacetField, string[]> {
+  const single = (field: FacetField, value: string | undefined) => {
+    const resolved = value ?? MISSING_FACET_VALUE[field];
+    return resolved ? [resolved] : [];
+  };
+
+  return {
+    category: single('category', transcript.category),
+    topic: Array.from(new Set(transcript.topics ?? [])),
+    sentiment: single('sentiment', transcript.sentiment),
+    agent: single('agent', transcript.metadata?.agentName),
+    duration: [durationBucket(transcript.metrics?.durationSeconds)],
+  };
+}
+
+/**
+ * Counts facet values over the hits. Each facet is counted with the
+ * filters of the other facets applied but not its own, so a dashboard can
+ * offer the sibling values of a selection ("billing" next to the selected
+ * "technical_issues") instead of a single bucket.
+ */
+export function computeFacets(
+  hits: Array<Record<FacetField, string[]>>,
+  filters: FacetFilters,
+): SearchFacets {
+  const facets = {} as SearchFacets;
+
+  for (const field of FACET_FIELDS) {
+    // Values differing only in case ("Facturación", "facturación") share a
+    // bucket, shown as first seen.
+    const counts = new Map<string, FacetCount>();
+    for (const values of hits) {
+      if (!matchesFacets(values, filters, field)) continue;
+      const keys = new Set<string>();
+      values[field].forEach((value) => {
+        const key = value.toLowerCase();
+        if (keys.has(key)) return;
+        keys.add(key);
+
+        const bucket = counts.get(key) ?? { value, count: 0 };
+        bucket.count++;
+        counts.set(key, bucket);
+      });
+    }
+
+    facets[field] = Array.from(counts.values()).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value),
+    );
+  }
+
+  return facets;
+}
+
+export function matchesFacets(
+  values: Record<FacetField, string[]>,
+  filters: FacetFilters,
+  ignore?: FacetField,
+): boolean {
+  return FACET_FIELDS.every((field) => {
+    const wanted = filters[field]?.map((value) => value.toLowerCase());
+    return (
+      field === ignore ||
+      !wanted?.length ||
+      values[field].some((value) => wanted.includes(value.toLowerCase()))
+    );
+  });
+}
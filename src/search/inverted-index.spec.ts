@@ -0,0 +1,63 @@
+import { Bm25Options, InvertedIndex } from './inverted-index';
+
+const options: Bm25Options = {
+  k1: 1.2,
+  b: 0.75,
+  fieldWeights: { message: 1, summary: 2, topics: 3, names: 2 },
+};
+
+describe('InvertedIndex', () => {
+  let index: InvertedIndex;
+
+  beforeEach(() => {
+    index = new InvertedIndex(options);
+    index.add({
+      id: 'internet',
+      messages: [
+        'Hola, tengo un problema con mi internet.',
+        'La conexion se corta todo el dia.',
+        'Vamos a reiniciar el router.',
+      ],
+    });
+    index.add({
+      id: 'billing',
+      messages: ['Quiero revisar un cargo de mi factura.', 'Gracias.'],
+      topics: ['facturación'],
+    });
+    index.add({
+      id: 'mixed',
+      messages: ['Tengo un problema con la factura del internet.'],
+    });
+  });
+
+  it('ranks documents matching more query terms first', () => {
+    const hits = index.search('problema internet conexion');
+
+    expect(hits.map((hit) => hit.id)).toEqual(['internet', 'mixed']);
+    expect(hits[0].messageIndexes).toEqual([0, 1]);
+    expect(hits[0].matchedTerms).toEqual(['problema', 'internet', 'conexion']);
+  });
+
+  it('weights topic matches above message matches', () => {
+    index.add({
+      id: 'billing-topic',
+      messages: ['Consulta general.'],
+      topics: ['factura'],
+    });
+
+    expect(index.search('factura')[0].id).toBe('billing-topic');
+  });
+
+  it('updates and removes documents', () => {
+    index.add({ id: 'mixed', messages: ['Nada que ver.'] });
+    expect(index.search('factura').map((hit) => hit.id)).toEqual(['billing']);
+
+    expect(index.remove('billing')).toBe(true);
+    expect(index.search('factura')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it('returns nothing for unknown terms', () => {
+    expect(index.search('televisión')).toEqual([]);
+  });
+});
@@ -0,0 +1,308 @@
+import { tokenize } from './tokenizer';
+
+export type SearchField = 'message' | 'summary' | 'topics' | 'names';
+
+export const SEARCH_FIELDS: SearchField[] = [
+  'message',
+  'summary',
+  'topics',
+  'names',
+];
+
+export interface IndexedDocument {
+  id: string;
+  /** One entry per message, so hits can be traced back to messages. */
+  messages: string[];
+  summary?: string;
+  topics?: string[];
+  names?: string[];
+}
+
+export interface IndexHit {
+  id: string;
+  score: number;
+  /** Indexes of the messages containing at least one query term. */
+  messageIndexes: number[];
+  matchedTerms: string[];
+}
+
+export interface SimilarDocument {
+  id: string;
+  /** Cosine similarity of the TF-IDF message vectors, 0 to 1. */
+  similarity: number;
+  /** Shared terms with their share of the similarity, largest first. */
+  sharedTerms: Array<{ term: string; weight: number }>;
+}
+
+export interface Bm25Options {
+  k1: number;
+  b: number;
+  fieldWeights: Record<SearchField, number>;
+}
+
+interface Posting {
+  frequencies: Partial<Record<SearchField, number>>;
+  messageIndexes: number[];
+}
+
+interface DocumentStats {
+  lengths: Record<SearchField, number>;
+  terms: Set<string>;
+}
+
+/**
+ * Term → document postings with per-field frequencies, ranked with BM25F:
+ * field frequencies are length-normalised, weighted and summed before the
+ * BM25 saturation, so a term in a short summary counts for more than the
+ * same term buried in a long conversation.
+ */
+export class InvertedIndex {
+  private readonly postings = new Map<string, Map<string, Posting>>();
+  private readonly documents = new Map<string, DocumentStats>();
+  private readonly totalLengths = emptyLengths();
+
+  constructor(
+    private readonly options: Bm25Options,
+    private readonly analyze: (text: string) => string[] = tokenize,
+  ) {}
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  add(document: IndexedDocument): void {
+    this.remove(document.id);
+
+    const stats: DocumentStats = { lengths: emptyLengths(), terms: new Set() };
+    const record = (field: SearchField, text: string, message?: number) => {
+      const tokens = this.analyze(text);
+      stats.lengths[field] += tokens.length;
+
+      for (const term of tokens) {
+        stats.terms.add(term);
+        let documents = this.postings.get(term);
+        if (!documents) {
+          documents = new Map();
+          this.postings.set(term, documents);
+        }
+        let posting = documents.get(document.id);
+        if (!posting) {
+          posting = { frequencies: {}, messageIndexes: [] };
+          documents.set(document.id, posting);
+        }
+        posting.frequencies[field] = (posting.frequencies[field] || 0) + 1;
+        if (
+          message !== undefined &&
+          posting.messageIndexes[posting.messageIndexes.length - 1] !== message
+        ) {
+          posting.messageIndexes.push(message);
+        }
+      }
+    };
+
+    document.messages.forEach((text, index) => record('message', text, index));
+    if (document.summary) record('summary', document.summary);
+    document.topics?.forEach((topic) => record('topics', topic));
+    document.names?.forEach((name) => record('names', name));
+
+    this.documents.set(document.id, stats);
+    for (const field of SEARCH_FIELDS) {
+      this.totalLengths[field] += stats.lengths[field];
+    }
+  }
+
+  remove(id: string): boolean {
+    const stats = this.documents.get(id);
+    if (!stats) {
+      return false;
+    }
+
+    for (const term of stats.terms) {
+      const documents = this.postings.get(term);
+      documents?.delete(id);
+      if (documents?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    for (const field of SEARCH_FIELDS) {
+      this.totalLengths[field] -= stats.lengths[field];
+    }
+    this.documents.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    Object.assign(this.totalLengths, emptyLengths());
+  }
+
+  documentIds(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /** Number of documents containing an analyzed term. */
+  documentFrequency(term: string): number {
+    return this.postings.get(term)?.size ?? 0;
+  }
+
+  /** Ids of the documents containing an analyzed term. */
+  documentsWith(term: string): string[] {
+    return Array.from(this.postings.get(term)?.keys() ?? []);
+  }
+
+  /** Where a single analyzed term occurs in a document, if at all. */
+  posting(
+    term: string,
+    id: string,
+  ): Readonly<{
+    frequencies: Partial<Record<SearchField, number>>;
+    messageIndexes: readonly number[];
+  }> | null {
+    return this.postings.get(term)?.get(id) ?? null;
+  }
+
+  /** BM25F score of a document for already analyzed terms. */
+  score(id: string, terms: string[]): number {
+    const stats = this.documents.get(id);
+    if (!stats) {
+      return 0;
+    }
+
+    const { k1, b, fieldWeights } = this.options;
+    const documentCount = this.documents.size;
+    let score = 0;
+
+    for (const term of new Set(terms)) {
+      const documents = this.postings.get(term);
+      const posting = documents?.get(id);
+      if (!documents || !posting) continue;
+
+      const idf = Math.log(
+        1 + (documentCount - documents.size + 0.5) / (documents.size + 0.5),
+      );
+
+      let weightedFrequency = 0;
+      for (const field of SEARCH_FIELDS) {
+        const frequency = posting.frequencies[field];
+        if (!frequency) continue;
+        const averageLength = this.totalLengths[field] / documentCount;
+        const normalization =
+          1 - b + (b * stats.lengths[field]) / (averageLength || 1);
+        weightedFrequency += (fieldWeights[field] * frequency) / normalization;
+      }
+
+      score += (idf * weightedFrequency * (k1 + 1)) / (k1 + weightedFrequency);
+    }
+
+    return score;
+  }
+
+  /**
+   * Documents whose messages use the same vocabulary as document `id`,
+   * by cosine similarity of TF-IDF vectors over the message field. Terms
+   * for which `ignore` returns true are left out of both vectors.
+   */
+  similarDocuments(
+    id: string,
+    ignore: (term: string) => boolean = () => false,
+  ): SimilarDocument[] {
+    const vector = this.messageVector(id, ignore);
+    const norm = vectorNorm(vector);
+    if (norm === 0) {
+      return [];
+    }
+
+    const shared = new Map<string, Array<{ term: string; weight: number }>>();
+    for (const [term, weight] of vector) {
+      for (const [other, posting] of this.postings.get(term) ?? []) {
+        if (other === id || !posting.frequencies.message) continue;
+
+        const terms = shared.get(other) ?? [];
+        terms.push({
+          term,
+          weight: weight * this.tfIdf(term, posting.frequencies.message),
+        });
+        shared.set(other, terms);
+      }
+    }
+
+    return Array.from(shared, ([other, terms]) => {
+      const scale = norm * vectorNorm(this.messageVector(other, ignore));
+      const sharedTerms = terms
+        .map(({ term, weight }) => ({ term, weight: weight / scale }))
+        .sort((a, b) => b.weight - a.weight);
+      return {
+        id: other,
+        similarity: sharedTerms.reduce((sum, t) => sum + t.weight, 0),
+        sharedTerms,
+      };
+    }).sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private messageVector(
+    id: string,
+    ignore: (term: string) => boolean,
+  ): Map<string, number> {
+    const vector = new Map<string, number>();
+    for (const term of this.documents.get(id)?.terms ?? []) {
+      const frequency = this.postings.get(term)?.get(id)?.frequencies.message;
+      if (frequency && !ignore(term)) {
+        vector.set(term, this.tfIdf(term, frequency));
+      }
+    }
+    return vector;
+  }
+
+  private tfIdf(term: string, frequency: number): number {
+    const documentFrequency = this.postings.get(term)?.size ?? 1;
+    return (
+      (1 + Math.log(frequency)) *
+      Math.log(1 + this.documents.size / documentFrequency)
+    );
+  }
+
+  /** Ranks every document containing any of the query terms. */
+  search(query: string): IndexHit[] {
+    const terms = Array.from(new Set(this.analyze(query)));
+    const hits = new Map<string, IndexHit>();
+
+    for (const term of terms) {
+      for (const [id, posting] of this.postings.get(term) ?? []) {
+        const hit = hits.get(id) ?? {
+          id,
+          score: 0,
+          messageIndexes: [],
+          matchedTerms: [],
+        };
+        hit.messageIndexes.push(...posting.messageIndexes);
+        hit.matchedTerms.push(term);
+        hits.set(id, hit);
+      }
+    }
+
+    return Array.from(hits.values())
+      .map((hit) => ({
+        ...hit,
+        score: this.score(hit.id, hit.matchedTerms),
+        messageIndexes: Array.from(new Set(hit.messageIndexes)).sort(
+          (x, y) => x - y,
+        ),
+      }))
+      .sort((x, y) => y.score - x.score);
+  }
+}
+
+function vectorNorm(vector: Map<string, number>): number {
+  let sum = 0;
+  vector.forEach((weight) => (sum += weight * weight));
+  return Math.sqrt(sum);
+}
+
+function emptyLengths(): Record<SearchField, number> {
+  return { message: 0, summary: 0, topics: 0, names: 0 };
+}
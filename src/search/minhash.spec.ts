@@ -0,0 +1,76 @@
+import {
+  estimateSimilarity,
+  LshIndex,
+  MinHasher,
+  normalizedWords,
+  shingles,
+} from './minhash';
+
+describe('minhash', () => {
+  const words = (text: string) => text.split(' ');
+
+  it('normalizes case, accents and punctuation of the spoken text', () => {
+    expect(
+      normalizedWords([
+        {
+          timestamp: '00:00:01',
+          speaker: 'CLIENT',
+          speakerLabel: 'CLIENTE',
+          content: 'Quiero la PORTABILIDAD, ¡ya!',
+        },
+        {
+          timestamp: '00:00:09',
+          speaker: 'AGENT',
+          speakerLabel: 'AGENTE',
+          content: 'Acción registrada.',
+        },
+      ]),
+    ).toEqual(['quiero', 'la', 'portabilidad', 'ya', 'accion', 'registrada']);
+  });
+
+  it('builds overlapping shingles, or one for short texts', () => {
+    expect(shingles(words('a b c d e f'), 5)).toEqual(
+      new Set(['a b c d e', 'b c d e f']),
+    );
+    expect(shingles(words('hola'), 5)).toEqual(new Set(['hola']));
+    expect(shingles([], 5).size).toBe(0);
+  });
+
+  it('estimates Jaccard similarity from signatures', () => {
+    const hasher = new MinHasher(256);
+    const base = Array.from({ length: 200 }, (_, i) => `w${i}`);
+    const edited = [
+      ...base.slice(0, 180),
+      ...base.slice(180).map((w) => `${w}x`),
+    ];
+    const other = Array.from({ length: 200 }, (_, i) => `z${i}`);
+
+    const signature = hasher.signature(shingles(base));
+    expect(
+      estimateSimilarity(signature, hasher.signature(shingles(base))),
+    ).toBe(1);
+    // 176 of the 196 shingles each are shared: Jaccard 176/216 ≈ 0.81.
+    expect(
+      estimateSimilarity(signature, hasher.signature(shingles(edited))),
+    ).toBeCloseTo(0.8, 1);
+    expect(
+      estimateSimilarity(signature, hasher.signature(shingles(other))),
+    ).toBeLessThan(0.05);
+  });
+
+  it('only offers documents sharing a band as candidates', () => {
+    const lsh = new LshIndex(2);
+    lsh.add('a', Uint32Array.from([1, 2, 3, 4]));
+    lsh.add('b', Uint32Array.from([9, 9, 3, 4]));
+    lsh.add('c', Uint32Array.from([5, 6, 7, 8]));
+
+    expect(lsh.candidates(Uint32Array.from([0, 0, 3, 4]))).toEqual(
+      new Set(['a', 'b']),
+    );
+
+    lsh.remove('b');
+    expect(lsh.candidates(Uint32Array.from([0, 0, 3, 4]))).toEqual(
+      new Set(['a']),
+    );
+  });
+});
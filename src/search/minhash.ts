@@ -0,0 +1,146 @@
+import { TranscriptMessage } from '../interfaces/transcript.interface';
+import { foldAccents } from './spanish-analyzer';
+import { tokenize } from './tokenizer';
+
+// Five-word shingles are long enough that unrelated calls sharing the usual
+// greetings do not look alike, short enough that a few edited words only
+// touch a handful of them.
+export const SHINGLE_SIZE = 5;
+
+/**
+ * Lowercased, accent-free words of what was said. Timestamps, speaker
+ * labels and punctuation are left out, so the same call exported in
+ * another format or with shifted times yields the same words.
+ */
+export function normalizedWords(messages: TranscriptMessage[]): string[] {
+  return messages.flatMap((message) => tokenize(foldAccents(message.content)));
+}
+
+/** Overlapping runs of `size` words; shorter texts are a single shingle. */
+export function shingles(
+  words: string[],
+  size: number = SHINGLE_SIZE,
+): Set<string> {
+  const result = new Set<string>();
+  if (words.length <= size) {
+    if (words.length > 0) result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+/**
+ * MinHash signatures: the share of positions where two signatures agree
+ * estimates the Jaccard similarity of their shingle sets. Each position
+ * uses the same 32-bit string hash remixed with its own seed.
+ */
+export class MinHasher {
+  private readonly seeds: Uint32Array;
+
+  constructor(readonly size = 128) {
+    this.seeds = new Uint32Array(size);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < size; i++) {
+      state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+      this.seeds[i] = state;
+    }
+  }
+
+  signature(shingleSet: Set<string>): Uint32Array {
+    const signature = new Uint32Array(this.size).fill(0xffffffff);
+    shingleSet.forEach((shingle) => {
+      const hash = fnv1a(shingle);
+      for (let i = 0; i < this.size; i++) {
+        const value = mix(hash ^ this.seeds[i]);
+        if (value < signature[i]) signature[i] = value;
+      }
+    });
+    return signature;
+  }
+}
+
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return a.length === 0 ? 0 : equal / a.length;
+}
+
+/**
+ * Locality-sensitive hashing over signature bands: documents sharing any
+ * band are candidates, so only those pairs get compared. With `rows` rows
+ * per band, pairs well above 0.8 similarity almost always collide.
+ */
+export class LshIndex {
+  private readonly buckets = new Map<string, Set<string>>();
+  private readonly keys = new Map<string, string[]>();
+
+  constructor(private readonly rows = 4) {}
+
+  add(id: string, signature: Uint32Array): void {
+    this.remove(id);
+    const keys = this.bandKeys(signature);
+    keys.forEach((key) => {
+      const bucket = this.buckets.get(key) ?? new Set<string>();
+      bucket.add(id);
+      this.buckets.set(key, bucket);
+    });
+    this.keys.set(id, keys);
+  }
+
+  remove(id: string): void {
+    this.keys.get(id)?.forEach((key) => {
+      const bucket = this.buckets.get(key)!;
+      bucket.delete(id);
+      if (bucket.size === 0) this.buckets.delete(key);
+    });
+    this.keys.delete(id);
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.keys.clear();
+  }
+
+  candidates(signature: Uint32Array): Set<string> {
+    const result = new Set<string>();
+    this.bandKeys(signature).forEach((key) =>
+      this.buckets.get(key)?.forEach((id) => result.add(id)),
+    );
+    return result;
+  }
+
+  private bandKeys(signature: Uint32Array): string[] {
+    const keys: string[] = [];
+    for (let start = 0; start < signature.length; start += this.rows) {
+      keys.push(
+        `${start}:${Array.from(signature.subarray(start, start + this.rows)).join(',')}`,
+      );
+    }
+    return keys;
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer, so seeded hashes of one value look independent.
+function mix(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
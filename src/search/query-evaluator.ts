@@ -0,0 +1,298 @@
+import { IndexedDocument, InvertedIndex } from './inverted-index';
+import { QueryNode } from './query-parser';
+import { SpanishAnalyzer } from './spanish-analyzer';
+
+export interface QueryMatch {
+  /** Messages that satisfied a positive clause. */
+  messageIndexes: number[];
+  /** Analyzed terms of the positive clauses that matched, for scoring. */
+  terms: string[];
+}
+
+/**
+ * An indexed document with its texts already analyzed, so phrases are
+ * checked against stored terms instead of analyzing messages per query.
+ */
+export interface AnalyzedDocument extends IndexedDocument {
+  /** Analyzed terms of each message, in order. */
+  messageTerms: string[][];
+  /** Analyzed terms of the summary, of each topic and of each name. */
+  fieldTerms: string[][];
+}
+
+interface NodeResult {
+  matched: boolean;
+  messageIndexes: number[];
+  terms: string[];
+}
+
+/**
+ * Index terms to look up instead of a query word's own term, e.g. the
+ * terms of close spellings when the word does not occur in the index.
+ */
+export type TermExpander = (word: string, term: string) => string[];
+
+/**
+ * Evaluates a parsed query against one indexed document. `allowed` limits
+ * the messages that may match (speaker and time filters); when it is set,
+ * summary, topics and names are left out because they belong to no message.
+ * Clauses whose words are all stop words impose no condition. Single words
+ * go through `expand`; phrases are matched as written.
+ */
+export class QueryEvaluator {
+  constructor(
+    private readonly index: InvertedIndex,
+    private readonly analyzer: SpanishAnalyzer,
+    private readonly expand: TermExpander = (_word, term) => [term],
+  ) {}
+
+  analyzeDocument(document: IndexedDocument): AnalyzedDocument {
+    return {
+      ...document,
+      messageTerms: document.messages.map((text) =>
+        this.analyzer.analyze(text),
+      ),
+      fieldTerms: [
+        document.summary ?? '',
+        ...(document.topics ?? []),
+        ...(document.names ?? []),
+      ].map((text) => this.analyzer.analyze(text)),
+    };
+  }
+
+  /**
+   * Ids of the documents that can match `root`, from the postings of its
+   * positive terms and their expansions. Null when the query has nothing
+   * to narrow by (e.g. "-factura") and every document has to be evaluated.
+   */
+  candidates(root: QueryNode): Set<string> | null {
+    const candidates = this.candidatesOf(root);
+    // A query that imposes no condition matches nothing.
+    return candidates === undefined ? new Set() : candidates;
+  }
+
+  evaluate(
+    root: QueryNode,
+    document: AnalyzedDocument,
+    allowed: Set<number> | null,
+  ): QueryMatch | null {
+    const result = this.evaluateNode(root, document, allowed);
+    if (!result?.matched) {
+      return null;
+    }
+
+    return {
+      messageIndexes: Array.from(new Set(result.messageIndexes)).sort(
+        (a, b) => a - b,
+      ),
+      terms: Array.from(new Set(result.terms)),
+    };
+  }
+
+  /**
+   * Undefined mirrors evaluateNode returning null: the node imposes no
+   * condition and is left out of its parent.
+   */
+  private candidatesOf(node: QueryNode): Set<string> | null | undefined {
+    switch (node.type) {
+      case 'term':
+      case 'phrase': {
+        const terms = this.analyzer.analyze(node.value);
+        if (terms.length === 0) return undefined;
+        return terms.length === 1 && node.type === 'term'
+          ? union(
+              this.expand(node.value, terms[0]).map((term) =>
+                this.index.documentsWith(term),
+              ),
+            )
+          : intersection(terms.map((term) => this.index.documentsWith(term)));
+      }
+      case 'not':
+        return this.candidatesOf(node.child) === undefined ? undefined : null;
+      case 'and': {
+        const results = node.children
+          .map((child) => this.candidatesOf(child))
+          .filter((result) => result !== undefined);
+        if (results.length === 0) return undefined;
+        const sets = results.filter((result) => result !== null);
+        return sets.length === 0 ? null : intersection(sets);
+      }
+      case 'or': {
+        const results = node.children
+          .map((child) => ({ child, result: this.candidatesOf(child) }))
+          .filter(({ result }) => result !== undefined);
+        if (results.length === 0) return undefined;
+        const positives = results
+          .filter(({ child }) => child.type !== 'not')
+          .map(({ result }) => result);
+        if (positives.length === 0 || positives.includes(null)) return null;
+        return union(positives as Array<Set<string>>);
+      }
+    }
+  }
+
+  private evaluateNode(
+    node: QueryNode,
+    document: AnalyzedDocument,
+    allowed: Set<number> | null,
+  ): NodeResult | null {
+    switch (node.type) {
+      case 'term':
+      case 'phrase': {
+        const terms = this.analyzer.analyze(node.value);
+        if (terms.length === 0) return null;
+        return terms.length === 1 && node.type === 'term'
+          ? this.matchAnyTerm(
+              this.expand(node.value, terms[0]),
+              document,
+              allowed,
+            )
+          : this.matchPhrase(terms, document, allowed);
+      }
+      case 'not': {
+        const inner = this.evaluateNode(node.child, document, allowed);
+        if (!inner) return null;
+        return { matched: !inner.matched, messageIndexes: [], terms: [] };
+      }
+      case 'and': {
+        const results = this.evaluateChildren(node.children, document, allowed);
+        if (results.length === 0) return null;
+        return this.combine(
+          results,
+          results.every((r) => r.matched),
+        );
+      }
+      case 'or': {
+        // Negated alternatives still exclude: "a b -c" means (a OR b) NOT c.
+        const positives: NodeResult[] = [];
+        const negatives: NodeResult[] = [];
+        node.children.forEach((child) => {
+          const result = this.evaluateNode(child, document, allowed);
+          if (result) {
+            (child.type === 'not' ? negatives : positives).push(result);
+          }
+        });
+        if (positives.length + negatives.length === 0) return null;
+
+        const matched =
+          (positives.length === 0 || positives.some((r) => r.matched)) &&
+          negatives.every((r) => r.matched);
+        return this.combine(
+          positives.filter((r) => r.matched),
+          matched,
+        );
+      }
+    }
+  }
+
+  private evaluateChildren(
+    children: QueryNode[],
+    document: AnalyzedDocument,
+    allowed: Set<number> | null,
+  ): NodeResult[] {
+    return children
+      .map((child) => this.evaluateNode(child, document, allowed))
+      .filter((result): result is NodeResult => result !== null);
+  }
+
+  private combine(results: NodeResult[], matched: boolean): NodeResult {
+    return {
+      matched,
+      messageIndexes: matched ? results.flatMap((r) => r.messageIndexes) : [],
+      terms: matched ? results.flatMap((r) => r.terms) : [],
+    };
+  }
+
+  private matchAnyTerm(
+    terms: string[],
+    document: AnalyzedDocument,
+    allowed: Set<number> | null,
+  ): NodeResult {
+    const results = terms.map((term) =>
+      this.matchTerm(term, document, allowed),
+    );
+    return this.combine(
+      results.filter((r) => r.matched),
+      results.some((r) => r.matched),
+    );
+  }
+
+  private matchTerm(
+    term: string,
+    document: AnalyzedDocument,
+    allowed: Set<number> | null,
+  ): NodeResult {
+    const posting = this.index.posting(term, document.id);
+    if (!posting) {
+      return { matched: false, messageIndexes: [], terms: [] };
+    }
+
+    const messageIndexes = posting.messageIndexes.filter(
+      (index) => !allowed || allowed.has(index),
+    );
+    const inOtherFields =
+      !allowed &&
+      !!(
+        posting.frequencies.summary ||
+        posting.frequencies.topics ||
+        posting.frequencies.names
+      );
+    const matched = messageIndexes.length > 0 || inOtherFields;
+
+    return { matched, messageIndexes, terms: matched ? [term] : [] };
+  }
+
+  private matchPhrase(
+    terms: string[],
+    document: AnalyzedDocument,
+    allowed: Set<number> | null,
+  ): NodeResult {
+    const postings = terms.map((term) => this.index.posting(term, document.id));
+    if (postings.some((posting) => !posting)) {
+      return { matched: false, messageIndexes: [], terms: [] };
+    }
+
+    // Only messages holding every term can hold the phrase.
+    const candidates = postings
+      .map((posting) => new Set(posting!.messageIndexes))
+      .reduce((a, b) => new Set([...a].filter((index) => b.has(index))));
+    const messageIndexes = [...candidates].filter(
+      (index) =>
+        (!allowed || allowed.has(index)) &&
+        containsPhrase(document.messageTerms[index], terms),
+    );
+
+    const inOtherFields =
+      !allowed &&
+      document.fieldTerms.some((fieldTerms) =>
+        containsPhrase(fieldTerms, terms),
+      );
+    const matched = messageIndexes.length > 0 || inOtherFields;
+
+    return { matched, messageIndexes, terms: matched ? terms : [] };
+  }
+}
+
+function containsPhrase(terms: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= terms.length; start++) {
+    if (phrase.every((term, offset) => terms[start + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function union(ids: Iterable<string>[]): Set<string> {
+  const result = new Set<string>();
+  ids.forEach((list) => {
+    for (const id of list) result.add(id);
+  });
+  return result;
+}
+
+function intersection(ids: Iterable<string>[]): Set<string> {
+  const [first, ...rest] = ids.map((list) => new Set(list));
+  return new Set(
+    [...first].filter((id) => rest.every((other) => other.has(id))),
+  );
+}
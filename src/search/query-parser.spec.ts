@@ -0,0 +1,90 @@
+import { parseQuery, QueryParseError } from './query-parser';
+
+describe('parseQuery', () => {
+  it('parses phrases, boolean operators, exclusions and filters', () => {
+    const { root, filters } = parseQuery(
+      '"cargo adicional" AND (devolución OR reembolso) -cancelar speaker:CLIENTE to:2m',
+    );
+
+    expect(root).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [
+            { type: 'phrase', value: 'cargo adicional', position: 0 },
+            {
+              type: 'or',
+              children: [
+                { type: 'term', value: 'devolución', position: 23 },
+                { type: 'term', value: 'reembolso', position: 37 },
+              ],
+            },
+          ],
+        },
+        {
+          type: 'not',
+          child: { type: 'term', value: 'cancelar', position: 49 },
+        },
+      ],
+    });
+    expect(filters).toEqual({
+      speakers: [{ label: 'CLIENTE', position: 58 }],
+      toSeconds: 120,
+    });
+  });
+
+  it('binds AND tighter than OR and treats lowercase operators as words', () => {
+    expect(parseQuery('a OR b AND c').root).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', value: 'a', position: 0 },
+        {
+          type: 'and',
+          children: [
+            { type: 'term', value: 'b', position: 5 },
+            { type: 'term', value: 'c', position: 11 },
+          ],
+        },
+      ],
+    });
+    expect(parseQuery('and').root).toEqual({
+      type: 'term',
+      value: 'and',
+      position: 0,
+    });
+  });
+
+  it.each([
+    ['from:1m30s to:00:03:00 internet', 90, 180],
+    ['from:45 internet', 45, undefined],
+    ['to:01:30 internet', undefined, 90],
+  ])('parses the time window in %s', (query, from, to) => {
+    const { filters } = parseQuery(query);
+    expect(filters.fromSeconds).toBe(from);
+    expect(filters.toSeconds).toBe(to);
+  });
+
+  it.each([
+    ['', 'Query is empty', 0],
+    ['"cargo adicional', 'Unterminated phrase starting at position 0', 0],
+    ['(devolución OR reembolso', "Missing ')' for the '(' at position 0", 0],
+    ['internet)', "Unexpected ')' at position 8", 8],
+    ['internet AND', "Expected a search term after 'AND' at position 9", 9],
+    ['OR internet', "'OR' at position 0 has nothing on its left", 0],
+    ['internet ()', 'Empty group at position 9', 9],
+    ['speaker:CLIENTE', 'Query must contain at least one search term', 0],
+    ['internet lang:es', "Unknown filter 'lang:' at position 9", 9],
+    ['internet to:soon', "Invalid time 'soon' for 'to:'", 9],
+    ['(internet speaker:AGENTE)', "Filter 'speaker:' at position 10", 10],
+    ['internet from:3m to:1m', 'Time window is empty', 0],
+  ])('rejects %j', (query, message, position) => {
+    expect(() => parseQuery(query)).toThrow(QueryParseError);
+    try {
+      parseQuery(query);
+    } catch (error) {
+      expect((error as QueryParseError).message).toContain(message);
+      expect((error as QueryParseError).position).toBe(position);
+    }
+  });
+});
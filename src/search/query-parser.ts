@@ -0,0 +1,353 @@
+import { parseTimestamp } from '../parsers/transcript-parser.utils';
+
+/**
+ * Search query syntax:
+ *
+ *   "cargo adicional" AND (devolución OR reembolso) -cancelar speaker:CLIENTE to:2m
+ *
+ * - words and "quoted phrases"
+ * - AND, OR, NOT (upper case) and parentheses; AND binds tighter than OR
+ * - clauses without an operator are alternatives, like OR
+ * - -word / NOT word excludes transcripts, wherever it appears in a group
+ * - speaker:<label>, from:<time> and to:<time> restrict which messages can
+ *   match; times are seconds from the start of the call (90, 90s, 2m,
+ *   1m30s, 01:30, 00:01:30)
+ */
+export type QueryNode =
+  | { type: 'term'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface QueryFilters {
+  speakers: Array<{ label: string; position: number }>;
+  fromSeconds?: number;
+  toSeconds?: number;
+}
+
+export interface ParsedQuery {
+  root: QueryNode;
+  filters: QueryFilters;
+}
+
+/** A malformed query; `position` is the offending character offset. */
+export class QueryParseError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+type LexToken =
+  | { type: 'lparen' | 'rparen' | 'minus'; position: number }
+  | { type: 'and' | 'or' | 'not'; position: number }
+  | { type: 'word' | 'phrase'; value: string; position: number }
+  | { type: 'filter'; field: string; value: string; position: number };
+
+const FILTER_FIELDS = ['speaker', 'from', 'to'];
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not',
+};
+
+export function parseQuery(query: string): ParsedQuery {
+  return new QueryParser(query).parse();
+}
+
+class QueryParser {
+  private readonly tokens: LexToken[];
+  private index = 0;
+  private depth = 0;
+  private negated = 0;
+  private readonly filters: QueryFilters = { speakers: [] };
+
+  constructor(private readonly query: string) {
+    this.tokens = lex(query);
+  }
+
+  parse(): ParsedQuery {
+    if (this.tokens.length === 0) {
+      throw new QueryParseError('Query is empty', 0);
+    }
+
+    const root = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      // parseOr only stops early on an unmatched closing parenthesis.
+      throw new QueryParseError(
+        `Unexpected ')' at position ${next.position}`,
+        next.position,
+      );
+    }
+
+    if (!root) {
+      throw new QueryParseError(
+        'Query must contain at least one search term besides filters',
+        0,
+      );
+    }
+
+    const { fromSeconds, toSeconds } = this.filters;
+    if (
+      fromSeconds !== undefined &&
+      toSeconds !== undefined &&
+      fromSeconds >= toSeconds
+    ) {
+      throw new QueryParseError(
+        `Time window is empty: from:${fromSeconds}s is not before to:${toSeconds}s`,
+        0,
+      );
+    }
+
+    return { root, filters: this.filters };
+  }
+
+  private parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+
+    while (this.peek() && this.peek()!.type !== 'rparen') {
+      const token = this.peek()!;
+      if (token.type === 'or') {
+        if (children.length === 0) {
+          throw new QueryParseError(
+            `'OR' at position ${token.position} has nothing on its left`,
+            token.position,
+          );
+        }
+        this.index++;
+        this.expectOperand(token, 'OR');
+        continue;
+      }
+      if (token.type === 'and') {
+        throw new QueryParseError(
+          `'AND' at position ${token.position} has nothing on its left`,
+          token.position,
+        );
+      }
+
+      const clause = this.parseAnd();
+      if (clause) children.push(clause);
+    }
+
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode | null {
+    const first = this.parseUnary();
+    const children = first ? [first] : [];
+
+    while (this.peek()?.type === 'and') {
+      const operator = this.tokens[this.index++];
+      this.expectOperand(operator, 'AND');
+      const next = this.parseUnary();
+      if (!next || !first) {
+        throw new QueryParseError(
+          `'AND' at position ${operator.position} must join two search terms, not filters`,
+          operator.position,
+        );
+      }
+      children.push(next);
+    }
+
+    if (children.length <= 1) return children[0] ?? null;
+    return { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.tokens[this.index++];
+
+    switch (token.type) {
+      case 'not':
+      case 'minus': {
+        this.expectOperand(token, token.type === 'not' ? 'NOT' : '-');
+        this.negated++;
+        const child = this.parseUnary();
+        this.negated--;
+        if (!child) {
+          throw new QueryParseError(
+            `Cannot negate a filter at position ${token.position}`,
+            token.position,
+          );
+        }
+        return { type: 'not', child };
+      }
+      case 'lparen': {
+        this.depth++;
+        const inner = this.parseOr();
+        this.depth--;
+        if (this.peek()?.type !== 'rparen') {
+          throw new QueryParseError(
+            `Missing ')' for the '(' at position ${token.position}`,
+            token.position,
+          );
+        }
+        this.index++;
+        if (!inner) {
+          throw new QueryParseError(
+            `Empty group at position ${token.position}`,
+            token.position,
+          );
+        }
+        return inner;
+      }
+      case 'word':
+        return { type: 'term', value: token.value, position: token.position };
+      case 'phrase':
+        return {
+          type: 'phrase',
+          value: token.value,
+          position: token.position,
+        };
+      case 'filter':
+        this.applyFilter(token);
+        return null;
+      default:
+        throw new QueryParseError(
+          `Unexpected '${this.query.slice(token.position).split(/\s/)[0]}' at position ${token.position}`,
+          token.position,
+        );
+    }
+  }
+
+  private applyFilter(token: Extract<LexToken, { type: 'filter' }>): void {
+    if (this.depth > 0 || this.negated > 0) {
+      throw new QueryParseError(
+        `Filter '${token.field}:' at position ${token.position} must be at the top level of the query`,
+        token.position,
+      );
+    }
+
+    if (token.field === 'speaker') {
+      this.filters.speakers.push({
+        label: token.value,
+        position: token.position,
+      });
+      return;
+    }
+
+    const seconds = parseDuration(token.value);
+    if (seconds === null) {
+      throw new QueryParseError(
+        `Invalid time '${token.value}' for '${token.field}:' at position ${token.position}; use seconds, 2m, 1m30s or mm:ss`,
+        token.position,
+      );
+    }
+    if (token.field === 'from') {
+      this.filters.fromSeconds = seconds;
+    } else {
+      this.filters.toSeconds = seconds;
+    }
+  }
+
+  private expectOperand(operator: LexToken, name: string): void {
+    const next = this.peek();
+    if (
+      !next ||
+      next.type === 'rparen' ||
+      next.type === 'and' ||
+      next.type === 'or'
+    ) {
+      throw new QueryParseError(
+        `Expected a search term after '${name}' at position ${operator.position}`,
+        operator.position,
+      );
+    }
+  }
+
+  private peek(): LexToken | undefined {
+    return this.tokens[this.index];
+  }
+}
+
+function lex(query: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readPhrase(query, i);
+      tokens.push({ type: 'phrase', value, position: i });
+      i = end;
+    } else if (char === '-' && /[^\s)-]/.test(query[i + 1] ?? ' ')) {
+      tokens.push({ type: 'minus', position: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+      const word = query.slice(start, i);
+
+      const filter = /^([\p{L}]+):(.*)$/u.exec(word);
+      if (filter) {
+        const field = filter[1].toLowerCase();
+        if (!FILTER_FIELDS.includes(field)) {
+          throw new QueryParseError(
+            `Unknown filter '${filter[1]}:' at position ${start}; expected one of ${FILTER_FIELDS.map((f) => `${f}:`).join(', ')}`,
+            start,
+          );
+        }
+
+        let value = filter[2];
+        if (!value && query[i] === '"') {
+          const phrase = readPhrase(query, i);
+          value = phrase.value;
+          i = phrase.end;
+        }
+        if (!value) {
+          throw new QueryParseError(
+            `Missing value for '${field}:' at position ${start}`,
+            start,
+          );
+        }
+        tokens.push({ type: 'filter', field, value, position: start });
+      } else if (OPERATORS[word]) {
+        tokens.push({ type: OPERATORS[word], position: start });
+      } else {
+        tokens.push({ type: 'word', value: word, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function readPhrase(
+  query: string,
+  start: number,
+): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QueryParseError(
+      `Unterminated phrase starting at position ${start}`,
+      start,
+    );
+  }
+
+  const value = query.slice(start + 1, close).trim();
+  if (!value) {
+    throw new QueryParseError(`Empty phrase at position ${start}`, start);
+  }
+  return { value, end: close + 1 };
+}
+
+/** Accepts 90, 90s, 2m, 1m30s, 1h, 01:30 or 00:01:30. */
+function parseDuration(value: string): number | null {
+  const units = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/i.exec(value);
+  if (units && (units[1] || units[2] || units[3])) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+  return parseTimestamp(value);
+}
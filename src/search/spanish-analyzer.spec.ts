@@ -0,0 +1,46 @@
+import { parseSynonyms, SpanishAnalyzer } from './spanish-analyzer';
+import { stemSpanish } from './spanish-stemmer';
+
+describe('SpanishAnalyzer', () => {
+  const analyzer = new SpanishAnalyzer(parseSynonyms('factura,boleta'));
+
+  it.each([
+    ['facturación', 'facturacion'],
+    ['cobros', 'cobro'],
+    ['problemas', 'problema'],
+    ['conexiones', 'conexión'],
+    ['técnicos', 'tecnica'],
+    ['boletas', 'factura'],
+  ])('analyzes "%s" and "%s" to the same term', (left, right) => {
+    expect(analyzer.analyze(left)).toEqual(analyzer.analyze(right));
+  });
+
+  it('drops stop words and keeps offsets into the original text', () => {
+    const tokens = analyzer.analyzeWithOffsets('Tengo un cobro en mi Boleta');
+
+    expect(tokens).toEqual([
+      { text: 'cobro', start: 9, end: 14, term: 'cobr' },
+      { text: 'Boleta', start: 21, end: 27, term: 'factur' },
+    ]);
+  });
+
+  it('parses synonym groups and ignores single words', () => {
+    expect(parseSynonyms(' boleta, factura ;celular,movil; solo')).toEqual([
+      ['boleta', 'factura'],
+      ['celular', 'movil'],
+    ]);
+  });
+});
+
+describe('stemSpanish', () => {
+  it.each([
+    ['facturacion', 'factur'],
+    ['instalaciones', 'instal'],
+    ['rapidamente', 'rapid'],
+    ['portabilidad', 'portabil'],
+    ['llamando', 'llam'],
+    ['quedarse', 'qued'],
+  ])('stems %s to %s', (word, stem) => {
+    expect(stemSpanish(word)).toBe(stem);
+  });
+});
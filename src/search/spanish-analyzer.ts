@@ -0,0 +1,80 @@
+import { stemSpanish } from './spanish-stemmer';
+import { Token, tokenizeWithOffsets } from './tokenizer';
+
+// Accent-folded, so they match whatever the speaker or the user typed.
+const STOP_WORDS = new Set(
+  'a al algo algun alguna algunas alguno algunos ante antes aqui asi bien como con contra cual cuando de del desde donde durante e el ella ellas ello ellos en entre era eran eres es esa esas ese eso esos esta estaba estado estamos estan estar estas este esto estos estoy fue fueron fui ha habia han has hasta hay he la las le les lo los me mi mis mas mucho muy nada ni no nos nosotros o otra otro otros para pero poco por porque pues que quien se sea ser si sin sobre solo soy su sus tambien te tengo ti tiene tu tus un una uno unos usted ustedes vosotros y ya yo'.split(
+    ' ',
+  ),
+);
+
+export interface AnalyzedToken extends Token {
+  /** Index term: folded, stemmed and mapped to its synonym group. */
+  term: string;
+}
+
+export function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export const DEFAULT_SYNONYMS = 'factura,boleta;celular,movil';
+
+/** Parses "boleta,factura;celular,movil" into synonym groups. */
+export function parseSynonyms(configured: string): string[][] {
+  return configured
+    .split(';')
+    .map((group) =>
+      group
+        .split(',')
+        .map((word) => word.trim())
+        .filter(Boolean),
+    )
+    .filter((group) => group.length > 1);
+}
+
+/**
+ * Analysis chain shared by indexing and querying: tokenize, lowercase,
+ * fold accents, drop stop words, stem, then map synonyms onto the first
+ * word of their group. Both sides must use the same chain for terms to meet.
+ */
+export class SpanishAnalyzer {
+  private readonly synonyms = new Map<string, string>();
+
+  constructor(synonymGroups: string[][] = []) {
+    for (const group of synonymGroups) {
+      const [canonical, ...others] = group.map((word) => this.stem(word));
+      for (const other of others) {
+        this.synonyms.set(other, canonical);
+      }
+    }
+  }
+
+  analyze(text: string): string[] {
+    return this.analyzeWithOffsets(text).map((token) => token.term);
+  }
+
+  analyzeWithOffsets(text: string): AnalyzedToken[] {
+    const tokens: AnalyzedToken[] = [];
+    for (const token of tokenizeWithOffsets(text)) {
+      const term = this.normalize(token.text);
+      if (term) {
+        tokens.push({ ...token, term });
+      }
+    }
+    return tokens;
+  }
+
+  /** The index term for a single word, or null for stop words. */
+  normalize(word: string): string | null {
+    const folded = foldAccents(word.toLowerCase());
+    if (STOP_WORDS.has(folded)) {
+      return null;
+    }
+    const stem = stemSpanish(folded);
+    return this.synonyms.get(stem) ?? stem;
+  }
+
+  private stem(word: string): string {
+    return stemSpanish(foldAccents(word.toLowerCase()));
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Snowball Spanish stemmer working on accent-folded, lowercase words.
+ * Folding happens before stemming so "facturacion" typed without accents
+ * stems like "facturación"; the suffix lists are folded to match.
+ * See https://snowballstem.org/algorithms/spanish/stemmer.html
+ */
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u']);
+
+const ATTACHED_PRONOUNS = byLength(
+  words('me se sela selo selas selos la le lo las les los nos'),
+);
+const PRONOUN_HOSTS = byLength(words('iendo ando ar er ir'));
+
+const STEP1 = {
+  deleteR2: words(
+    'anza anzas ico ica icos icas ismo ismos able ables ible ibles ista istas oso osa osos osas amiento amientos imiento imientos',
+  ),
+  deleteR2ThenIc: words(
+    'adora ador acion adoras adores aciones ante antes ancia ancias',
+  ),
+  log: words('logia logias'),
+  u: words('ucion uciones'),
+  ente: words('encia encias'),
+  amente: words('amente'),
+  mente: words('mente'),
+  idad: words('idad idades'),
+  iva: words('iva ivo ivas ivos'),
+};
+const STEP1_SUFFIXES = byLength(Object.values(STEP1).flat());
+
+const STEP2A = byLength(
+  words('ya ye yan yen yeron yendo yo yas yes yais yamos'),
+);
+const STEP2B_GU = words('en es eis emos');
+const STEP2B = byLength([
+  ...STEP2B_GU,
+  ...words(
+    'arian arias aran aras ariais aria areis ariamos aremos ara are erian erias eran eras eriais eria ereis eriamos eremos era ere irian irias iran iras iriais iria ireis iriamos iremos ira ire aba ada ida ia iera ad ed id ase iese aste iste an aban ian ieran asen iesen aron ieron ado ido ando iendo io ar er ir as abas adas idas ias ieras ases ieses is ais abais iais arais ierais aseis ieseis asteis isteis ados idos amos abamos iamos imos aramos ieramos iesemos asemos',
+  ),
+]);
+const STEP3 = byLength(['os', 'a', 'o']);
+
+export function stemSpanish(word: string): string {
+  if (word.length < 3) {
+    return word;
+  }
+
+  let stem = removeAttachedPronoun(word, regions(word).rv);
+  const { rv, r1, r2 } = regions(stem);
+
+  const step1 = standardSuffix(stem, r1, r2);
+  if (step1 !== stem) {
+    stem = step1;
+  } else {
+    const verb = verbSuffix(stem, rv);
+    if (verb !== stem) {
+      stem = verb;
+    }
+  }
+
+  return residualSuffix(stem, regions(stem).rv);
+}
+
+function removeAttachedPronoun(word: string, rv: number): string {
+  const pronoun = longestSuffix(word, ATTACHED_PRONOUNS);
+  if (!pronoun || word.length - pronoun.length < rv) {
+    return word;
+  }
+
+  const rest = word.slice(0, -pronoun.length);
+  const host = longestSuffix(rest, PRONOUN_HOSTS);
+  if (host && rest.length - host.length >= rv) {
+    return rest;
+  }
+  if (rest.endsWith('uyendo') && rest.length - 5 >= rv) {
+    return rest;
+  }
+  return word;
+}
+
+function standardSuffix(word: string, r1: number, r2: number): string {
+  const suffix = longestSuffix(word, STEP1_SUFFIXES);
+  if (!suffix) {
+    return word;
+  }
+
+  const start = word.length - suffix.length;
+  const inR2 = start >= r2;
+  const stem = word.slice(0, start);
+  const dropInR2 = (value: string, ending: string) =>
+    value.endsWith(ending) && value.length - ending.length >= r2
+      ? value.slice(0, -ending.length)
+      : value;
+
+  if (STEP1.amente.includes(suffix)) {
+    if (start < r1) return word;
+    if (stem.endsWith('iv') && stem.length - 2 >= r2) {
+      return dropInR2(stem.slice(0, -2), 'at');
+    }
+    for (const ending of words('os ic ad')) {
+      if (stem.endsWith(ending)) return dropInR2(stem, ending);
+    }
+    return stem;
+  }
+
+  if (!inR2) {
+    return word;
+  }
+
+  if (STEP1.deleteR2.includes(suffix)) return stem;
+  if (STEP1.deleteR2ThenIc.includes(suffix)) return dropInR2(stem, 'ic');
+  if (STEP1.log.includes(suffix)) return `${stem}log`;
+  if (STEP1.u.includes(suffix)) return `${stem}u`;
+  if (STEP1.ente.includes(suffix)) return `${stem}ente`;
+  if (STEP1.mente.includes(suffix)) {
+    for (const ending of words('ante able ible')) {
+      if (stem.endsWith(ending)) return dropInR2(stem, ending);
+    }
+    return stem;
+  }
+  if (STEP1.idad.includes(suffix)) {
+    for (const ending of words('abil ic iv')) {
+      if (stem.endsWith(ending)) return dropInR2(stem, ending);
+    }
+    return stem;
+  }
+  return dropInR2(stem, 'at');
+}
+
+function verbSuffix(word: string, rv: number): string {
+  const y = longestSuffix(word, STEP2A);
+  if (
+    y &&
+    word.length - y.length >= rv &&
+    word[word.length - y.length - 1] === 'u'
+  ) {
+    return word.slice(0, -y.length);
+  }
+
+  const suffix = longestSuffix(word, STEP2B);
+  if (!suffix || word.length - suffix.length < rv) {
+    return word;
+  }
+
+  const stem = word.slice(0, -suffix.length);
+  if (STEP2B_GU.includes(suffix) && stem.endsWith('gu')) {
+    return stem.slice(0, -1);
+  }
+  return stem;
+}
+
+function residualSuffix(word: string, rv: number): string {
+  const suffix = longestSuffix(word, STEP3);
+  if (suffix && word.length - suffix.length >= rv) {
+    return word.slice(0, -suffix.length);
+  }
+
+  if (word.endsWith('e') && word.length - 1 >= rv) {
+    const stem = word.slice(0, -1);
+    return stem.endsWith('gu') && stem.length - 1 >= rv
+      ? stem.slice(0, -1)
+      : stem;
+  }
+  return word;
+}
+
+function regions(word: string): { rv: number; r1: number; r2: number } {
+  const isVowel = (index: number) => VOWELS.has(word[index]);
+  const afterNext = (from: number, wantVowel: boolean) => {
+    for (let i = from; i < word.length; i++) {
+      if (isVowel(i) === wantVowel) return i + 1;
+    }
+    return word.length;
+  };
+  const afterVowelConsonant = (from: number) => {
+    for (let i = Math.max(from, 1); i < word.length; i++) {
+      if (!isVowel(i) && isVowel(i - 1)) return i + 1;
+    }
+    return word.length;
+  };
+
+  let rv = word.length;
+  if (word.length >= 2) {
+    if (!isVowel(1)) {
+      rv = afterNext(2, true);
+    } else if (isVowel(0)) {
+      rv = afterNext(2, false);
+    } else {
+      rv = Math.min(3, word.length);
+    }
+  }
+
+  const r1 = afterVowelConsonant(1);
+  const r2 = afterVowelConsonant(r1 + 1);
+  return { rv, r1, r2 };
+}
+
+function longestSuffix(word: string, suffixes: string[]): string | undefined {
+  return suffixes.find((suffix) => word.endsWith(suffix));
+}
+
+function words(list: string): string[] {
+  return list.trim().split(/\s+/);
+}
+
+function byLength(suffixes: string[]): string[] {
+  return Array.from(new Set(suffixes)).sort((a, b) => b.length - a.length);
+}
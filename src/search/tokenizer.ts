@@ -0,0 +1,22 @@
+const TOKEN_PATTERN = /\p{L}[\p{L}\p{N}]*|\p{N}+/gu;
+
+export interface Token {
+  text: string;
+  /** Character offsets in the original text, end exclusive. */
+  start: number;
+  end: number;
+}
+
+/** Words and numbers with their offsets, in order of appearance. */
+export function tokenizeWithOffsets(text: string): Token[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (match) => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/** Lowercased words and numbers, in order of appearance. */
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map((token) => token.text.toLowerCase());
+}
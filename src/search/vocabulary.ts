@@ -0,0 +1,165 @@
+import { allowedEdits, editDistance } from './edit-distance';
+import { AnalyzedToken, foldAccents } from './spanish-analyzer';
+
+export interface VocabularyEntry {
+  /** Lowercased word as written, accents included. */
+  word: string;
+  /** Index term the word analyzes to. */
+  term: string;
+  documentFrequency: number;
+  /**
+   * Never seen in lower case, which in these conversations almost always
+   * means a person's name; kept out of suggestions.
+   */
+  properNoun: boolean;
+}
+
+interface WordStats {
+  term: string;
+  folded: string;
+  documents: number;
+  /** Documents where the word also appears in lower case. */
+  lowercaseDocuments: number;
+}
+
+/**
+ * The surface words of the indexed text, with document frequencies. Index
+ * terms are stems, which are no use for showing a correction or completing
+ * a prefix, so the words themselves are tracked alongside the index.
+ */
+export class Vocabulary {
+  private readonly words = new Map<string, WordStats>();
+  private readonly documents = new Map<string, Map<string, boolean>>();
+
+  get size(): number {
+    return this.words.size;
+  }
+
+  add(id: string, tokens: AnalyzedToken[]): void {
+    this.remove(id);
+
+    // word → seen in lower case in this document
+    const seen = new Map<string, boolean>();
+    for (const token of tokens) {
+      if (!/\p{L}/u.test(token.text)) continue;
+      const word = token.text.toLowerCase();
+      seen.set(word, seen.get(word) || token.text === word);
+
+      if (!this.words.has(word)) {
+        this.words.set(word, {
+          term: token.term,
+          folded: foldAccents(word),
+          documents: 0,
+          lowercaseDocuments: 0,
+        });
+      }
+    }
+
+    seen.forEach((lowercase, word) => {
+      const stats = this.words.get(word)!;
+      stats.documents++;
+      if (lowercase) stats.lowercaseDocuments++;
+    });
+    this.documents.set(id, seen);
+  }
+
+  remove(id: string): void {
+    const seen = this.documents.get(id);
+    if (!seen) return;
+
+    seen.forEach((lowercase, word) => {
+      const stats = this.words.get(word)!;
+      stats.documents--;
+      if (lowercase) stats.lowercaseDocuments--;
+      if (stats.documents === 0) this.words.delete(word);
+    });
+    this.documents.delete(id);
+  }
+
+  clear(): void {
+    this.words.clear();
+    this.documents.clear();
+  }
+
+  get(word: string): VocabularyEntry | undefined {
+    const key = word.toLowerCase();
+    const stats = this.words.get(key);
+    return stats && toEntry(key, stats);
+  }
+
+  /**
+   * Words at the smallest distance from `word` within the edits allowed
+   * for its length, most frequent first. The word itself is never returned.
+   */
+  closest(word: string, maxDistance: number): VocabularyEntry[] {
+    const folded = foldAccents(word.toLowerCase());
+    let max = allowedEdits(folded, maxDistance);
+    if (max === 0) return [];
+
+    let closest: VocabularyEntry[] = [];
+    this.words.forEach((stats, key) => {
+      if (stats.folded === folded) return;
+      const distance = editDistance(folded, stats.folded, max);
+      if (distance < max) {
+        max = distance;
+        closest = [];
+      }
+      if (distance <= max) {
+        closest.push(toEntry(key, stats));
+      }
+    });
+
+    return closest.sort((a, b) => b.documentFrequency - a.documentFrequency);
+  }
+
+  /**
+   * The most frequent common word for each index term, for showing stems
+   * to people. Terms only ever written as proper nouns map to null.
+   */
+  wordsByTerm(): Map<string, string | null> {
+    const best = new Map<string, { word: string; documents: number }>();
+    const terms = new Map<string, string | null>();
+
+    this.words.forEach((stats, word) => {
+      if (!terms.has(stats.term)) terms.set(stats.term, null);
+      if (stats.lowercaseDocuments === 0) return;
+
+      const current = best.get(stats.term);
+      if (!current || stats.documents > current.documents) {
+        best.set(stats.term, { word, documents: stats.documents });
+        terms.set(stats.term, word);
+      }
+    });
+
+    return terms;
+  }
+
+  /** Common words starting with `prefix`, accents ignored, most frequent first. */
+  complete(prefix: string, limit: number): VocabularyEntry[] {
+    const folded = foldAccents(prefix.toLowerCase());
+    const matches: VocabularyEntry[] = [];
+
+    this.words.forEach((stats, key) => {
+      if (stats.lowercaseDocuments > 0 && stats.folded.startsWith(folded)) {
+        matches.push(toEntry(key, stats));
+      }
+    });
+
+    return matches
+      .sort(
+        (a, b) =>
+          b.documentFrequency - a.documentFrequency ||
+          a.word.localeCompare(b.word),
+      )
+      .slice(0, limit);
+  }
+}
+
+function toEntry(word: string, stats: WordStats): VocabularyEntry {
+  return {
+    word,
+    term: stats.term,
+    documentFrequency: stats.documents,
+    properNoun: stats.lowercaseDocuments === 0,
+  };
+}
@@ -0,0 +1,232 @@
+import { ConfigService } from '@nestjs/config';
+import { AiBudgetExceededError, AiBudgetService } from './ai-budget.service';
+import { InMemoryAiUsageLedgerRepository } from '../repositories/in-memory-ai-usage-ledger.repository';
+import {
+  AiCostEstimate,
+  AiLedgerEntry,
+} from '../interfaces/ai-usage.interface';
+import { LlmOperation } from '../llm/llm.provider';
+
+const NOW = new Date('2025-09-15T12:00:00Z');
+
+function entry(
+  timestamp: string,
+  cost: number,
+  operation: LlmOperation = 'classify',
+): AiLedgerEntry {
+  return {
+    timestamp,
+    operation,
+    transcriptId: 'sample_01',
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    promptTokens: 1000,
+    cachedPromptTokens: 0,
+    completionTokens: 100,
+    totalTokens: 1100,
+    cost,
+    priced: true,
+  };
+}
+
+function estimate(
+  byOperation: Partial<Record<LlmOperation, number>>,
+): AiCostEstimate {
+  return {
+    model: 'gpt-4o-mini',
+    promptTokens: 1000,
+    completionTokens: 100,
+    estimatedCost: Object.values(byOperation).reduce((a, b) => a + b, 0),
+    byOperation,
+  };
+}
+
+async function budgetService(
+  env: Record<string, string>,
+  entries: AiLedgerEntry[] = [],
+) {
+  const ledger = new InMemoryAiUsageLedgerRepository();
+  entries.forEach((existing) => ledger.append(existing));
+  const service = new AiBudgetService(new ConfigService(env), ledger);
+  await service.onModuleInit();
+  return { service, ledger };
+}
+
+describe('AiBudgetService', () => {
+  it('counts past spend towards the current day and month only', async () => {
+    const { service } = await budgetService(
+      { AI_BUDGET_DAILY_USD: '1', AI_BUDGET_MONTHLY_USD: '10' },
+      [
+        entry('2025-08-31T23:59:00Z', 5),
+        entry('2025-09-14T10:00:00Z', 2),
+        entry('2025-09-15T09:00:00Z', 0.5),
+      ],
+    );
+
+    expect(service.getBudgets(NOW)).toEqual([
+      {
+        scope: 'daily',
+        period: '2025-09-15',
+        limit: 1,
+        spent: 0.5,
+        remaining: 0.5,
+        state: 'ok',
+      },
+      {
+        scope: 'monthly',
+        period: '2025-09',
+        limit: 10,
+        spent: 2.5,
+        remaining: 7.5,
+        state: 'ok',
+      },
+    ]);
+  });
+
+  it('warns past the warning ratio and refuses past the hard stop', async () => {
+    const { service } = await budgetService(
+      { AI_BUDGET_DAILY_USD: '1', AI_BUDGET_MONTHLY_USD: '0' },
+      [entry('2025-09-15T09:00:00Z', 0.7)],
+    );
+
+    const warning = service.check(estimate({ classify: 0.2 }), NOW);
+    expect(warning.allowed).toBe(true);
+    expect(warning.warnings.map((status) => status.scope)).toEqual(['daily']);
+
+    const refused = service.check(estimate({ classify: 0.4 }), NOW);
+    expect(refused.allowed).toBe(false);
+    expect(refused.exceeded.map((status) => status.scope)).toEqual(['daily']);
+  });
+
+  it('lets spend overshoot a budget up to the hard-stop ratio', async () => {
+    const { service } = await budgetService(
+      { AI_BUDGET_DAILY_USD: '1', AI_BUDGET_HARD_STOP_RATIO: '1.2' },
+      [entry('2025-09-15T09:00:00Z', 0.9)],
+    );
+
+    expect(service.check(estimate({ classify: 0.25 }), NOW).allowed).toBe(true);
+    expect(service.check(estimate({ classify: 0.35 }), NOW).allowed).toBe(
+      false,
+    );
+  });
+
+  it('applies operation budgets only to their own operation', async () => {
+    const { service } = await budgetService(
+      {
+        AI_BUDGET_MONTHLY_USD: '100',
+        AI_BUDGET_OPERATIONS_USD: 'summarize:1, bogus:3, classify:-1',
+      },
+      [entry('2025-09-10T09:00:00Z', 0.9, 'summarize')],
+    );
+
+    expect(service.getBudgets(NOW).map((status) => status.scope)).toEqual([
+      'monthly',
+      'operation',
+    ]);
+    expect(service.check(estimate({ classify: 5 }), NOW).allowed).toBe(true);
+
+    const refused = service.check(estimate({ summarize: 0.2 }), NOW);
+    expect(refused.allowed).toBe(false);
+    expect(refused.exceeded[0]).toMatchObject({
+      scope: 'operation',
+      operation: 'summarize',
+      spent: 0.9,
+    });
+  });
+
+  it('defaults to a monthly budget of $5', async () => {
+    const { service } = await budgetService({});
+
+    expect(service.getBudgets(NOW)).toMatchObject([
+      { scope: 'monthly', limit: 5, spent: 0 },
+    ]);
+  });
+
+  it('appends recorded calls to the ledger and counts them at once', async () => {
+    const { service, ledger } = await budgetService({
+      AI_BUDGET_DAILY_USD: '1',
+    });
+
+    service.record(entry(new Date().toISOString(), 0.6));
+
+    expect(ledger.findAll()).toHaveLength(1);
+    expect(service.getBudgets()[0]).toMatchObject({
+      scope: 'daily',
+      spent: 0.6,
+    });
+  });
+
+  it('holds the cost of calls in flight until they are released', async () => {
+    const { service } = await budgetService({ AI_BUDGET_DAILY_USD: '1' });
+
+    const first = service.reserve('classify', 0.6, NOW);
+    expect(() => service.reserve('summarize', 0.6, NOW)).toThrow(
+      AiBudgetExceededError,
+    );
+    expect(service.getBudgets(NOW)[0]).toMatchObject({ spent: 0 });
+
+    service.release(first);
+    expect(service.reserve('summarize', 0.6, NOW).cost).toBe(0.6);
+  });
+
+  it('refuses calls once spend has reached a hard stop', async () => {
+    const { service } = await budgetService(
+      { AI_BUDGET_MONTHLY_USD: '100', AI_BUDGET_OPERATIONS_USD: 'summarize:1' },
+      [entry('2025-09-10T09:00:00Z', 1.2, 'summarize')],
+    );
+
+    expect(service.reserve('classify', 0, NOW).cost).toBe(0);
+    try {
+      service.reserve('summarize', 0, NOW);
+      throw new Error('The call was not refused');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AiBudgetExceededError);
+      expect((error as AiBudgetExceededError).exceeded).toMatchObject([
+        { scope: 'operation', operation: 'summarize', spent: 1.2 },
+      ]);
+    }
+  });
+
+  it('reports usage history filtered by date and operation', async () => {
+    const { service } = await budgetService({}, [
+      entry('2025-09-01T08:00:00Z', 0.1),
+      entry('2025-09-01T20:00:00Z', 0.2, 'summarize'),
+      entry('2025-09-02T08:00:00Z', 0.3),
+      entry('2025-10-01T08:00:00Z', 0.4),
+    ]);
+
+    const september = service.getReport({
+      from: '2025-09-01',
+      to: '2025-09-30',
+    });
+    expect(september.totals.calls).toBe(3);
+    expect(
+      september.history.map(({ period, calls }) => [period, calls]),
+    ).toEqual([
+      ['2025-09-01', 2],
+      ['2025-09-02', 1],
+    ]);
+    expect(september.byOperation.summarize?.cost).toBe(0.2);
+
+    const monthly = service.getReport({ operation: 'classify' }, 'month');
+    expect(monthly.history.map(({ period, calls }) => [period, calls])).toEqual(
+      [
+        ['2025-09', 2],
+        ['2025-10', 1],
+      ],
+    );
+  });
+
+  it('exports one CSV row per call', async () => {
+    const { service } = await budgetService({});
+    const row = { ...entry('2025-09-01T08:00:00Z', 0.000123), model: 'a,b' };
+
+    expect(service.toCsv([row])).toBe(
+      [
+        'timestamp,operation,transcriptId,provider,model,promptTokens,cachedPromptTokens,completionTokens,totalTokens,cost,priced',
+        '2025-09-01T08:00:00Z,classify,sample_01,openai,"a,b",1000,0,100,1100,0.00012300,true',
+        '',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,387 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_OPERATIONS, LlmOperation } from '../llm/llm.provider';
+import { AiUsageLedgerRepository } from '../repositories/ai-usage-ledger.repository';
+import {
+  AiBudgetCheck,
+  AiBudgetScope,
+  AiBudgetState,
+  AiBudgetStatus,
+  AiCostEstimate,
+  AiLedgerEntry,
+  AiUsageFilter,
+  AiUsageGranularity,
+  AiUsageReport,
+  AiUsageTotals,
+} from '../interfaces/ai-usage.interface';
+
+/** A call refused because it would take spend past a hard stop. */
+export class AiBudgetExceededError extends Error {
+  constructor(readonly exceeded: AiBudgetStatus[]) {
+    super(
+      `AI budget exceeded: ${exceeded.map((status) => `${status.operation ?? status.scope} ${status.period}`).join(', ')}`,
+    );
+    this.name = 'AiBudgetExceededError';
+  }
+}
+
+/** The estimated cost of a call in flight, held until it is recorded. */
+export interface AiBudgetReservation {
+  operation: LlmOperation;
+  cost: number;
+  reservedAt: Date;
+}
+
+interface Budget {
+  scope: AiBudgetScope;
+  operation?: LlmOperation;
+  limit: number;
+}
+
+const CSV_COLUMNS: Array<keyof AiLedgerEntry> = [
+  'timestamp',
+  'operation',
+  'transcriptId',
+  'provider',
+  'model',
+  'promptTokens',
+  'cachedPromptTokens',
+  'completionTokens',
+  'totalTokens',
+  'cost',
+  'priced',
+];
+
+/**
+ * Records every LLM call in the persisted usage ledger and enforces the
+ * spend budgets: AI_BUDGET_DAILY_USD and AI_BUDGET_MONTHLY_USD over all
+ * calls, and AI_BUDGET_OPERATIONS_USD per operation and month. Periods are
+ * UTC calendar days and months, as on the OpenAI invoice. Spend past
+ * AI_BUDGET_WARN_RATIO of a budget is logged; operations that would take
+ * spend past AI_BUDGET_HARD_STOP_RATIO of a budget are refused up front,
+ * and every provider call is checked again before it is sent.
+ */
+@Injectable()
+export class AiBudgetService implements OnModuleInit {
+  private readonly logger = new Logger(AiBudgetService.name);
+  private readonly budgets: Budget[] = [];
+  private readonly warnRatio: number;
+  private readonly hardStopRatio: number;
+  /** Spend per budget and period, kept up to date as calls are recorded. */
+  private readonly spend = new Map<string, number>();
+  /** Estimated cost of the calls in flight, per budget and period. */
+  private readonly pending = new Map<string, number>();
+  /** Budget, period and state already logged, so each is logged once. */
+  private readonly logged = new Set<string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly repository: AiUsageLedgerRepository,
+  ) {
+    // A limit of 0, or left empty, means no limit.
+    const limit = (key: string, fallback?: number) => {
+      const value = Number(this.configService.get<string>(key) ?? fallback);
+      return Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+
+    const daily = limit('AI_BUDGET_DAILY_USD');
+    if (daily !== undefined) {
+      this.budgets.push({ scope: 'daily', limit: daily });
+    }
+    const monthly = limit('AI_BUDGET_MONTHLY_USD', 5);
+    if (monthly !== undefined) {
+      this.budgets.push({ scope: 'monthly', limit: monthly });
+    }
+    for (const [operation, operationLimit] of this.parseOperationLimits(
+      this.configService.get<string>('AI_BUDGET_OPERATIONS_USD'),
+    )) {
+      this.budgets.push({
+        scope: 'operation',
+        operation,
+        limit: operationLimit,
+      });
+    }
+
+    this.warnRatio =
+      Number(this.configService.get<string>('AI_BUDGET_WARN_RATIO')) || 0.8;
+    this.hardStopRatio =
+      Number(this.configService.get<string>('AI_BUDGET_HARD_STOP_RATIO')) || 1;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.repository.load();
+    for (const entry of this.repository.findAll()) {
+      this.addSpend(entry);
+    }
+  }
+
+  record(entry: AiLedgerEntry): void {
+    this.repository.append(entry);
+    this.addSpend(entry);
+
+    const date = new Date(entry.timestamp);
+    for (const budget of this.budgets) {
+      if (!this.applies(budget, entry.operation)) continue;
+      const status = this.status(budget, date);
+      const key = `${this.key(budget, date)}|${status.state}`;
+      if (status.state === 'ok' || this.logged.has(key)) continue;
+      this.logged.add(key);
+      this.logger.warn(
+        `AI ${this.describe(budget)} budget ${status.state === 'exceeded' ? 'exceeded' : 'nearly used'}: $${status.spent.toFixed(4)} of $${status.limit.toFixed(2)} spent in ${status.period}`,
+      );
+    }
+  }
+
+  /**
+   * Checks an estimate against every budget it touches. The statuses show
+   * the spend so far and the state the budget would be in afterwards.
+   */
+  check(estimate: AiCostEstimate, now = new Date()): AiBudgetCheck {
+    return this.checkCost(
+      (budget) =>
+        budget.scope === 'operation'
+          ? estimate.byOperation[budget.operation!]
+          : estimate.estimatedCost,
+      now,
+    );
+  }
+
+  /**
+   * Holds the estimated cost of one provider call against the budgets
+   * until it is released, so concurrent calls cannot all be let through on
+   * the same remaining budget. Throws AiBudgetExceededError when the call
+   * would take spend past a hard stop.
+   */
+  reserve(
+    operation: LlmOperation,
+    cost: number,
+    now = new Date(),
+  ): AiBudgetReservation {
+    const check = this.checkCost(
+      (budget) => (this.applies(budget, operation) ? cost : undefined),
+      now,
+    );
+    if (!check.allowed) {
+      throw new AiBudgetExceededError(check.exceeded);
+    }
+
+    const reservation = { operation, cost, reservedAt: now };
+    this.addPending(reservation, cost);
+    return reservation;
+  }
+
+  /** Releases a reservation once its call is recorded or has failed. */
+  release(reservation: AiBudgetReservation): void {
+    this.addPending(reservation, -reservation.cost);
+  }
+
+  getBudgets(now = new Date()): AiBudgetStatus[] {
+    return this.budgets.map((budget) => this.status(budget, now));
+  }
+
+  getEntries(filter: AiUsageFilter = {}): AiLedgerEntry[] {
+    const from = filter.from && normalizeBound(filter.from);
+    const to = filter.to && normalizeBound(filter.to);
+
+    return this.repository.findAll().filter(
+      (entry) =>
+        (!from || entry.timestamp >= from) &&
+        // Comparing only as many characters as the bound has makes a bare
+        // date cover the whole day.
+        (!to || entry.timestamp.slice(0, to.length) <= to) &&
+        (!filter.operation || entry.operation === filter.operation) &&
+        (!filter.model || entry.model === filter.model),
+    );
+  }
+
+  getReport(
+    filter: AiUsageFilter = {},
+    granularity: AiUsageGranularity = 'day',
+  ): AiUsageReport {
+    const totals = emptyTotals();
+    const byModel = new Map<string, AiUsageTotals>();
+    const byOperation = new Map<LlmOperation, AiUsageTotals>();
+    const byPeriod = new Map<string, AiUsageTotals>();
+    const periodLength = granularity === 'day' ? 10 : 7;
+
+    for (const entry of this.getEntries(filter)) {
+      addEntry(totals, entry);
+      addEntry(totalsFor(byModel, entry.model), entry);
+      addEntry(totalsFor(byOperation, entry.operation), entry);
+      addEntry(
+        totalsFor(byPeriod, entry.timestamp.slice(0, periodLength)),
+        entry,
+      );
+    }
+
+    return {
+      totals,
+      byModel: Object.fromEntries(byModel),
+      byOperation: Object.fromEntries(byOperation),
+      history: Array.from(byPeriod.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, periodTotals]) => ({ period, ...periodTotals })),
+    };
+  }
+
+  /** One row per call, costs in USD with eight decimals. */
+  toCsv(entries: AiLedgerEntry[]): string {
+    const rows = entries.map((entry) =>
+      CSV_COLUMNS.map((column) =>
+        column === 'cost'
+          ? entry.cost.toFixed(8)
+          : csvField(String(entry[column])),
+      ).join(','),
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  private checkCost(
+    costFor: (budget: Budget) => number | undefined,
+    now: Date,
+  ): AiBudgetCheck {
+    const exceeded: AiBudgetStatus[] = [];
+    const warnings: AiBudgetStatus[] = [];
+
+    for (const budget of this.budgets) {
+      const cost = costFor(budget);
+      // Operation budgets only apply to the operations being checked.
+      if (cost === undefined) continue;
+
+      const status = this.status(budget, now, cost);
+      if (status.state === 'exceeded') {
+        exceeded.push(status);
+      } else if (status.state === 'warning') {
+        warnings.push(status);
+      }
+    }
+
+    return { allowed: exceeded.length === 0, exceeded, warnings };
+  }
+
+  private status(budget: Budget, date: Date, cost = 0): AiBudgetStatus {
+    const key = this.key(budget, date);
+    const spent = this.spend.get(key) ?? 0;
+    const projected = spent + (this.pending.get(key) ?? 0) + cost;
+    let state: AiBudgetState = 'ok';
+    if (projected > budget.limit * this.hardStopRatio) {
+      state = 'exceeded';
+    } else if (projected >= budget.limit * this.warnRatio) {
+      state = 'warning';
+    }
+
+    return {
+      scope: budget.scope,
+      ...(budget.operation && { operation: budget.operation }),
+      period: this.period(budget, date),
+      limit: budget.limit,
+      spent,
+      remaining: Math.max(0, budget.limit - spent),
+      state,
+    };
+  }
+
+  private addSpend(entry: AiLedgerEntry): void {
+    const date = new Date(entry.timestamp);
+    for (const budget of this.budgets) {
+      if (!this.applies(budget, entry.operation)) continue;
+      const key = this.key(budget, date);
+      this.spend.set(key, (this.spend.get(key) ?? 0) + entry.cost);
+    }
+  }
+
+  private addPending(reservation: AiBudgetReservation, cost: number): void {
+    for (const budget of this.budgets) {
+      if (!this.applies(budget, reservation.operation)) continue;
+      const key = this.key(budget, reservation.reservedAt);
+      const pending = (this.pending.get(key) ?? 0) + cost;
+      // Rounding leaves crumbs once every call in flight is released.
+      if (pending > 1e-12) {
+        this.pending.set(key, pending);
+      } else {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  private applies(budget: Budget, operation: LlmOperation): boolean {
+    return budget.scope !== 'operation' || budget.operation === operation;
+  }
+
+  private period(budget: Budget, date: Date): string {
+    return date.toISOString().slice(0, budget.scope === 'daily' ? 10 : 7);
+  }
+
+  private key(budget: Budget, date: Date): string {
+    return `${budget.scope}:${budget.operation ?? ''}:${this.period(budget, date)}`;
+  }
+
+  private describe(budget: Budget): string {
+    return budget.operation ? `${budget.operation} monthly` : budget.scope;
+  }
+
+  /** Parses AI_BUDGET_OPERATIONS_USD, e.g. `classify:1,summarize:0.5`. */
+  private parseOperationLimits(
+    configured: string | undefined,
+  ): Array<[LlmOperation, number]> {
+    const limits: Array<[LlmOperation, number]> = [];
+
+    for (const entry of (configured || '').split(',')) {
+      const [operation, value] = entry.split(':').map((part) => part.trim());
+      const limit = Number(value);
+      if (!operation) continue;
+
+      if (
+        !LLM_OPERATIONS.includes(operation as LlmOperation) ||
+        !Number.isFinite(limit) ||
+        limit <= 0
+      ) {
+        this.logger.warn(`Ignoring invalid operation budget "${entry}"`);
+        continue;
+      }
+      limits.push([operation as LlmOperation, limit]);
+    }
+
+    return limits;
+  }
+}
+
+function emptyTotals(): AiUsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    cachedPromptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+  };
+}
+
+function totalsFor<K>(totals: Map<K, AiUsageTotals>, key: K): AiUsageTotals {
+  let entry = totals.get(key);
+  if (!entry) {
+    entry = emptyTotals();
+    totals.set(key, entry);
+  }
+  return entry;
+}
+
+function addEntry(totals: AiUsageTotals, entry: AiLedgerEntry): void {
+  totals.calls++;
+  totals.promptTokens += entry.promptTokens;
+  totals.cachedPromptTokens += entry.cachedPromptTokens;
+  totals.completionTokens += entry.completionTokens;
+  totals.totalTokens += entry.totalTokens;
+  totals.cost += entry.cost;
+}
+
+/** Bare dates are kept as they are; timestamps are converted to UTC. */
+function normalizeBound(value: string): string {
+  return /^\d{4}-\d{2}(-\d{2})?$/.test(value)
+    ? value
+    : new Date(value).toISOString();
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -72,6 +72,42 @@ export class CacheService {
     return deleted;
   }
 
+  deleteByPrefix(prefix: string): number {
+    let removedCount = 0;
+
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+        removedCount++;
+      }
+    }
+
+    if (removedCount > 0) {
+      this.logger.debug(
+        `Cache invalidated: removed ${removedCount} entries with prefix ${prefix}`,
+      );
+    }
+
+    return removedCount;
+  }
+
+  /**
+   * Drops every cached response that depends on the set of transcripts, plus
+   * the per-transcript AI results of the given transcripts. Used whenever
+   * transcripts are added, changed or removed at runtime.
+   */
+  invalidateTranscripts(transcriptIds: string[] = []): void {
+    this.delete('statistics');
+    for (const transcriptId of transcriptIds) {
+      this.delete(`ai-classify:${transcriptId}`);
+      this.delete(`ai-summary:${transcriptId}`);
+    }
+    this.delete('ai-classify-all-transcripts');
+    this.deleteByPrefix('ai-topics:');
+    this.deleteByPrefix('search:');
+    this.deleteByPrefix('frequent-topics:');
+  }
+
   clear(): void {
     this.cache.clear();
     this.logger.debug('Cache cleared');
@@ -0,0 +1,109 @@
+import { ConfigService } from '@nestjs/config';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+
+const SCRIPT = [
+  'Buenos días, habla con el área de portabilidad, ¿en qué puedo ayudarle?',
+  'Quiero cambiar mi número desde otra compañía sin perder el plan que tengo.',
+  'Perfecto, necesito su RUT y el número que desea traer a nuestra red.',
+  'Claro, el número termina en cuatro cinco seis y el RUT se lo dicto ahora.',
+  'Gracias, la solicitud queda ingresada y el cambio tarda dos días hábiles.',
+];
+
+function transcript(
+  id: string,
+  lines: string[],
+  extra: Partial<ParsedTranscript> = {},
+): ParsedTranscript {
+  return {
+    id,
+    fileName: `${id}.txt`,
+    messages: lines.map((content, index) => ({
+      timestamp: `00:00:${String(index * 10).padStart(2, '0')}`,
+      speaker: index % 2 === 0 ? 'AGENT' : 'CLIENT',
+      speakerLabel: index % 2 === 0 ? 'AGENTE' : 'CLIENTE',
+      content,
+    })),
+    ...extra,
+  };
+}
+
+describe('DuplicateDetectionService', () => {
+  let service: DuplicateDetectionService;
+
+  beforeEach(() => {
+    service = new DuplicateDetectionService(new ConfigService({}));
+  });
+
+  it('clusters re-exports and near copies, keeping an annotated transcript', () => {
+    // Same words with other punctuation and casing, as another export would.
+    const reExport = SCRIPT.map((line) =>
+      line.toUpperCase().replace(/[,.¿?]/g, ''),
+    );
+    // A test call that ends differently.
+    const nearCopy = [
+      ...SCRIPT.slice(0, 4),
+      'Gracias, la solicitud queda ingresada y el cambio tarda dos días hábiles, le llegará un SMS.',
+    ];
+
+    service.rebuild([
+      transcript('sample_10', SCRIPT),
+      transcript('sample_02', reExport),
+      transcript('sample_30', nearCopy, { category: 'commercial_support' }),
+      transcript('sample_40', [
+        'Buenas tardes, soporte técnico.',
+        'Mi internet se corta cada diez minutos desde ayer en la noche.',
+      ]),
+    ]);
+
+    const [cluster, ...others] = service.findClusters();
+    expect(others).toEqual([]);
+    expect(cluster.canonicalId).toBe('sample_30');
+    expect(cluster.members.map((m) => m.transcriptId).sort()).toEqual([
+      'sample_02',
+      'sample_10',
+      'sample_30',
+    ]);
+    expect(service.redundantIds()).toEqual(new Set(['sample_02', 'sample_10']));
+    expect(service.nearestDuplicate('sample_02')).toEqual({
+      transcriptId: 'sample_10',
+      similarity: 1,
+    });
+  });
+
+  it('marks copies with the same words as exact', () => {
+    service.rebuild([
+      transcript('sample_01', SCRIPT),
+      transcript(
+        'sample_02',
+        SCRIPT.map((line) => `${line} `),
+      ),
+    ]);
+
+    const [cluster] = service.findClusters();
+    expect(cluster.canonicalId).toBe('sample_01');
+    expect(cluster.members[1]).toMatchObject({
+      transcriptId: 'sample_02',
+      similarity: 1,
+      exact: true,
+    });
+  });
+
+  it('drops links when a transcript is removed or rewritten', () => {
+    service.rebuild([
+      transcript('sample_01', SCRIPT),
+      transcript('sample_02', SCRIPT),
+      transcript('sample_03', SCRIPT),
+    ]);
+
+    service.removeTranscript('sample_02');
+    service.indexTranscript(
+      transcript('sample_03', [
+        'Llamo por un cargo que no reconozco en la boleta.',
+      ]),
+    );
+
+    expect(service.findClusters()).toEqual([]);
+    expect(service.nearestDuplicate('sample_01')).toBeNull();
+  });
+});
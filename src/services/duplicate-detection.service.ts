@@ -0,0 +1,230 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import {
+  DuplicateCluster,
+  ParsedTranscript,
+} from '../interfaces/transcript.interface';
+import {
+  estimateSimilarity,
+  LshIndex,
+  MinHasher,
+  normalizedWords,
+  shingles,
+} from '../search/minhash';
+
+interface Fingerprint {
+  fileName: string;
+  /** Hash of the normalized words: equal for re-exports of one call. */
+  textHash: string;
+  signature: Uint32Array;
+  annotated: boolean;
+  /** When the transcript was first fingerprinted, to keep originals. */
+  order: number;
+}
+
+const SIGNATURE_SIZE = 128;
+const ROWS_PER_BAND = 4;
+
+/**
+ * Finds transcripts that are copies of one another: re-exports of the same
+ * call (same words, other format or timestamps) and near copies such as
+ * test calls run from one script. Transcripts are fingerprinted as they are
+ * stored; pairs above DUPLICATE_SIMILARITY_THRESHOLD are linked and linked
+ * transcripts form a cluster.
+ */
+@Injectable()
+export class DuplicateDetectionService {
+  private readonly logger = new Logger(DuplicateDetectionService.name);
+  private readonly threshold: number;
+  private readonly hasher = new MinHasher(SIGNATURE_SIZE);
+  private readonly lsh = new LshIndex(ROWS_PER_BAND);
+  private readonly fingerprints = new Map<string, Fingerprint>();
+  /** id → linked id → estimated similarity */
+  private readonly links = new Map<string, Map<string, number>>();
+  private clusters: DuplicateCluster[] | null = null;
+  private nextOrder = 0;
+
+  constructor(private configService: ConfigService) {
+    const threshold = Number(
+      this.configService.get<number>('DUPLICATE_SIMILARITY_THRESHOLD', 0.8),
+    );
+    this.threshold = threshold > 0 && threshold <= 1 ? threshold : 0.8;
+  }
+
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  rebuild(transcripts: ParsedTranscript[]): void {
+    this.fingerprints.clear();
+    this.links.clear();
+    this.lsh.clear();
+    transcripts.forEach((transcript) => this.indexTranscript(transcript));
+
+    const clusters = this.findClusters();
+    this.logger.log(
+      `Duplicate detection: ${clusters.length} clusters covering ${this.redundantIds().size} redundant transcripts`,
+    );
+  }
+
+  indexTranscript(transcript: ParsedTranscript): void {
+    const words = normalizedWords(transcript.messages);
+    const textHash = createHash('sha256').update(words.join(' ')).digest('hex');
+    const annotated = !!transcript.category || !!transcript.topics?.length;
+    this.clusters = null;
+
+    // Annotation updates store the transcript again with the same words.
+    const existing = this.fingerprints.get(transcript.id);
+    if (existing?.textHash === textHash) {
+      existing.annotated = annotated;
+      existing.fileName = transcript.fileName;
+      return;
+    }
+
+    this.removeTranscript(transcript.id);
+    const signature = this.hasher.signature(shingles(words));
+    this.fingerprints.set(transcript.id, {
+      fileName: transcript.fileName,
+      textHash,
+      signature,
+      annotated,
+      order: existing?.order ?? this.nextOrder++,
+    });
+
+    this.lsh.candidates(signature).forEach((otherId) => {
+      const other = this.fingerprints.get(otherId)!;
+      const similarity =
+        other.textHash === textHash
+          ? 1
+          : estimateSimilarity(signature, other.signature);
+      if (similarity >= this.threshold) {
+        this.link(transcript.id, otherId, similarity);
+      }
+    });
+    this.lsh.add(transcript.id, signature);
+  }
+
+  removeTranscript(id: string): void {
+    if (!this.fingerprints.delete(id)) return;
+
+    this.lsh.remove(id);
+    this.links.get(id)?.forEach((_similarity, otherId) => {
+      this.links.get(otherId)?.delete(id);
+      if (this.links.get(otherId)?.size === 0) this.links.delete(otherId);
+    });
+    this.links.delete(id);
+    this.clusters = null;
+  }
+
+  /** The most similar other transcript above the threshold, if any. */
+  nearestDuplicate(
+    id: string,
+  ): { transcriptId: string; similarity: number } | null {
+    let nearest: { transcriptId: string; similarity: number } | null = null;
+    this.links.get(id)?.forEach((similarity, transcriptId) => {
+      if (!nearest || similarity > nearest.similarity) {
+        nearest = { transcriptId, similarity };
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Clusters of linked transcripts, largest first. The kept transcript of a
+   * cluster is one that already has AI annotations, so excluding the rest
+   * never throws paid-for work away; otherwise the one stored first.
+   */
+  findClusters(): DuplicateCluster[] {
+    if (this.clusters) return this.clusters;
+
+    const visited = new Set<string>();
+    const clusters: DuplicateCluster[] = [];
+
+    this.links.forEach((_links, start) => {
+      if (visited.has(start)) return;
+
+      const ids: string[] = [];
+      const pending = [start];
+      visited.add(start);
+      while (pending.length > 0) {
+        const id = pending.pop()!;
+        ids.push(id);
+        this.links.get(id)?.forEach((_similarity, otherId) => {
+          if (!visited.has(otherId)) {
+            visited.add(otherId);
+            pending.push(otherId);
+          }
+        });
+      }
+
+      const [canonicalId] = ids.sort((a, b) => this.compareForKeeping(a, b));
+      const canonical = this.fingerprints.get(canonicalId)!;
+      const members = ids.map((id) => {
+        const fingerprint = this.fingerprints.get(id)!;
+        const exact = fingerprint.textHash === canonical.textHash;
+        return {
+          transcriptId: id,
+          fileName: fingerprint.fileName,
+          similarity: exact
+            ? 1
+            : round(
+                estimateSimilarity(fingerprint.signature, canonical.signature),
+              ),
+          exact,
+        };
+      });
+
+      clusters.push({
+        canonicalId,
+        members: [
+          members[0],
+          ...members.slice(1).sort((a, b) => b.similarity - a.similarity),
+        ],
+      });
+    });
+
+    this.clusters = clusters.sort(
+      (a, b) =>
+        b.members.length - a.members.length ||
+        compareIds(a.canonicalId, b.canonicalId),
+    );
+    return this.clusters;
+  }
+
+  /** Every clustered transcript except the one kept per cluster. */
+  redundantIds(): Set<string> {
+    return new Set(
+      this.findClusters().flatMap((cluster) =>
+        cluster.members
+          .filter((member) => member.transcriptId !== cluster.canonicalId)
+          .map((member) => member.transcriptId),
+      ),
+    );
+  }
+
+  private link(a: string, b: string, similarity: number): void {
+    const rounded = round(similarity);
+    if (!this.links.has(a)) this.links.set(a, new Map());
+    if (!this.links.has(b)) this.links.set(b, new Map());
+    this.links.get(a)!.set(b, rounded);
+    this.links.get(b)!.set(a, rounded);
+  }
+
+  private compareForKeeping(a: string, b: string): number {
+    const first = this.fingerprints.get(a)!;
+    const second = this.fingerprints.get(b)!;
+    return (
+      Number(second.annotated) - Number(first.annotated) ||
+      first.order - second.order
+    );
+  }
+}
+
+function compareIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,46 @@
+import { LanguageDetectionService } from './language-detection.service';
+
+describe('LanguageDetectionService', () => {
+  const service = new LanguageDetectionService();
+
+  it.each([
+    [
+      'Buenos días, le atiende Carlos. Estoy llamando porque quiero consultar sobre mi última factura.',
+      'es',
+    ],
+    [
+      'Hello, thank you for calling. How can I help you with your account today?',
+      'en',
+    ],
+    [
+      'Olá, você pode me ajudar? Não consigo acessar a minha conta e tenho uma fatura em aberto.',
+      'pt',
+    ],
+  ])('detects %s as %s', (text, language) => {
+    expect(service.detect(text).language).toBe(language);
+  });
+
+  it('ignores system messages', () => {
+    const result = service.detectLanguage([
+      {
+        timestamp: '00:00:00',
+        speaker: 'SYSTEM',
+        speakerLabel: 'SYSTEM',
+        content: 'Call ended by the customer',
+      },
+      {
+        timestamp: '00:00:01',
+        speaker: 'CLIENT',
+        speakerLabel: 'CLIENTE',
+        content: 'Hola, tengo un problema con el internet.',
+      },
+    ]);
+
+    expect(result.language).toBe('es');
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('falls back to Spanish without evidence', () => {
+    expect(service.detect('12345')).toEqual({ language: 'es', confidence: 0 });
+  });
+});
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import {
+  SupportedLanguage,
+  TranscriptMessage,
+} from '../interfaces/transcript.interface';
+
+// Function words are frequent in any conversation and rarely shared across
+// these languages, so counting them is enough to tell transcripts apart.
+const STOP_WORDS: Record<SupportedLanguage, string> = {
+  es: 'el la los las y del que en un una es por con para pero muy usted está ya sí gracias hola tengo puedo ayudar bueno ahora su lo le mi me porque cuenta también días',
+  en: 'the and to of is you that it for i my with on this be are have can your not please thank thanks hello what will was me help account today do',
+  pt: 'o os do da dos das não um uma é que em no na com para mas você obrigado obrigada olá meu minha está sim tenho posso ajudar também agora conta dias',
+};
+
+const LANGUAGES = Object.keys(STOP_WORDS) as SupportedLanguage[];
+
+@Injectable()
+export class LanguageDetectionService {
+  private readonly stopWords = new Map(
+    LANGUAGES.map((language) => [
+      language,
+      new Set(STOP_WORDS[language].split(' ')),
+    ]),
+  );
+
+  detectLanguage(messages: TranscriptMessage[]): {
+    language: SupportedLanguage;
+    confidence: number;
+  } {
+    const text = messages
+      .filter((m) => m.speaker !== 'SYSTEM')
+      .map((m) => m.content)
+      .join(' ');
+
+    return this.detect(text);
+  }
+
+  detect(text: string): { language: SupportedLanguage; confidence: number } {
+    const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+    const scores = LANGUAGES.map((language) => {
+      const stopWords = this.stopWords.get(language)!;
+      return {
+        language,
+        hits: words.filter((word) => stopWords.has(word)).length,
+      };
+    }).sort((a, b) => b.hits - a.hits);
+
+    const total = scores.reduce((sum, score) => sum + score.hits, 0);
+    const [best] = scores;
+
+    // Without evidence, assume the language the corpus is written in.
+    if (best.hits === 0) {
+      return { language: 'es', confidence: 0 };
+    }
+
+    return {
+      language: best.language,
+      confidence: Math.round((best.hits / total) * 100) / 100,
+    };
+  }
+}
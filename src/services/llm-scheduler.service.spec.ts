@@ -0,0 +1,151 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmSchedulerService } from './llm-scheduler.service';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm/llm.provider';
+import { LlmRequestError, LlmUnavailableError } from '../llm/llm-errors';
+
+type Behaviour = (request: LlmCompletionRequest) => Promise<LlmCompletion>;
+
+/** Runs the scripted behaviours in order, then answers "ok". */
+class FakeLlmProvider extends LlmProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-model';
+  calls = 0;
+  inFlight = 0;
+  maxInFlight = 0;
+
+  constructor(private readonly behaviours: Behaviour[] = []) {
+    super();
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.calls++;
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    try {
+      const behaviour = this.behaviours.shift();
+      return behaviour ? await behaviour(request) : { content: 'ok' };
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
+
+const request: LlmCompletionRequest = {
+  operation: 'summarize',
+  messages: [{ role: 'user', content: 'Resume esta llamada' }],
+  maxTokens: 100,
+};
+
+const rateLimited =
+  (retryAfterMs?: number): Behaviour =>
+  () =>
+    Promise.reject(
+      new LlmRequestError('Too many requests', true, 429, retryAfterMs),
+    );
+const badRequest: Behaviour = () =>
+  Promise.reject(new LlmRequestError('Bad request', false, 400));
+const delayed =
+  (ms: number): Behaviour =>
+  () =>
+    new Promise((resolve) => setTimeout(() => resolve({ content: 'ok' }), ms));
+
+function scheduler(provider: LlmProvider, env: Record<string, string> = {}) {
+  return new LlmSchedulerService(
+    new ConfigService({
+      LLM_RETRY_BASE_DELAY_MS: '1',
+      LLM_RETRY_MAX_DELAY_MS: '1000',
+      ...env,
+    }),
+    provider,
+  );
+}
+
+describe('LlmSchedulerService', () => {
+  it('retries retryable failures and honors Retry-After', async () => {
+    const provider = new FakeLlmProvider([rateLimited(50), rateLimited()]);
+    const started = Date.now();
+
+    await expect(scheduler(provider).complete(request)).resolves.toEqual({
+      content: 'ok',
+    });
+    expect(provider.calls).toBe(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it('gives up when Retry-After is longer than the maximum delay', async () => {
+    const provider = new FakeLlmProvider([rateLimited(5000)]);
+
+    await expect(scheduler(provider).complete(request)).rejects.toThrow(
+      'Too many requests',
+    );
+    expect(provider.calls).toBe(1);
+  });
+
+  it('does not retry requests the provider rejected as invalid', async () => {
+    const provider = new FakeLlmProvider([badRequest]);
+
+    await expect(scheduler(provider).complete(request)).rejects.toThrow(
+      'Bad request',
+    );
+    expect(provider.calls).toBe(1);
+  });
+
+  it('times out slow calls and aborts them', async () => {
+    let signal: AbortSignal | undefined;
+    const provider = new FakeLlmProvider([
+      (slowRequest) => {
+        signal = slowRequest.signal;
+        return delayed(200)(slowRequest);
+      },
+    ]);
+
+    await expect(
+      scheduler(provider, {
+        LLM_TIMEOUT_MS: '20',
+        LLM_MAX_RETRIES: '0',
+      }).complete(request),
+    ).rejects.toThrow('fake call timed out after 20 ms');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('keeps at most LLM_MAX_CONCURRENCY calls in flight', async () => {
+    const provider = new FakeLlmProvider(
+      Array.from({ length: 6 }, () => delayed(10)),
+    );
+    const service = scheduler(provider, { LLM_MAX_CONCURRENCY: '2' });
+
+    await Promise.all(
+      Array.from({ length: 6 }, () => service.complete(request)),
+    );
+
+    expect(provider.calls).toBe(6);
+    expect(provider.maxInFlight).toBe(2);
+    expect(service.getStatus()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('opens the circuit after repeated failures and fails fast', async () => {
+    const provider = new FakeLlmProvider(
+      Array.from({ length: 3 }, () => rateLimited()),
+    );
+    const service = scheduler(provider, {
+      LLM_CIRCUIT_FAILURE_THRESHOLD: '3',
+      LLM_MAX_RETRIES: '5',
+    });
+
+    await expect(service.complete(request)).rejects.toBeInstanceOf(
+      LlmUnavailableError,
+    );
+    expect(provider.calls).toBe(3);
+    expect(service.getStatus().circuit).toBe('open');
+    expect(() => service.assertAvailable()).toThrow(LlmUnavailableError);
+
+    await expect(service.complete(request)).rejects.toBeInstanceOf(
+      LlmUnavailableError,
+    );
+    expect(provider.calls).toBe(3);
+  });
+});
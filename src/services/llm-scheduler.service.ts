@@ -0,0 +1,213 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm/llm.provider';
+import { LlmRequestError, LlmUnavailableError } from '../llm/llm-errors';
+import { CircuitBreaker, CircuitState } from '../llm/circuit-breaker';
+import { RateLimiter } from '../llm/rate-limiter';
+import { countMessageTokens } from '../llm/tokenizer';
+
+export interface LlmSchedulerStatus {
+  circuit: CircuitState;
+  /** When calls are accepted again after the circuit opened. */
+  retryAt: string | null;
+  active: number;
+  queued: number;
+}
+
+/**
+ * The single path every LLM call takes. Calls queue for one of
+ * LLM_MAX_CONCURRENCY slots, wait for room under the requests- and
+ * tokens-per-minute limits and are aborted after LLM_TIMEOUT_MS. Rate limits,
+ * 5xx answers, timeouts and dropped connections are retried with exponential
+ * backoff and full jitter, or after the provider's Retry-After. Repeated
+ * failures open a circuit breaker, and calls then fail at once with
+ * LlmUnavailableError instead of piling up.
+ */
+@Injectable()
+export class LlmSchedulerService {
+  private readonly logger = new Logger(LlmSchedulerService.name);
+  private readonly maxConcurrency: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly limiter: RateLimiter;
+  private readonly breaker: CircuitBreaker;
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly llmProvider: LlmProvider,
+  ) {
+    // 0 is a meaningful value here (no retries, no limit), unlike unset.
+    const setting = (key: string, fallback: number, min = 0) => {
+      const value = Number(this.configService.get<string>(key) || fallback);
+      return Number.isFinite(value) ? Math.max(min, value) : fallback;
+    };
+
+    this.maxConcurrency = setting('LLM_MAX_CONCURRENCY', 4, 1);
+    this.maxRetries = setting('LLM_MAX_RETRIES', 3);
+    this.baseDelayMs = setting('LLM_RETRY_BASE_DELAY_MS', 1000);
+    this.maxDelayMs = setting('LLM_RETRY_MAX_DELAY_MS', 30000);
+    this.timeoutMs = setting('LLM_TIMEOUT_MS', 30000, 1);
+    this.limiter = new RateLimiter(
+      setting('LLM_REQUESTS_PER_MINUTE', 500),
+      setting('LLM_TOKENS_PER_MINUTE', 200000),
+    );
+    this.breaker = new CircuitBreaker(
+      setting('LLM_CIRCUIT_FAILURE_THRESHOLD', 5, 1),
+      setting('LLM_CIRCUIT_RESET_MS', 60000),
+    );
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const estimate =
+      countMessageTokens(request.messages, this.llmProvider.model) +
+      request.maxTokens;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.dispatch(request, estimate);
+      } catch (error) {
+        if (!(error instanceof LlmRequestError) || !error.retryable) {
+          throw error;
+        }
+        if (this.breaker.state !== 'closed') {
+          throw new LlmUnavailableError(this.breaker.retryAt!);
+        }
+        if (attempt > this.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.backoff(attempt, error.retryAfterMs);
+        // Holding a request open longer than this helps nobody.
+        if (delay > this.maxDelayMs) {
+          throw error;
+        }
+        this.logger.warn(
+          `${this.llmProvider.name} ${request.operation} call failed (${error.message}), retry ${attempt}/${this.maxRetries} in ${delay} ms`,
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  /** Throws LlmUnavailableError while the circuit is open. */
+  assertAvailable(): void {
+    if (this.breaker.state === 'open') {
+      throw new LlmUnavailableError(this.breaker.retryAt!);
+    }
+  }
+
+  getStatus(): LlmSchedulerStatus {
+    return {
+      circuit: this.breaker.state,
+      retryAt: this.breaker.retryAt?.toISOString() ?? null,
+      active: this.active,
+      queued: this.queue.length,
+    };
+  }
+
+  private async dispatch(
+    request: LlmCompletionRequest,
+    estimate: number,
+  ): Promise<LlmCompletion> {
+    await this.acquireSlot();
+    try {
+      if (!this.breaker.tryAcquire()) {
+        throw new LlmUnavailableError(this.breaker.retryAt!);
+      }
+      for (
+        let delay = this.limiter.delayFor(estimate);
+        delay > 0;
+        delay = this.limiter.delayFor(estimate)
+      ) {
+        await sleep(delay);
+      }
+      const reservation = this.limiter.reserve(estimate);
+
+      try {
+        const completion = await this.withTimeout(request);
+        this.limiter.settle(
+          reservation,
+          completion.usage?.totalTokens ?? estimate,
+        );
+        this.breaker.recordSuccess();
+        return completion;
+      } catch (error) {
+        if (error instanceof LlmRequestError && error.retryable) {
+          this.breaker.recordFailure();
+          if (this.breaker.state === 'open') {
+            this.logger.error(
+              `${this.llmProvider.name} unavailable, refusing calls until ${this.breaker.retryAt!.toISOString()}`,
+            );
+          }
+        } else {
+          this.breaker.release();
+        }
+        throw error;
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private withTimeout(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(
+          new LlmRequestError(
+            `${this.llmProvider.name} call timed out after ${this.timeoutMs} ms`,
+            true,
+          ),
+        );
+      }, this.timeoutMs);
+    });
+
+    return Promise.race([
+      this.llmProvider.complete({ ...request, signal: controller.signal }),
+      timeout,
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  private backoff(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.ceil(retryAfterMs);
+    }
+    const ceiling = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.queue.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // The slot passes straight to the next caller.
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
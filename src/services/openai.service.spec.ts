@@ -0,0 +1,361 @@
+import { ConfigService } from '@nestjs/config';
+import { OpenAiService } from './openai.service';
+import { PiiRedactionService } from './pii-redaction.service';
+import { LanguageDetectionService } from './language-detection.service';
+import { LlmSchedulerService } from './llm-scheduler.service';
+import { AiBudgetExceededError, AiBudgetService } from './ai-budget.service';
+import { InMemoryAiUsageLedgerRepository } from '../repositories/in-memory-ai-usage-ledger.repository';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm/llm.provider';
+import { StructuredOutputError } from '../llm/structured-output';
+import { LlmRequestError, LlmUnavailableError } from '../llm/llm-errors';
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+
+/**
+ * Answers with the scripted completions, or fails with the scripted errors,
+ * in order and records the requests.
+ */
+class ScriptedLlmProvider extends LlmProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted-model';
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private readonly answers: Array<LlmCompletion | Error>) {
+    super();
+  }
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    this.requests.push(request);
+    const answer =
+      this.answers.shift() ?? new Error('No more scripted answers');
+    return answer instanceof Error
+      ? Promise.reject(answer)
+      : Promise.resolve(answer);
+  }
+}
+
+const transcript: ParsedTranscript = {
+  id: 'sample_01',
+  fileName: 'sample_01.txt',
+  language: 'es',
+  messages: [
+    {
+      timestamp: '00:00:05',
+      speaker: 'CLIENT',
+      speakerLabel: 'CLIENTE',
+      content: 'Me cobraron dos veces la boleta.',
+    },
+  ],
+};
+
+const VALID =
+  '{"category":"billing_issues","confidence":0.9,"reasoning":"Double charge"}';
+
+function service(
+  answers: Array<LlmCompletion | Error>,
+  env: Record<string, string> = {},
+) {
+  const provider = new ScriptedLlmProvider(answers);
+  const config = new ConfigService(env);
+  const ledger = new InMemoryAiUsageLedgerRepository();
+  return {
+    provider,
+    ledger,
+    openAiService: new OpenAiService(
+      config,
+      new PiiRedactionService(config),
+      new LanguageDetectionService(),
+      provider,
+      new LlmSchedulerService(config, provider),
+      new AiBudgetService(config, ledger),
+    ),
+  };
+}
+
+describe('OpenAiService structured output', () => {
+  it('requests the output schema and returns the validated answer', async () => {
+    const { provider, openAiService } = service([{ content: VALID }]);
+
+    await expect(openAiService.classifyTranscript(transcript)).resolves.toEqual(
+      {
+        transcriptId: 'sample_01',
+        category: 'billing_issues',
+        confidence: 0.9,
+        reasoning: 'Double charge',
+      },
+    );
+    expect(provider.requests[0].responseFormat?.name).toBe('classification');
+  });
+
+  it('sends invalid answers back with the violations', async () => {
+    const invalid =
+      '{"category":"billing","confidence":90,"reasoning":"Double charge"}';
+    const { provider, openAiService } = service([
+      { content: invalid },
+      { content: VALID },
+    ]);
+
+    const result = await openAiService.classifyTranscript(transcript);
+
+    expect(result.category).toBe('billing_issues');
+    const repair = provider.requests[1].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toEqual({ role: 'assistant', content: invalid });
+    expect(repair[2].content).toContain(
+      'confidence must not be greater than 1',
+    );
+  });
+
+  it('retries truncated answers with a larger token limit', async () => {
+    const { provider, openAiService } = service([
+      { content: '{"category":"billing_issues","conf', truncated: true },
+      { content: VALID },
+    ]);
+
+    await openAiService.classifyTranscript(transcript);
+
+    expect(provider.requests.map((request) => request.maxTokens)).toEqual([
+      150, 300,
+    ]);
+    expect(provider.requests[1].messages).toHaveLength(1);
+  });
+
+  it('gives up after LLM_OUTPUT_MAX_ATTEMPTS answers', async () => {
+    const { provider, openAiService } = service(
+      [{ content: '{}' }, { content: '{}' }, { content: VALID }],
+      { LLM_OUTPUT_MAX_ATTEMPTS: '2' },
+    );
+
+    await expect(
+      openAiService.classifyAndExtractTopics(transcript),
+    ).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('leaves transcripts with unusable answers out of a topic batch', async () => {
+    const { openAiService } = service(
+      [
+        { content: 'not json' },
+        {
+          content:
+            '{"category":"technical_issues","confidence":0.8,"topics":["internet"]}',
+        },
+      ],
+      { LLM_OUTPUT_MAX_ATTEMPTS: '1' },
+    );
+
+    const result = await openAiService.extractTopicsFromBatch([
+      transcript,
+      { ...transcript, id: 'sample_02' },
+    ]);
+
+    expect(result.transcripts).toEqual([
+      {
+        transcriptId: 'sample_02',
+        category: 'technical_issues',
+        confidence: 0.8,
+        topics: ['internet'],
+      },
+    ]);
+    expect(result.failed.map((failure) => failure.transcriptId)).toEqual([
+      'sample_01',
+    ]);
+  });
+
+  it('reports refused requests in a topic batch per transcript', async () => {
+    const { openAiService } = service([
+      new LlmRequestError('400 Bad Request: content filter', false, 400),
+      {
+        content:
+          '{"category":"technical_issues","confidence":0.8,"topics":["internet"]}',
+      },
+    ]);
+
+    const result = await openAiService.extractTopicsFromBatch([
+      transcript,
+      { ...transcript, id: 'sample_02' },
+    ]);
+
+    expect(result.transcripts.map((t) => t.transcriptId)).toEqual([
+      'sample_02',
+    ]);
+    expect(result.failed).toEqual([
+      {
+        transcriptId: 'sample_01',
+        error: '400 Bad Request: content filter',
+      },
+    ]);
+  });
+
+  it('ends a topic batch when the provider is unavailable, keeping the answers it got', async () => {
+    const { openAiService } = service([
+      {
+        content:
+          '{"category":"technical_issues","confidence":0.8,"topics":["internet"]}',
+      },
+      new LlmUnavailableError(new Date('2025-09-15T12:01:00Z')),
+    ]);
+
+    const result = await openAiService.extractTopicsFromBatch([
+      transcript,
+      { ...transcript, id: 'sample_02' },
+    ]);
+
+    expect(result.aborted).toBeInstanceOf(LlmUnavailableError);
+    expect(result.transcripts.map((t) => t.transcriptId)).toEqual([
+      'sample_01',
+    ]);
+    expect(result.failed).toEqual([]);
+  });
+
+  describe('budget checks per call', () => {
+    const PRICING = {
+      LLM_PRICING: '{"scripted-model":{"input":1000,"output":1000}}',
+    };
+    // Room for one classification call at a time.
+    const perCall = service([], PRICING).openAiService.estimateCost(
+      ['classify'],
+      [transcript],
+    ).estimatedCost;
+    const budget = {
+      ...PRICING,
+      AI_BUDGET_DAILY_USD: String(perCall * 1.5),
+      AI_BUDGET_MONTHLY_USD: '0',
+    };
+
+    it('holds concurrent calls against the same remaining budget', async () => {
+      const { provider, openAiService } = service(
+        [{ content: VALID }, { content: VALID }],
+        budget,
+      );
+
+      const [first, second] = await Promise.allSettled([
+        openAiService.classifyTranscript(transcript),
+        openAiService.classifyTranscript(transcript),
+      ]);
+
+      expect(first.status).toBe('fulfilled');
+      expect(second).toMatchObject({ status: 'rejected' });
+      expect((second as PromiseRejectedResult).reason).toBeInstanceOf(
+        AiBudgetExceededError,
+      );
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it('refuses a retry once the spend recorded so far uses up the budget', async () => {
+      const { provider, openAiService } = service(
+        [
+          {
+            content: '{"category":"billing_issues","conf',
+            truncated: true,
+            usage: {
+              promptTokens: 2000,
+              completionTokens: 0,
+              totalTokens: 2000,
+            },
+          },
+          { content: VALID },
+        ],
+        budget,
+      );
+
+      await expect(
+        openAiService.classifyTranscript(transcript),
+      ).rejects.toBeInstanceOf(AiBudgetExceededError);
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it('ends a topic batch when the budget runs out', async () => {
+      const { openAiService } = service([], {
+        ...PRICING,
+        AI_BUDGET_DAILY_USD: '0.000001',
+      });
+
+      const result = await openAiService.extractTopicsFromBatch([transcript]);
+
+      expect(result.aborted).toBeInstanceOf(AiBudgetExceededError);
+      expect(result.transcripts).toEqual([]);
+    });
+  });
+
+  it('breaks usage down per model and operation with catalog prices', async () => {
+    const { openAiService, ledger } = service(
+      [
+        {
+          content: VALID,
+          usage: {
+            promptTokens: 1000,
+            cachedPromptTokens: 200,
+            completionTokens: 100,
+            totalTokens: 1100,
+          },
+        },
+        {
+          content: '{"summary":"Cobro duplicado en la boleta."}',
+          usage: { promptTokens: 500, completionTokens: 50, totalTokens: 550 },
+        },
+      ],
+      {
+        LLM_PRICING:
+          '{"scripted-model":{"input":1,"cachedInput":0.5,"output":4}}',
+      },
+    );
+
+    await openAiService.classifyTranscript(transcript);
+    await openAiService.generateSummary(transcript);
+    const stats = openAiService.getUsageStats();
+
+    // (800 + 200 * 0.5 + 100 * 4) / 1M and (500 + 50 * 4) / 1M
+    expect(stats.byOperation.classify).toEqual({
+      calls: 1,
+      promptTokens: 1000,
+      cachedPromptTokens: 200,
+      completionTokens: 100,
+      totalTokens: 1100,
+      cost: 0.0013,
+    });
+    expect(stats.byOperation.summarize?.cost).toBeCloseTo(0.0007, 10);
+    expect(stats.byModel['scripted-model'].calls).toBe(2);
+    expect(stats.estimatedCost).toBeCloseTo(0.002, 10);
+    expect(
+      ledger
+        .findAll()
+        .map(({ operation, transcriptId, model, priced }) => [
+          operation,
+          transcriptId,
+          model,
+          priced,
+        ]),
+    ).toEqual([
+      ['classify', 'sample_01', 'scripted-model', true],
+      ['summarize', 'sample_01', 'scripted-model', true],
+    ]);
+  });
+
+  it('estimates cost from the tokenized prompts before calling', () => {
+    const { provider, openAiService } = service([], {
+      LLM_PRICING: '{"scripted-model":{"input":1,"output":4}}',
+    });
+
+    const single = openAiService.estimateCost(['classify'], [transcript]);
+    const both = openAiService.estimateCost(
+      ['classify', 'summarize'],
+      [transcript, transcript],
+    );
+
+    expect(provider.requests).toHaveLength(0);
+    expect(single.promptTokens).toBeGreaterThan(100);
+    expect(single.completionTokens).toBe(150);
+    expect(single.estimatedCost).toBeCloseTo(
+      (single.promptTokens + 150 * 4) / 1_000_000,
+      10,
+    );
+    expect(both.completionTokens).toBe(2 * (150 + 100));
+    expect(
+      both.byOperation.classify! + both.byOperation.summarize!,
+    ).toBeCloseTo(both.estimatedCost, 10);
+  });
+});
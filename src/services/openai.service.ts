@@ -1,108 +1,315 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
 import {
   ParsedTranscript,
   TopicAnalysis,
   ClassificationResult,
+  SupportedLanguage,
 } from '../interfaces/transcript.interface';
-
-interface TokenUsage {
-  prompt_tokens?: number;
-  completion_tokens?: number;
-  total_tokens?: number;
-}
-
-interface ClassificationResponse {
-  category: string;
-  confidence: number;
-  reasoning: string;
+import { PiiRedactionService } from './pii-redaction.service';
+import { LanguageDetectionService } from './language-detection.service';
+import { AnalysisPrompts, ANALYSIS_PROMPTS } from '../prompts/analysis-prompts';
+import {
+  LlmCompletion,
+  LlmMessage,
+  LlmOperation,
+  LlmProvider,
+  LlmUsage,
+} from '../llm/llm.provider';
+import {
+  CLASSIFICATION_SCHEMA,
+  CLASSIFICATION_WITH_TOPICS_SCHEMA,
+  LlmOutputSchema,
+  SUMMARY_SCHEMA,
+  TOPICS_SCHEMA,
+} from '../llm/llm-output.schemas';
+import {
+  parseStructuredOutput,
+  StructuredOutputError,
+} from '../llm/structured-output';
+import { LlmUnavailableError } from '../llm/llm-errors';
+import { TranscriptCategory } from '../dto/transcripts.dto';
+import {
+  LlmSchedulerService,
+  LlmSchedulerStatus,
+} from './llm-scheduler.service';
+import { PricingCatalog } from '../llm/model-pricing';
+import { countMessageTokens } from '../llm/tokenizer';
+import { AiBudgetExceededError, AiBudgetService } from './ai-budget.service';
+import {
+  AiAnalysis,
+  AiBudgetCheck,
+  AiCostEstimate,
+  AiUsageStats,
+} from '../interfaces/ai-usage.interface';
+
+interface AnalysisRequest {
+  operation: LlmOperation;
+  transcriptId: string;
+  prompt: string;
+  maxTokens: number;
 }
 
+/**
+ * Runs the analysis prompts through the configured LlmProvider (OpenAI,
+ * Azure OpenAI, an OpenAI-compatible server or the offline mock), via the
+ * shared LlmSchedulerService, and records the tokens and cost of every call
+ * in the usage ledger kept by AiBudgetService. Every answer is validated
+ * against the operation's output schema before it is returned.
+ */
 @Injectable()
 export class OpenAiService {
   private readonly logger = new Logger(OpenAiService.name);
-  private readonly openai: OpenAI;
-  private readonly model: string;
-  private tokenUsage = { prompt: 0, completion: 0, total: 0 };
-  private estimatedCost = 0;
-
-  constructor(private configService: ConfigService) {
-    this.openai = new OpenAI({
-      apiKey: this.configService.get<string>('OPENAI_API_KEY'),
-    });
-    this.model =
-      this.configService.get<string>('OPENAI_MODEL') || 'gpt-4o-mini';
-
-    this.logger.log(`Using OpenAI model: ${this.model}`);
+  private readonly outputLanguage: SupportedLanguage;
+  private readonly prompts: AnalysisPrompts;
+  private readonly maxOutputAttempts: number;
+  private readonly pricing: PricingCatalog;
+  private readonly unpricedModels = new Set<string>();
+
+  constructor(
+    private configService: ConfigService,
+    private piiRedactionService: PiiRedactionService,
+    private languageDetectionService: LanguageDetectionService,
+    private readonly llmProvider: LlmProvider,
+    private readonly llmScheduler: LlmSchedulerService,
+    private readonly aiBudget: AiBudgetService,
+  ) {
+    const language = this.configService
+      .get<string>('AI_OUTPUT_LANGUAGE', 'en')
+      .trim()
+      .toLowerCase();
+    if (language in ANALYSIS_PROMPTS) {
+      this.outputLanguage = language as SupportedLanguage;
+    } else {
+      this.logger.warn(
+        `Unsupported AI_OUTPUT_LANGUAGE "${language}", falling back to English`,
+      );
+      this.outputLanguage = 'en';
+    }
+    this.prompts = ANALYSIS_PROMPTS[this.outputLanguage];
+    this.maxOutputAttempts = Math.max(
+      1,
+      Number(this.configService.get<number>('LLM_OUTPUT_MAX_ATTEMPTS', 3)) || 1,
+    );
+    this.pricing = PricingCatalog.fromJson(
+      this.configService.get<string>('LLM_PRICING'),
+    );
+
+    this.logger.log(
+      `Using ${this.llmProvider.name} model: ${this.llmProvider.model} (output language: ${this.outputLanguage})`,
+    );
   }
 
-  private trackUsage(usage: TokenUsage | undefined): void {
-    if (usage) {
-      this.tokenUsage.prompt += usage.prompt_tokens || 0;
-      this.tokenUsage.completion += usage.completion_tokens || 0;
-      this.tokenUsage.total += usage.total_tokens || 0;
+  getModelName(): string {
+    return this.llmProvider.model;
+  }
 
-      // gpt-4o-mini pricing: Input $0.15/1M tokens, Output $0.60/1M tokens
-      const promptCost = ((usage.prompt_tokens || 0) * 0.15) / 1000000;
-      const completionCost = ((usage.completion_tokens || 0) * 0.6) / 1000000;
-      this.estimatedCost += promptCost + completionCost;
+  getOutputLanguage(): SupportedLanguage {
+    return this.outputLanguage;
+  }
 
-      this.logger.log(
-        `Token usage - Prompt: ${usage.prompt_tokens}, Completion: ${usage.completion_tokens}, Total cost: $${this.estimatedCost.toFixed(6)}`,
-      );
+  /** Throws LlmUnavailableError while the provider is considered down. */
+  assertAvailable(): void {
+    this.llmScheduler.assertAvailable();
+  }
+
+  getAvailability(): LlmSchedulerStatus {
+    return this.llmScheduler.getStatus();
+  }
+
+  /**
+   * Tokens and cost of running the analyses over the transcripts, counted
+   * with the model's tokenizer on the prompts that would be sent. Completion
+   * tokens are each call's limit, so the cost is an upper bound unless
+   * answers have to be repaired.
+   */
+  estimateCost(
+    analyses: AiAnalysis[],
+    transcripts: ParsedTranscript[],
+  ): AiCostEstimate {
+    const model = this.llmProvider.model;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const byOperation: Partial<Record<LlmOperation, number>> = {};
+    for (const transcript of transcripts) {
+      for (const analysis of analyses) {
+        const { operation, prompt, maxTokens } = this.analysisRequest(
+          analysis,
+          transcript,
+        );
+        const tokens = countMessageTokens(
+          [{ role: 'user', content: prompt }],
+          model,
+        );
+        promptTokens += tokens;
+        completionTokens += maxTokens;
+        byOperation[operation] =
+          (byOperation[operation] ?? 0) +
+          (this.pricing.cost(model, {
+            promptTokens: tokens,
+            completionTokens: maxTokens,
+          }) ?? 0);
+      }
     }
+    return {
+      model,
+      promptTokens,
+      completionTokens,
+      estimatedCost:
+        this.pricing.cost(model, { promptTokens, completionTokens }) ?? 0,
+      byOperation,
+    };
   }
 
-  private cleanJsonResponse(content: string): string {
-    let cleaned = content.trim();
-    if (cleaned.startsWith('```json')) {
-      cleaned = cleaned.replace(/^```json\s*/, '');
+  private analysisRequest(
+    analysis: AiAnalysis,
+    transcript: ParsedTranscript,
+  ): AnalysisRequest {
+    const summary = this.createTranscriptSummary(transcript);
+    const source = this.sourceLanguage(transcript);
+    switch (analysis) {
+      case 'classify':
+        return {
+          operation: 'classify',
+          transcriptId: transcript.id,
+          prompt: this.prompts.classify(summary, source),
+          maxTokens: 150,
+        };
+      case 'topics':
+        return {
+          operation: 'classify_topics',
+          transcriptId: transcript.id,
+          prompt: this.prompts.classifyWithTopics(summary, source, false),
+          maxTokens: 200,
+        };
+      case 'classify_with_topics':
+        return {
+          operation: 'classify_topics',
+          transcriptId: transcript.id,
+          prompt: this.prompts.classifyWithTopics(summary, source, true),
+          maxTokens: 200,
+        };
+      case 'summarize':
+        return {
+          operation: 'summarize',
+          transcriptId: transcript.id,
+          prompt: this.prompts.summarize(summary, source),
+          maxTokens: 100,
+        };
     }
-    if (cleaned.startsWith('```')) {
-      cleaned = cleaned.replace(/^```\s*/, '');
+  }
+
+  private sourceLanguage(transcript: ParsedTranscript): SupportedLanguage {
+    return (
+      transcript.language ??
+      this.languageDetectionService.detectLanguage(transcript.messages).language
+    );
+  }
+
+  /**
+   * Asks for an answer matching the schema. An invalid answer is sent back
+   * with the violations for the model to fix; one cut off by the token limit
+   * is requested again with twice the limit. Gives up with a
+   * StructuredOutputError after LLM_OUTPUT_MAX_ATTEMPTS calls. Each call is
+   * held against the budgets first and refused with AiBudgetExceededError
+   * when it could take spend past a hard stop.
+   */
+  private async complete<T extends object>(
+    { operation, transcriptId, prompt, maxTokens }: AnalysisRequest,
+    schema: LlmOutputSchema<T>,
+  ): Promise<T> {
+    const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
+    let tokenLimit = maxTokens;
+
+    for (let attempt = 1; ; attempt++) {
+      const model = this.llmProvider.model;
+      const reservation = this.aiBudget.reserve(
+        operation,
+        this.pricing.cost(model, {
+          promptTokens: countMessageTokens(messages, model),
+          completionTokens: tokenLimit,
+        }) ?? 0,
+      );
+      let completion: LlmCompletion;
+      try {
+        completion = await this.llmScheduler.complete({
+          operation,
+          messages: [...messages],
+          maxTokens: tokenLimit,
+          responseFormat: { name: schema.name, schema: schema.jsonSchema },
+        });
+      } finally {
+        this.aiBudget.release(reservation);
+      }
+      this.trackUsage(operation, transcriptId, completion.usage);
+
+      try {
+        return parseStructuredOutput(completion.content, schema);
+      } catch (error) {
+        if (
+          !(error instanceof StructuredOutputError) ||
+          attempt >= this.maxOutputAttempts
+        ) {
+          throw error;
+        }
+        this.logger.warn(
+          `Invalid ${operation} output from ${this.llmProvider.name} (attempt ${attempt}/${this.maxOutputAttempts}): ${error.violations.join('; ')}`,
+        );
+        if (completion.truncated) {
+          tokenLimit *= 2;
+        } else {
+          messages.push(
+            { role: 'assistant', content: completion.content },
+            { role: 'user', content: this.prompts.repair(error.violations) },
+          );
+        }
+      }
     }
-    if (cleaned.endsWith('```')) {
-      cleaned = cleaned.replace(/\s*```$/, '');
+  }
+
+  private trackUsage(
+    operation: LlmOperation,
+    transcriptId: string,
+    usage: LlmUsage | undefined,
+  ): void {
+    if (usage) {
+      const model = this.llmProvider.model;
+      const cost = this.pricing.cost(model, usage);
+      if (cost === undefined && !this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        this.logger.warn(
+          `No price for model ${model}; add it to LLM_PRICING. Its calls are counted as free.`,
+        );
+      }
+
+      this.aiBudget.record({
+        timestamp: new Date().toISOString(),
+        operation,
+        transcriptId,
+        provider: this.llmProvider.name,
+        model,
+        promptTokens: usage.promptTokens,
+        cachedPromptTokens: usage.cachedPromptTokens ?? 0,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        cost: cost ?? 0,
+        priced: cost !== undefined,
+      });
+
+      this.logger.log(
+        `Token usage (${model}, ${operation}, ${transcriptId}) - Prompt: ${usage.promptTokens}, Completion: ${usage.completionTokens}, Cost: $${(cost ?? 0).toFixed(6)}`,
+      );
     }
-    return cleaned.trim();
   }
 
   async classifyTranscript(
     transcript: ParsedTranscript,
   ): Promise<ClassificationResult> {
     try {
-      const summary = this.createTranscriptSummary(transcript);
-
-      const prompt = `Analyze this customer service call transcript and classify it into one of these categories:
-- technical_issues: Problems with internet, TV, phone, configurations
-- commercial_support: Queries about plans, promotions, sales
-- administrative_requests: Data changes, activations/deactivations
-- billing_issues: Billing queries, charges, adjustments
-- service_activation: Activation of additional services
-- complaints_claims: Formal complaints, claims, dissatisfaction
-
-Summarized transcript:
-${summary}
-
-Respond in JSON format with:
-{
-  "category": "exact_category",
-  "confidence": number_0_to_1,
-  "reasoning": "brief_explanation"
-}`;
-
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [{ role: 'user', content: prompt }],
-        max_completion_tokens: 150,
-      });
-
-      this.trackUsage(response.usage);
-
-      const rawContent = response.choices[0].message.content || '{}';
-      const cleanedContent = this.cleanJsonResponse(rawContent);
-      const result = JSON.parse(cleanedContent) as ClassificationResponse;
+      const result = await this.complete(
+        this.analysisRequest('classify', transcript),
+        CLASSIFICATION_SCHEMA,
+      );
 
       return {
         transcriptId: transcript.id,
@@ -115,13 +322,7 @@ Respond in JSON format with:
         `Error classifying transcript ${transcript.id}:`,
         error,
       );
-
-      return {
-        transcriptId: transcript.id,
-        category: 'error',
-        confidence: 0,
-        reasoning: `Classification failed: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      throw error;
     }
   }
 
@@ -131,11 +332,14 @@ Respond in JSON format with:
   ): Promise<{
     transcripts: Array<{
       transcriptId: string;
-      category: string;
+      category: TranscriptCategory;
       confidence: number;
       topics: string[];
     }>;
     aggregatedTopics: TopicAnalysis[];
+    failed: Array<{ transcriptId: string; error: string }>;
+    /** Why the batch ended early; the analyses that finished are kept. */
+    aborted?: LlmUnavailableError | AiBudgetExceededError;
   }> {
     try {
       this.logger.log(
@@ -145,64 +349,60 @@ Respond in JSON format with:
       const transcriptAnalysis: {
         transcriptId: string;
         topics: string[];
-        category: string;
+        category: TranscriptCategory;
         confidence: number;
       }[] = [];
+      const failed: Array<{ transcriptId: string; error: string }> = [];
+      let aborted: LlmUnavailableError | AiBudgetExceededError | undefined;
+
+      // Transcripts are analyzed concurrently; LlmSchedulerService decides
+      // how many calls are actually in flight.
+      const analyses = await Promise.all(
+        transcripts.map(async (transcript) => {
+          this.logger.log(`Analyzing transcript: ${transcript.id}`);
+
+          // Only an unavailable provider or an exhausted budget ends the
+          // batch, once the calls already sent have answered; an unusable
+          // answer or a refused request is reported for its transcript alone.
+          try {
+            return {
+              transcript,
+              result: await this.complete(
+                this.analysisRequest('topics', transcript),
+                TOPICS_SCHEMA,
+              ),
+            };
+          } catch (error) {
+            if (
+              error instanceof LlmUnavailableError ||
+              error instanceof AiBudgetExceededError
+            ) {
+              aborted ??= error;
+              return { transcript };
+            }
+            const message =
+              error instanceof Error ? error.message : String(error);
+            this.logger.warn(`Skipping ${transcript.id}: ${message}`);
+            return { transcript, error: message };
+          }
+        }),
+      );
 
-      for (const transcript of transcripts) {
-        this.logger.log(`Analyzing transcript: ${transcript.id}`);
-        const summary = this.createTranscriptSummary(transcript);
-
-        const prompt = `Analyze this customer service call transcript and perform two tasks:
-
-1. CLASSIFY the conversation into one of these categories:
-   - technical_issues: Technical problems (internet, TV, phone)
-   - commercial_support: Commercial support (plans, promotions)
-   - administrative_requests: Administrative requests
-   - billing_issues: Billing problems
-   - service_activation: Service activation
-   - complaints_claims: Complaints and claims
-
-2. EXTRACT the main topics/themes present in the conversation.
-
-Transcript:
-${summary}
-
-Respond in JSON format:
-{
-  "category": "category_name",
-  "confidence": 0.95,
-  "topics": ["topic1", "topic2", "topic3"]
-}`;
-
-        const response = await this.openai.chat.completions.create({
-          model: this.model,
-          messages: [{ role: 'user', content: prompt }],
-          max_completion_tokens: 200,
-        });
-
-        this.trackUsage(response.usage);
-
-        const cleanedContent = this.cleanJsonResponse(
-          response.choices[0].message.content ||
-            '{"category": "administrative_requests", "confidence": 0.5, "topics": []}',
-        );
+      for (const { transcript, result, error } of analyses) {
+        if (error !== undefined) {
+          failed.push({ transcriptId: transcript.id, error });
+        }
+        if (!result) continue;
 
         this.logger.log(
-          `OpenAI response for ${transcript.id}: ${cleanedContent}`,
+          `${this.llmProvider.name} response for ${transcript.id}: ${JSON.stringify(result)}`,
         );
 
-        const result = JSON.parse(cleanedContent) as {
-          category: string;
-          confidence: number;
-          topics: string[];
-        };
-
         transcriptAnalysis.push({
           transcriptId: transcript.id,
-          topics: result.topics || [],
-          category: result.category || 'administrative_requests',
-          confidence: result.confidence || 0.5,
+          topics: result.topics,
+          category: result.category,
+          confidence: result.confidence,
         });
 
         this.logger.log(
@@ -262,7 +462,7 @@ Respond in JSON format:
           frequency: data.frequency,
           relevantTranscripts: data.transcripts,
           categories: Array.from(data.categories),
-          description: this.generateTopicDescription(topic),
+          description: this.prompts.describeTopic(topic),
         }))
         .sort((a, b) => b.frequency - a.frequency)
         .slice(0, maxTopics);
@@ -270,6 +470,8 @@ Respond in JSON format:
       return {
         transcripts: transcriptAnalysis,
         aggregatedTopics,
+        failed,
+        ...(aborted && { aborted }),
       };
     } catch (error) {
       this.logger.error('Error extracting topics from batch:', error);
@@ -281,47 +483,13 @@ Respond in JSON format:
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
 
-  private generateTopicDescription(topic: string): string {
-    const descriptions: Record<string, string> = {
-      billing: 'Issues related to billing, charges, and payment inquiries',
-      technical: 'Technical problems with services like internet, TV, or phone',
-      activation: 'Service activation and setup requests',
-      support: 'General customer support and assistance requests',
-      complaint: 'Customer complaints and dissatisfaction issues',
-      commercial: 'Commercial inquiries about plans, promotions, and upgrades',
-      refund: 'Refund requests and credit adjustments',
-      cancellation: 'Service cancellation and termination requests',
-      internet: 'Internet connectivity and speed related issues',
-      plan: 'Plan changes, upgrades, and service modifications',
-    };
-
-    const lowerTopic = topic.toLowerCase();
-    for (const [key, desc] of Object.entries(descriptions)) {
-      if (lowerTopic.includes(key)) {
-        return desc;
-      }
-    }
-
-    return `Customer service topic related to ${topic.toLowerCase()}`;
-  }
-
   async generateSummary(transcript: ParsedTranscript): Promise<string> {
     try {
-      const summary = this.createTranscriptSummary(transcript);
-
-      const prompt = `Summarize this customer service call in 2-3 sentences highlighting the main problem and resolution:
-
-${summary}`;
-
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [{ role: 'user', content: prompt }],
-        max_completion_tokens: 100,
-      });
-
-      this.trackUsage(response.usage);
-
-      return response.choices[0].message.content || '';
+      const { summary } = await this.complete(
+        this.analysisRequest('summarize', transcript),
+        SUMMARY_SCHEMA,
+      );
+      return summary;
     } catch (error) {
       this.logger.error(
         `Error generating summary for transcript ${transcript.id}:`,
@@ -332,7 +500,12 @@ ${summary}`;
   }
 
   private createTranscriptSummary(transcript: ParsedTranscript): string {
-    const messages = transcript.messages
+    // Customer identifiers never leave the service: RUTs, phones, emails,
+    // addresses and names are replaced with typed placeholders first.
+    const { messages: redacted } = this.piiRedactionService.redactMessages(
+      transcript.messages,
+    );
+    const messages = redacted
       .filter((m) => m.speaker !== 'SYSTEM')
       .slice(0, 20)
       .map((m) => `${m.speaker}: ${m.content}`)
@@ -346,51 +519,11 @@ ${summary}`;
     topics: string[];
   }> {
     try {
-      const summary = this.createTranscriptSummary(transcript);
-
-      const prompt = `Analyze this customer service call transcript and perform two tasks:
-
-1. CLASSIFY the conversation into one of these categories:
-   - technical_issues: Technical problems (internet, TV, phone)
-   - commercial_support: Commercial support (plans, promotions) 
-   - administrative_requests: Administrative requests
-   - billing_issues: Billing problems
-   - service_activation: Service activation
-   - complaints_claims: Complaints and claims
-
-2. EXTRACT the main topics/themes present in the conversation.
-
-Transcript:
-${summary}
-
-Respond in JSON format:
-{
-  "category": "category_name",
-  "confidence": 0.95,
-  "reasoning": "brief explanation for classification",
-  "topics": ["topic1", "topic2", "topic3"]
-}`;
-
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [{ role: 'user', content: prompt }],
-        max_completion_tokens: 200,
-      });
-
-      this.trackUsage(response.usage);
-
-      const cleanedContent = this.cleanJsonResponse(
-        response.choices[0].message.content ||
-          '{"category": "administrative_requests", "confidence": 0.5, "reasoning": "Default classification", "topics": []}',
+      const result = await this.complete(
+        this.analysisRequest('classify_with_topics', transcript),
+        CLASSIFICATION_WITH_TOPICS_SCHEMA,
       );
 
-      const result = JSON.parse(cleanedContent) as {
-        category: string;
-        confidence: number;
-        reasoning: string;
-        topics: string[];
-      };
-
       return {
         classification: {
           transcriptId: transcript.id,
@@ -398,44 +531,41 @@ Respond in JSON format:
           confidence: result.confidence,
           reasoning: result.reasoning,
         },
-        topics: result.topics || [],
+        topics: result.topics,
       };
     } catch (error) {
       this.logger.error(
         `Error classifying and extracting topics for transcript ${transcript.id}:`,
         error,
       );
-
-      return {
-        classification: {
-          transcriptId: transcript.id,
-          category: 'error',
-          confidence: 0,
-          reasoning: `Analysis failed: ${error instanceof Error ? error.message : String(error)}`,
-        },
-        topics: [],
-      };
+      throw error;
     }
   }
 
-  getUsageStats(): {
-    tokenUsage: any;
-    estimatedCost: number;
-    remainingBudget: number;
-  } {
-    const budget = 5.0;
+  /** Totals over the whole usage ledger, and where each budget stands. */
+  getUsageStats(): AiUsageStats {
+    const { totals, byModel, byOperation } = this.aiBudget.getReport();
+    const budgets = this.aiBudget.getBudgets();
     return {
-      tokenUsage: this.tokenUsage,
-      estimatedCost: this.estimatedCost,
-      remainingBudget: budget - this.estimatedCost,
+      tokenUsage: {
+        prompt: totals.promptTokens,
+        completion: totals.completionTokens,
+        total: totals.totalTokens,
+      },
+      estimatedCost: totals.cost,
+      remainingBudget:
+        budgets.find((budget) => budget.scope === 'monthly')?.remaining ?? null,
+      budgets,
+      byModel,
+      byOperation,
     };
   }
 
-  canPerformOperation(estimatedTokens: number): boolean {
-    const budget = 5.0;
-    // gpt-4o-mini: Average cost estimation (assuming 50% input, 50% output)
-    // Input: $0.15/1M, Output: $0.6/1M, Average: ~$0.375/1M tokens
-    const estimatedCost = (estimatedTokens * 0.375) / 1000000;
-    return this.estimatedCost + estimatedCost <= budget;
+  checkBudget(estimate: AiCostEstimate): AiBudgetCheck {
+    return this.aiBudget.check(estimate);
+  }
+
+  canPerformOperation(estimate: AiCostEstimate): boolean {
+    return this.checkBudget(estimate).allowed;
   }
 }
@@ -0,0 +1,103 @@
+import { ConfigService } from '@nestjs/config';
+import { PiiRedactionService } from './pii-redaction.service';
+import { TranscriptMessage } from '../interfaces/transcript.interface';
+
+function message(
+  speaker: TranscriptMessage['speaker'],
+  content: string,
+): TranscriptMessage {
+  return {
+    timestamp: '00:00:00',
+    speaker,
+    speakerLabel: speaker === 'AGENT' ? 'AGENTE' : 'CLIENTE',
+    content,
+  };
+}
+
+describe('PiiRedactionService', () => {
+  let service: PiiRedactionService;
+
+  beforeEach(() => {
+    service = new PiiRedactionService(new ConfigService());
+  });
+
+  it.each([
+    ['Sí, es 17-865-432-1.', 'Sí, es <RUT>.', 'RUT'],
+    ['Mi RUT es 12.345.678-9', 'Mi RUT es <RUT>', 'RUT'],
+    ['Llámeme al 9-8765-4321', 'Llámeme al <PHONE>', 'PHONE'],
+    ['Mi número es +56 9 8765 4321', 'Mi número es <PHONE>', 'PHONE'],
+    ['Escriba a tvargas85@email.com.', 'Escriba a <EMAIL>.', 'EMAIL'],
+    ['Avenida Los Sauces, número 245.', '<ADDRESS>.', 'ADDRESS'],
+    ['Vivo en Calle Los Pinos 123', 'Vivo en <ADDRESS>', 'ADDRESS'],
+  ])('redacts %s', (text, expected, type) => {
+    const result = service.redactText(text);
+
+    expect(result.text).toBe(expected);
+    expect(result.entityTypes).toEqual([type]);
+  });
+
+  it('leaves timestamps, amounts and dates untouched', () => {
+    const text = 'El cargo de $15.990 se activó el 15 de marzo a las 15:30.';
+
+    expect(service.redactText(text)).toEqual({ text, entityTypes: [] });
+  });
+
+  it('redacts introduced names wherever they are mentioned later', () => {
+    const { messages, entityTypes } = service.redactMessages([
+      message('AGENT', 'Buenos días, le atiende Carlos.'),
+      message('CLIENT', 'Hola, soy Mariana López.'),
+      message('AGENT', 'Un gusto, Mariana. ¿En qué puedo ayudarte?'),
+      message('CLIENT', 'Gracias, Carlos.'),
+    ]);
+
+    expect(messages.map((m) => m.content)).toEqual([
+      'Buenos días, le atiende <PERSON>.',
+      'Hola, soy <PERSON>.',
+      'Un gusto, <PERSON>. ¿En qué puedo ayudarte?',
+      'Gracias, <PERSON>.',
+    ]);
+    expect(entityTypes).toEqual(['PERSON']);
+  });
+
+  it('only redacts the configured entity types', () => {
+    const rutOnly = new PiiRedactionService(
+      new ConfigService({ PII_REDACTION_ENTITIES: 'RUT' }),
+    );
+
+    expect(rutOnly.redactText('Soy Mariana, mi RUT es 17-865-432-1').text).toBe(
+      'Soy Mariana, mi RUT es <RUT>',
+    );
+  });
+
+  it('moves snippet highlights to their place in the masked text', () => {
+    const messages = [
+      message('CLIENT', 'Soy Mariana López y tengo un cargo adicional.'),
+    ];
+    const content = messages[0].content;
+    const at = (word: string) => ({
+      start: content.indexOf(word),
+      end: content.indexOf(word) + word.length,
+      term: word,
+    });
+
+    const [snippet] = service.maskSearchResult({
+      transcript: { id: 'call', fileName: 'call.txt', messages },
+      relevanceScore: 1,
+      matchedMessages: messages,
+      snippets: [
+        {
+          messageIndex: 0,
+          message: messages[0],
+          highlights: [at('Mariana'), at('cargo')],
+          before: [],
+          after: [],
+        },
+      ],
+    }).snippets;
+
+    expect(snippet.message.content).toBe(
+      'Soy <PERSON> y tengo un cargo adicional.',
+    );
+    expect(snippet.highlights).toEqual([{ start: 24, end: 29, term: 'cargo' }]);
+  });
+});
@@ -0,0 +1,255 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ParsedTranscript,
+  PiiEntityType,
+  SearchHighlight,
+  SearchResult,
+  SearchSnippet,
+  TranscriptMessage,
+  TranscriptMetadata,
+} from '../interfaces/transcript.interface';
+
+const ALL_ENTITY_TYPES: PiiEntityType[] = [
+  'EMAIL',
+  'RUT',
+  'PHONE',
+  'ADDRESS',
+  'PERSON',
+];
+
+// Order matters: RUTs look like phone numbers, so they are replaced first.
+const PATTERNS: Array<{
+  type: Exclude<PiiEntityType, 'PERSON'>;
+  regex: RegExp;
+}> = [
+  {
+    type: 'EMAIL',
+    regex: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  },
+  {
+    type: 'RUT',
+    regex: /(?<![\w.-])\d{1,2}[.-]?\d{3}[.-]?\d{3}-[\dkK](?![\w-])/g,
+  },
+  {
+    type: 'PHONE',
+    regex: /(?<![\w.-])\+?\d(?:[\s.-]?\d){7,11}(?![\w-])/g,
+  },
+  {
+    type: 'ADDRESS',
+    regex:
+      /\b(?:[Aa]venida|[Aa]v\.|[Cc]alle|[Pp]asaje|[Pp]je\.|[Cc]amino|[Pp]aseo)\s+(?:(?:de|del|la|las|los|el)\s+)?[\p{Lu}\d][\p{L}\d]*(?:\s+(?:(?:de|del|la|las|los|el)\s+)?[\p{Lu}\d][\p{L}\d]*){0,3}(?:,?\s*(?:número|numero|n[°º]|#|nro\.?)\s*\d+)?/gu,
+  },
+];
+
+// Names are only trusted where the conversation introduces someone; every
+// later mention of the same name in the transcript is then redacted too.
+const NAME_INTRODUCTION =
+  /(?:\b[Ss]oy|\b[Mm]e llamo|\b[Mm]i nombre es|\b[Ll]e atiende|\b[Ll]e habla|\b[Hh]abla con|\b[Ss]r\.|\b[Ss]ra\.|\b[Ss]eñora?|\b[Ss]eñorita)\s+(\p{Lu}\p{Ll}+(?:\s+\p{Lu}\p{Ll}+){0,2})/gu;
+
+export interface RedactionResult {
+  text: string;
+  entityTypes: PiiEntityType[];
+}
+
+@Injectable()
+export class PiiRedactionService {
+  private readonly logger = new Logger(PiiRedactionService.name);
+  private readonly enabledTypes: Set<PiiEntityType>;
+  private readonly maskResponses: boolean;
+
+  constructor(private configService: ConfigService) {
+    const configured = this.configService
+      .get<string>('PII_REDACTION_ENTITIES', ALL_ENTITY_TYPES.join(','))
+      .split(',')
+      .map((type) => type.trim().toUpperCase())
+      .filter(Boolean);
+
+    this.enabledTypes = new Set(
+      configured.filter((type): type is PiiEntityType =>
+        ALL_ENTITY_TYPES.includes(type as PiiEntityType),
+      ),
+    );
+    this.maskResponses =
+      this.configService.get<string>('PII_MASK_RESPONSES', 'false') === 'true';
+
+    this.logger.log(
+      `PII redaction enabled for: ${Array.from(this.enabledTypes).join(', ') || 'none'}` +
+        (this.maskResponses ? ' (API responses masked)' : ''),
+    );
+  }
+
+  shouldMaskResponses(): boolean {
+    return this.maskResponses;
+  }
+
+  /** Replaces detected entities with typed placeholders such as `<RUT>`. */
+  redactText(text: string, knownNames: string[] = []): RedactionResult {
+    const found = new Set<PiiEntityType>();
+    let redacted = text;
+
+    for (const { type, regex } of PATTERNS) {
+      if (!this.enabledTypes.has(type)) continue;
+
+      redacted = redacted.replace(regex, () => {
+        found.add(type);
+        return `<${type}>`;
+      });
+    }
+
+    if (this.enabledTypes.has('PERSON')) {
+      const names = [...knownNames, ...this.findIntroducedNames(redacted)];
+      for (const name of this.expandNames(names)) {
+        const pattern = new RegExp(
+          `(?<!\\p{L})${this.escapeRegex(name)}(?!\\p{L})`,
+          'gu',
+        );
+        redacted = redacted.replace(pattern, () => {
+          found.add('PERSON');
+          return '<PERSON>';
+        });
+      }
+    }
+
+    return {
+      text: redacted,
+      entityTypes: ALL_ENTITY_TYPES.filter((type) => found.has(type)),
+    };
+  }
+
+  redactMessages(
+    messages: TranscriptMessage[],
+    knownNames: string[] = this.collectNames(messages),
+  ): {
+    messages: TranscriptMessage[];
+    entityTypes: PiiEntityType[];
+  } {
+    const found = new Set<PiiEntityType>();
+
+    const redactedMessages = messages.map((message) => {
+      const result = this.redactText(message.content, knownNames);
+      result.entityTypes.forEach((type) => found.add(type));
+      return { ...message, content: result.text };
+    });
+
+    return {
+      messages: redactedMessages,
+      entityTypes: ALL_ENTITY_TYPES.filter((type) => found.has(type)),
+    };
+  }
+
+  /** Returns a masked copy for API responses; the stored transcript is untouched. */
+  maskTranscript(transcript: ParsedTranscript): ParsedTranscript {
+    const knownNames = this.collectNames(transcript.messages);
+
+    return {
+      ...transcript,
+      messages: this.redactMessages(transcript.messages, knownNames).messages,
+      summary: transcript.summary
+        ? this.redactText(transcript.summary, knownNames).text
+        : transcript.summary,
+      metadata: this.maskMetadata(transcript.metadata),
+    };
+  }
+
+  maskMetadata(
+    metadata: TranscriptMetadata | undefined,
+  ): TranscriptMetadata | undefined {
+    if (!metadata || !this.enabledTypes.has('PERSON')) {
+      return metadata;
+    }
+
+    return {
+      ...metadata,
+      agentName: metadata.agentName && '<PERSON>',
+      customerName: metadata.customerName && '<PERSON>',
+    };
+  }
+
+  maskSearchResult(result: SearchResult): SearchResult {
+    const knownNames = this.collectNames(result.transcript.messages);
+
+    return {
+      ...result,
+      transcript: this.maskTranscript(result.transcript),
+      matchedMessages: this.redactMessages(result.matchedMessages, knownNames)
+        .messages,
+      snippets: result.snippets.map((snippet) =>
+        this.maskSnippet(snippet, knownNames),
+      ),
+    };
+  }
+
+  private maskSnippet(
+    snippet: SearchSnippet,
+    knownNames: string[],
+  ): SearchSnippet {
+    const [message] = this.redactMessages(
+      [snippet.message],
+      knownNames,
+    ).messages;
+
+    return {
+      ...snippet,
+      message,
+      highlights: this.relocateHighlights(
+        snippet.message.content,
+        message.content,
+        snippet.highlights,
+      ),
+      before: this.redactMessages(snippet.before, knownNames).messages,
+      after: this.redactMessages(snippet.after, knownNames).messages,
+    };
+  }
+
+  /**
+   * Placeholders change the length of the text, so highlight offsets are
+   * found again in the masked content. Highlights that fell inside a
+   * redacted entity are dropped rather than pointing at the placeholder.
+   */
+  private relocateHighlights(
+    original: string,
+    masked: string,
+    highlights: SearchHighlight[],
+  ): SearchHighlight[] {
+    if (original === masked) {
+      return highlights;
+    }
+
+    const relocated: SearchHighlight[] = [];
+    let cursor = 0;
+    for (const highlight of highlights) {
+      const word = original.slice(highlight.start, highlight.end);
+      const start = masked.indexOf(word, cursor);
+      if (start === -1) continue;
+
+      relocated.push({ ...highlight, start, end: start + word.length });
+      cursor = start + word.length;
+    }
+    return relocated;
+  }
+
+  private collectNames(messages: TranscriptMessage[]): string[] {
+    return messages.flatMap((m) => this.findIntroducedNames(m.content));
+  }
+
+  private findIntroducedNames(text: string): string[] {
+    return Array.from(text.matchAll(NAME_INTRODUCTION), (match) => match[1]);
+  }
+
+  /** Full names first, then their parts, so "Mariana López" wins over "Mariana". */
+  private expandNames(names: string[]): string[] {
+    const expanded = new Set<string>();
+    for (const name of names) {
+      expanded.add(name);
+      for (const part of name.split(/\s+/)) {
+        if (part.length >= 3) expanded.add(part);
+      }
+    }
+    return Array.from(expanded).sort((a, b) => b.length - a.length);
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
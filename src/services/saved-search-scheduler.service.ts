@@ -0,0 +1,58 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SavedSearchService } from './saved-search.service';
+import { NotificationSink } from '../notifications/notification-sink';
+
+/**
+ * Re-runs every saved search on a fixed interval so transcripts ingested
+ * by upload or by the directory watcher are reported without anyone
+ * polling the search endpoint.
+ */
+@Injectable()
+export class SavedSearchSchedulerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SavedSearchSchedulerService.name);
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private readonly savedSearchService: SavedSearchService,
+    private readonly notificationSink: NotificationSink,
+  ) {
+    this.intervalMs = Number(
+      this.configService.get<number>('SAVED_SEARCH_INTERVAL_MS', 300000),
+    );
+  }
+
+  onApplicationBootstrap(): void {
+    if (!(this.intervalMs > 0)) {
+      this.logger.log('Scheduled saved searches are disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.savedSearchService.runAll().catch((error) => {
+        this.logger.error('Error running saved searches:', error);
+      });
+    }, this.intervalMs);
+    this.logger.log(
+      `Running saved searches every ${this.intervalMs / 1000}s, delivering to the ${this.notificationSink.name} sink`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // Let a run in progress record what it delivered.
+    await this.savedSearchService.whenIdle();
+  }
+}
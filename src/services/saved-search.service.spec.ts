@@ -0,0 +1,177 @@
+import { SavedSearchService } from './saved-search.service';
+import { TranscriptProcessingService } from './transcript-processing.service';
+import { InMemorySavedSearchRepository } from '../repositories/in-memory-saved-search.repository';
+import { NotificationSink } from '../notifications/notification-sink';
+import { SavedSearchNotification } from '../interfaces/saved-search.interface';
+import { ParsedTranscript } from '../interfaces/transcript.interface';
+
+class RecordingSink extends NotificationSink {
+  readonly name = 'recording';
+  readonly delivered: SavedSearchNotification[] = [];
+  failWith: Error | null = null;
+  /** When set, deliveries wait for it, like a slow webhook. */
+  gate: Promise<void> | null = null;
+
+  async deliver(notification: SavedSearchNotification): Promise<void> {
+    await this.gate;
+    if (this.failWith) {
+      throw this.failWith;
+    }
+    this.delivered.push(notification);
+  }
+}
+
+function transcript(id: string, content: string): ParsedTranscript {
+  return {
+    id,
+    fileName: `${id}.txt`,
+    messages: [
+      {
+        timestamp: '00:00:00',
+        speaker: 'CLIENT',
+        speakerLabel: 'CLIENTE',
+        content,
+      },
+    ],
+  };
+}
+
+describe('SavedSearchService', () => {
+  let store: ParsedTranscript[];
+  let sink: RecordingSink;
+  let service: SavedSearchService;
+
+  // Stands in for the search pipeline: a transcript matches when its text
+  // contains the query.
+  const transcriptService = {
+    getTranscripts: () => store,
+    searchTranscripts: (query: string) => ({
+      results: store
+        .filter((t) => t.messages.some((m) => m.content.includes(query)))
+        .map((t) => ({ transcript: t, relevanceScore: 1 })),
+    }),
+  } as unknown as TranscriptProcessingService;
+
+  beforeEach(() => {
+    store = [transcript('old', 'quiero la portabilidad de mi número')];
+    sink = new RecordingSink();
+    service = new SavedSearchService(
+      new InMemorySavedSearchRepository(),
+      transcriptService,
+      sink,
+    );
+  });
+
+  it('only reports transcripts that match after the search was saved', async () => {
+    const saved = service.create('Portabilidad', { query: 'portabilidad' });
+    expect((await service.run(saved.id))!.newMatches).toEqual([]);
+
+    store.push(transcript('new', 'consulta por portabilidad'));
+    const result = await service.run(saved.id);
+
+    expect(result!.newMatches.map((m) => m.transcriptId)).toEqual(['new']);
+    expect(sink.delivered).toHaveLength(1);
+    expect(sink.delivered[0].name).toBe('Portabilidad');
+    expect(service.findById(saved.id)!.matches).toHaveLength(1);
+
+    expect((await service.run(saved.id))!.newMatches).toEqual([]);
+    expect(sink.delivered).toHaveLength(1);
+  });
+
+  it('offers undelivered matches again on the next run', async () => {
+    const saved = service.create('Portabilidad', { query: 'portabilidad' });
+    store.push(transcript('new', 'consulta por portabilidad'));
+
+    sink.failWith = new Error('Webhook answered 503 Service Unavailable');
+    const failed = await service.run(saved.id);
+    expect(failed!.error).toContain('503');
+    expect(service.findById(saved.id)!.lastError).toContain('503');
+
+    sink.failWith = null;
+    const retried = await service.runAll();
+    expect(retried[0].newMatches.map((m) => m.transcriptId)).toEqual(['new']);
+    expect(service.findById(saved.id)!.lastError).toBeUndefined();
+  });
+
+  it('reports a transcript again after it was removed and re-ingested', async () => {
+    const saved = service.create('Portabilidad', { query: 'portabilidad' });
+    const [old] = store;
+
+    store = [];
+    await service.run(saved.id);
+    store = [old];
+
+    expect(
+      (await service.run(saved.id))!.newMatches.map((m) => m.transcriptId),
+    ).toEqual(['old']);
+  });
+
+  it('does not deliver twice when a run starts during another', async () => {
+    const saved = service.create('Portabilidad', { query: 'portabilidad' });
+    store.push(transcript('new', 'consulta por portabilidad'));
+    let release!: () => void;
+    sink.gate = new Promise((resolve) => (release = resolve));
+
+    const scheduled = service.runAll();
+    const manual = service.run(saved.id);
+    release();
+
+    expect((await scheduled)[0].newMatches.map((m) => m.transcriptId)).toEqual([
+      'new',
+    ]);
+    expect((await manual)!.newMatches).toEqual([]);
+    expect(sink.delivered).toHaveLength(1);
+  });
+
+  it('waits for queued runs before reporting idle', async () => {
+    const saved = service.create('Portabilidad', { query: 'portabilidad' });
+    store.push(transcript('new', 'consulta por portabilidad'));
+    let release!: () => void;
+    sink.gate = new Promise((resolve) => (release = resolve));
+
+    void service.run(saved.id);
+    const idle = service.whenIdle();
+    release();
+    await idle;
+
+    expect(service.findById(saved.id)!.matches).toHaveLength(1);
+  });
+
+  it('starts over from the current matches when the parameters change', async () => {
+    const saved = service.create('Cargos', { query: 'cargo no reconocido' });
+    store.push(transcript('new', 'consulta por portabilidad'));
+
+    await service.update(saved.id, 'Portabilidad', { query: 'portabilidad' });
+
+    expect((await service.run(saved.id))!.newMatches).toEqual([]);
+    await expect(service.update('missing', 'x', { query: 'x' })).resolves.toBe(
+      null,
+    );
+  });
+
+  it('applies an update only after the run in progress has saved', async () => {
+    const saved = service.create('Cargos', { query: 'cargo no reconocido' });
+    store.push(
+      transcript('charge', 'tengo un cargo no reconocido'),
+      transcript('portability', 'consulta por portabilidad'),
+    );
+    let release!: () => void;
+    sink.gate = new Promise((resolve) => (release = resolve));
+
+    const run = service.run(saved.id);
+    // Lets the run reach the sink before the update comes in.
+    await new Promise((resolve) => setImmediate(resolve));
+    const update = service.update(saved.id, 'Portabilidad', {
+      query: 'portabilidad',
+    });
+    release();
+    await run;
+    await update;
+
+    const updated = service.findById(saved.id)!;
+    expect(updated.params).toEqual({ query: 'portabilidad' });
+    expect(updated.seenTranscriptIds).toContain('portability');
+    expect(updated.seenTranscriptIds).not.toContain('charge');
+    expect((await service.run(saved.id))!.newMatches).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  SavedSearch,
+  SavedSearchMatch,
+  SavedSearchParams,
+  SavedSearchRunResult,
+} from '../interfaces/saved-search.interface';
+import { SavedSearchRepository } from '../repositories/saved-search.repository';
+import { NotificationSink } from '../notifications/notification-sink';
+import { TranscriptProcessingService } from './transcript-processing.service';
+
+// Matches kept on each saved search for GET /api/saved-searches/:id; the
+// sink has received all of them.
+const MAX_RECORDED_MATCHES = 100;
+
+/**
+ * Watch queries that are re-run against the transcript store. A saved
+ * search starts from the transcripts matching when it was saved, so each
+ * run only reports transcripts that were ingested (or changed to match)
+ * since.
+ */
+@Injectable()
+export class SavedSearchService implements OnModuleInit {
+  private readonly logger = new Logger(SavedSearchService.name);
+  private running: Promise<SavedSearchRunResult[]> | null = null;
+  /** Tail of the runs in progress or waiting, settled or not. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly repository: SavedSearchRepository,
+    private readonly transcriptService: TranscriptProcessingService,
+    private readonly notificationSink: NotificationSink,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.repository.load();
+  }
+
+  findAll(): SavedSearch[] {
+    return this.repository
+      .findAll()
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  findById(id: string): SavedSearch | undefined {
+    return this.repository.findById(id);
+  }
+
+  /** Throws QueryParseError when the query is malformed. */
+  create(name: string, params: SavedSearchParams): SavedSearch {
+    const now = new Date().toISOString();
+    const savedSearch: SavedSearch = {
+      id: randomUUID(),
+      name,
+      params,
+      createdAt: now,
+      updatedAt: now,
+      matches: [],
+      seenTranscriptIds: this.matchingTranscriptIds(params),
+    };
+
+    this.repository.save(savedSearch);
+    return savedSearch;
+  }
+
+  /**
+   * Replaces the name and parameters. Changed parameters start from the
+   * transcripts they match now, like a new search; recorded matches stay.
+   * Waits for the runs in progress, which would otherwise save the old
+   * parameters' results over the update.
+   */
+  update(
+    id: string,
+    name: string,
+    params: SavedSearchParams,
+  ): Promise<SavedSearch | null> {
+    return this.enqueue(() => {
+      const savedSearch = this.repository.findById(id);
+      if (!savedSearch) {
+        return null;
+      }
+
+      if (JSON.stringify(params) !== JSON.stringify(savedSearch.params)) {
+        savedSearch.seenTranscriptIds = this.matchingTranscriptIds(params);
+        savedSearch.params = params;
+        savedSearch.lastError = undefined;
+      }
+      savedSearch.name = name;
+      savedSearch.updatedAt = new Date().toISOString();
+
+      this.repository.save(savedSearch);
+      return savedSearch;
+    });
+  }
+
+  delete(id: string): boolean {
+    return this.repository.delete(id);
+  }
+
+  /** Starts once the runs already in progress or waiting have finished. */
+  run(id: string): Promise<SavedSearchRunResult | null> {
+    return this.enqueue(async () => {
+      const savedSearch = this.repository.findById(id);
+      return savedSearch ? this.evaluate(savedSearch) : null;
+    });
+  }
+
+  /** Runs every saved search; overlapping calls share the same run. */
+  runAll(): Promise<SavedSearchRunResult[]> {
+    this.running ??= this.enqueue(() => this.evaluateAll()).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /** Resolves once the runs in progress or waiting have finished. */
+  async whenIdle(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Runs one after another: two runs of the same search at once would
+   * both see its new matches as unseen and deliver them twice.
+   */
+  private enqueue<T>(task: () => T | Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async evaluateAll(): Promise<SavedSearchRunResult[]> {
+    const results: SavedSearchRunResult[] = [];
+    for (const savedSearch of this.findAll()) {
+      results.push(await this.evaluate(savedSearch));
+    }
+
+    const found = results.filter((r) => r.newMatches.length > 0 && !r.error);
+    if (found.length > 0) {
+      this.logger.log(
+        `Saved searches run: ${found.length} of ${results.length} found new matches`,
+      );
+    }
+    return results;
+  }
+
+  private async evaluate(
+    savedSearch: SavedSearch,
+  ): Promise<SavedSearchRunResult> {
+    const detectedAt = new Date().toISOString();
+    const result: SavedSearchRunResult = {
+      savedSearchId: savedSearch.id,
+      newMatches: [],
+    };
+
+    // Transcripts removed from the store are forgotten, so they count as
+    // new if they are ingested again.
+    const stored = new Set(
+      this.transcriptService.getTranscripts().map((t) => t.id),
+    );
+    const seen = new Set(
+      savedSearch.seenTranscriptIds.filter((id) => stored.has(id)),
+    );
+
+    try {
+      result.newMatches = this.search(savedSearch.params)
+        .filter((match) => !seen.has(match.transcriptId))
+        .map((match) => ({ ...match, matchedAt: detectedAt }));
+
+      if (result.newMatches.length > 0) {
+        await this.notificationSink.deliver({
+          savedSearchId: savedSearch.id,
+          name: savedSearch.name,
+          params: savedSearch.params,
+          matches: result.newMatches,
+          detectedAt,
+        });
+
+        result.newMatches.forEach((match) => seen.add(match.transcriptId));
+        savedSearch.matches = [
+          ...result.newMatches,
+          ...savedSearch.matches,
+        ].slice(0, MAX_RECORDED_MATCHES);
+      }
+      savedSearch.lastError = undefined;
+    } catch (error) {
+      // Undelivered matches stay unseen and are offered again next run.
+      result.error = error instanceof Error ? error.message : String(error);
+      savedSearch.lastError = result.error;
+      this.logger.warn(
+        `Saved search "${savedSearch.name}" (${savedSearch.id}) failed: ${result.error}`,
+      );
+    }
+
+    savedSearch.seenTranscriptIds = Array.from(seen);
+    savedSearch.lastRunAt = detectedAt;
+    // Deleted while the sink was busy.
+    if (this.repository.findById(savedSearch.id)) {
+      this.repository.save(savedSearch);
+    }
+    return result;
+  }
+
+  private matchingTranscriptIds(params: SavedSearchParams): string[] {
+    return this.search(params).map((match) => match.transcriptId);
+  }
+
+  private search(
+    params: SavedSearchParams,
+  ): Array<Omit<SavedSearchMatch, 'matchedAt'>> {
+    const { results } = this.transcriptService.searchTranscripts(
+      params.query,
+      {
+        category: params.category,
+        topic: params.topic,
+        sentiment: params.sentiment,
+        agent: params.agent,
+        duration: params.duration,
+      },
+      1,
+      Number.MAX_SAFE_INTEGER,
+      {
+        agentName: params.agentName,
+        customerName: params.customerName,
+        outcome: params.outcome,
+        supervisorInvolvement: params.supervisorInvolvement,
+      },
+      0,
+    );
+
+    return results.map(({ transcript, relevanceScore }) => ({
+      transcriptId: transcript.id,
+      fileName: transcript.fileName,
+      category: transcript.category,
+      relevanceScore,
+    }));
+  }
+}
@@ -0,0 +1,118 @@
+import { ConfigService } from '@nestjs/config';
+import { SemanticSearchService } from './semantic-search.service';
+import { TranscriptSearchService } from './transcript-search.service';
+import { PiiRedactionService } from './pii-redaction.service';
+import { CacheService } from './cache.service';
+import { SpeakerRoleMapper } from '../parsers/speaker-role.mapper';
+import { LocalEmbeddingProvider } from '../embeddings/local-embedding.provider';
+import { chunkByTurns } from '../embeddings/turn-window-chunker';
+import { SpanishAnalyzer } from '../search/spanish-analyzer';
+import {
+  ParsedTranscript,
+  TranscriptMessage,
+} from '../interfaces/transcript.interface';
+
+function transcript(
+  id: string,
+  category: string,
+  messages: Array<[TranscriptMessage['speaker'], string]>,
+): ParsedTranscript {
+  return {
+    id,
+    fileName: `${id}.txt`,
+    category,
+    contentHash: id,
+    messages: messages.map(([speaker, content], index) => ({
+      timestamp: `00:00:${String(index * 10).padStart(2, '0')}`,
+      speaker,
+      speakerLabel: speaker,
+      content,
+    })),
+  };
+}
+
+describe('SemanticSearchService', () => {
+  const corpus = [
+    transcript('refund', 'billing_issues', [
+      ['AGENT', 'Buenos días, ¿en qué puedo ayudarle?'],
+      ['CLIENT', 'Me cobraron dos veces la boleta y quiero un reembolso.'],
+      ['AGENT', 'Reviso los cobros de su cuenta.'],
+      ['AGENT', 'Listo, la devolución llega en cinco días.'],
+      ['CLIENT', 'Gracias.'],
+    ]),
+    transcript('signal', 'technical_issues', [
+      ['AGENT', 'Buenas tardes.'],
+      ['CLIENT', 'Mi celular no tiene señal desde ayer.'],
+      ['AGENT', 'Vamos a reiniciar la configuración de red.'],
+    ]),
+  ];
+  let service: SemanticSearchService;
+
+  beforeEach(async () => {
+    const config = new ConfigService({ TRANSCRIPT_STORE: 'memory' });
+    const searchService = new TranscriptSearchService(
+      config,
+      new SpeakerRoleMapper(config),
+    );
+    searchService.rebuild(corpus);
+    service = new SemanticSearchService(
+      config,
+      new LocalEmbeddingProvider(new SpanishAnalyzer([])),
+      new PiiRedactionService(config),
+      searchService,
+      new CacheService(config),
+    );
+    service.sync(corpus);
+    await service.whenIndexed();
+  });
+
+  it('returns the nearest window of turns', async () => {
+    const [best] = await service.search('me cobraron doble', { limit: 1 });
+
+    expect(best.transcriptId).toBe('refund');
+    expect(best.chunk.messages.map((m) => m.content)).toContain(
+      'Me cobraron dos veces la boleta y quiero un reembolso.',
+    );
+    expect(best.semanticScore).toBeGreaterThan(0);
+  });
+
+  it('blends in the lexical score and filters by category', async () => {
+    const lexicalOnly = await service.search('señal', { semanticWeight: 0 });
+    expect(lexicalOnly[0]).toEqual(
+      expect.objectContaining({ transcriptId: 'signal', score: 1 }),
+    );
+
+    const billing = await service.search('señal', {
+      category: 'billing_issues',
+    });
+    expect(billing.every((r) => r.transcriptId === 'refund')).toBe(true);
+  });
+
+  it('drops the vectors of removed transcripts', async () => {
+    service.removeTranscript('signal');
+    await service.whenIndexed();
+
+    const results = await service.search('celular sin señal');
+    expect(results.map((r) => r.transcriptId)).not.toContain('signal');
+  });
+});
+
+describe('chunkByTurns', () => {
+  it('covers the conversation with overlapping windows', () => {
+    const messages = Array.from({ length: 6 }, (_, i) => ({
+      timestamp: '00:00:00',
+      speaker: i === 5 ? ('SYSTEM' as const) : ('CLIENT' as const),
+      speakerLabel: 'CLIENTE',
+      content: `turno ${i}`,
+    }));
+
+    const chunks = chunkByTurns(messages, 3, 1);
+
+    expect(chunks.map((c) => [c.startIndex, c.endIndex])).toEqual([
+      [0, 2],
+      [2, 4],
+      [4, 5],
+    ]);
+    expect(chunks[2].text).toBe('CLIENTE: turno 4');
+  });
+});
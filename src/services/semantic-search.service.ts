@@ -0,0 +1,239 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { join } from 'path';
+import {
+  ParsedTranscript,
+  SemanticSearchResult,
+} from '../interfaces/transcript.interface';
+import { EmbeddingProvider } from '../embeddings/embedding.provider';
+import { chunkByTurns } from '../embeddings/turn-window-chunker';
+import { VectorIndex } from '../embeddings/vector-index';
+import { CacheService } from './cache.service';
+import { PiiRedactionService } from './pii-redaction.service';
+import { TranscriptSearchService } from './transcript-search.service';
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  category?: string;
+  /** Share of the semantic score in the blend; the rest is lexical. */
+  semanticWeight?: number;
+}
+
+// Chunks considered before blending in the lexical score, so a chunk just
+// outside the nearest `limit` can still win on keywords.
+const CANDIDATE_FACTOR = 5;
+
+/**
+ * Semantic search over turn windows. Transcripts are chunked, redacted and
+ * embedded in the background as they are loaded or changed; requests
+ * search whatever has been embedded so far.
+ */
+@Injectable()
+export class SemanticSearchService implements OnModuleDestroy {
+  private readonly logger = new Logger(SemanticSearchService.name);
+  private readonly vectors: VectorIndex;
+  private readonly transcripts = new Map<string, ParsedTranscript>();
+  private readonly chunkTurns: number;
+  private readonly chunkOverlap: number;
+  private readonly semanticWeight: number;
+  private loading: Promise<void> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private configService: ConfigService,
+    private readonly embeddingProvider: EmbeddingProvider,
+    private readonly piiRedactionService: PiiRedactionService,
+    private readonly searchService: TranscriptSearchService,
+    private readonly cacheService: CacheService,
+  ) {
+    const persist =
+      this.configService.get<string>('TRANSCRIPT_STORE', 'file') !== 'memory';
+    this.vectors = new VectorIndex(
+      this.embeddingProvider.model,
+      persist
+        ? this.configService.get<string>(
+            'VECTOR_INDEX_PATH',
+            join(process.cwd(), 'data', 'vectors.json'),
+          )
+        : null,
+    );
+
+    this.chunkTurns = Math.max(
+      1,
+      Number(this.configService.get<number>('SEMANTIC_CHUNK_TURNS', 4)) || 4,
+    );
+    this.chunkOverlap = Math.max(
+      0,
+      Number(this.configService.get<number>('SEMANTIC_CHUNK_OVERLAP', 1)) || 0,
+    );
+    const weight = Number(
+      this.configService.get<number>('SEMANTIC_WEIGHT', 0.7),
+    );
+    this.semanticWeight = weight >= 0 && weight <= 1 ? weight : 0.7;
+
+    this.logger.log(
+      `Semantic search using ${this.embeddingProvider.model} (${this.chunkTurns}-turn chunks, semantic weight ${this.semanticWeight})`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.queue;
+    await this.vectors.flush();
+  }
+
+  /** Embeds transcripts whose content changed and drops vanished ones. */
+  sync(transcripts: ParsedTranscript[]): void {
+    const ids = new Set(transcripts.map((t) => t.id));
+    this.transcripts.clear();
+    transcripts.forEach((t) => this.transcripts.set(t.id, t));
+
+    this.enqueue(async () => {
+      this.vectors
+        .transcriptIds()
+        .filter((id) => !ids.has(id))
+        .forEach((id) => this.vectors.delete(id));
+
+      let embedded = 0;
+      for (const transcript of transcripts) {
+        if (await this.embedTranscript(transcript)) embedded++;
+      }
+      this.logger.log(
+        `Semantic index ready: ${this.vectors.size} chunks (${embedded} transcripts embedded)`,
+      );
+    });
+  }
+
+  indexTranscript(transcript: ParsedTranscript): void {
+    this.transcripts.set(transcript.id, transcript);
+    this.enqueue(async () => {
+      await this.embedTranscript(transcript);
+    });
+  }
+
+  removeTranscript(id: string): void {
+    this.transcripts.delete(id);
+    this.enqueue(() => {
+      this.vectors.delete(id);
+      return Promise.resolve();
+    });
+  }
+
+  /** Resolves once every queued transcript has been embedded. */
+  whenIndexed(): Promise<void> {
+    return this.queue;
+  }
+
+  async search(
+    query: string,
+    options: SemanticSearchOptions = {},
+  ): Promise<SemanticSearchResult[]> {
+    await this.load();
+
+    const limit = options.limit ?? 10;
+    const semanticWeight = options.semanticWeight ?? this.semanticWeight;
+    const lexical = this.searchService.lexicalScores(query);
+    const vector = await this.embedQuery(query);
+
+    const results: SemanticSearchResult[] = [];
+    for (const match of this.vectors.nearest(
+      vector,
+      limit * CANDIDATE_FACTOR,
+    )) {
+      const transcript = this.transcripts.get(match.transcriptId);
+      if (
+        !transcript ||
+        (options.category && transcript.category !== options.category)
+      ) {
+        continue;
+      }
+
+      const semanticScore = Math.max(0, match.similarity);
+      const lexicalScore = lexical.get(transcript.id) ?? 0;
+      results.push({
+        transcriptId: transcript.id,
+        fileName: transcript.fileName,
+        category: transcript.category,
+        score: round(
+          semanticWeight * semanticScore + (1 - semanticWeight) * lexicalScore,
+        ),
+        semanticScore: round(semanticScore),
+        lexicalScore: round(lexicalScore),
+        chunk: {
+          startIndex: match.startIndex,
+          endIndex: match.endIndex,
+          messages: transcript.messages.slice(
+            match.startIndex,
+            match.endIndex + 1,
+          ),
+        },
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.vectors.load();
+    return this.loading;
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(() => this.load())
+      .then(task)
+      .catch((error) => {
+        this.logger.error('Error updating the semantic index:', error);
+      });
+  }
+
+  /** Returns false when the stored vectors are still current. */
+  private async embedTranscript(
+    transcript: ParsedTranscript,
+  ): Promise<boolean> {
+    if (this.vectors.isCurrent(transcript.id, transcript.contentHash)) {
+      return false;
+    }
+
+    // Chunks are embedded from redacted text so no PII reaches a remote
+    // provider.
+    const { messages } = this.piiRedactionService.redactMessages(
+      transcript.messages,
+    );
+    const chunks = chunkByTurns(messages, this.chunkTurns, this.chunkOverlap);
+    const vectors = await this.embeddingProvider.embed(
+      chunks.map((chunk) => chunk.text),
+    );
+
+    this.vectors.set(
+      transcript.id,
+      transcript.contentHash,
+      chunks.map((chunk, i) => ({
+        startIndex: chunk.startIndex,
+        endIndex: chunk.endIndex,
+        vector: vectors[i].map((x) => Math.round(x * 1e6) / 1e6),
+      })),
+    );
+    return true;
+  }
+
+  private async embedQuery(query: string): Promise<number[]> {
+    const cacheKey = this.cacheService.generateKey('embedding', {
+      model: this.embeddingProvider.model,
+      query,
+    });
+    const cached = this.cacheService.get<number[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const [vector] = await this.embeddingProvider.embed([
+      this.piiRedactionService.redactText(query).text,
+    ]);
+    this.cacheService.set(cacheKey, vector);
+    return vector;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,86 @@
+import { TranscriptMetadataService } from './transcript-metadata.service';
+import { TranscriptMessage } from '../interfaces/transcript.interface';
+
+function message(
+  speaker: TranscriptMessage['speaker'],
+  content: string,
+): TranscriptMessage {
+  return { timestamp: '00:00:00', speaker, speakerLabel: speaker, content };
+}
+
+describe('TranscriptMetadataService', () => {
+  const service = new TranscriptMetadataService();
+
+  it('extracts agent and customer names from the greeting', () => {
+    const metadata = service.extractMetadata([
+      message(
+        'AGENT',
+        'Buenos días, le atiende Carlos. ¿Con quién tengo el gusto?',
+      ),
+      message('CLIENT', 'Hola, buen día. Soy Mariana López.'),
+      message('AGENT', 'Un gusto, Mariana. ¿En qué puedo ayudarte hoy?'),
+      message('AGENT', 'Que tenga un buen día. Hasta luego.'),
+      message('SYSTEM', '[Llamada finalizada]'),
+    ]);
+
+    expect(metadata).toEqual({
+      agentName: 'Carlos',
+      customerName: 'Mariana López',
+      outcome: 'completed',
+      supervisorInvolvement: 'none',
+    });
+  });
+
+  it('accepts "Con <name>" as an answer to the greeting', () => {
+    const metadata = service.extractMetadata([
+      message('AGENT', 'Les saluda Valeria. ¿Con quién tengo el gusto?'),
+      message(
+        'CLIENT',
+        'Con Andrea Silva. Quiero hablar directamente con un supervisor.',
+      ),
+    ]);
+
+    expect(metadata.agentName).toBe('Valeria');
+    expect(metadata.customerName).toBe('Andrea Silva');
+    expect(metadata.supervisorInvolvement).toBe('requested');
+    expect(metadata.outcome).toBe('unknown');
+  });
+
+  it('detects transfers and supervisors joining the call', () => {
+    const metadata = service.extractMetadata([
+      message('CLIENT', '¿Puedo hablar con un supervisor?'),
+      message(
+        'AGENT',
+        'Permítame un momento para transferirlo a mi supervisor.',
+      ),
+      message('SUPERVISOR', 'Buenas tardes, mi nombre es Laura Martínez.'),
+      message('SYSTEM', 'Llamada finalizada.'),
+    ]);
+
+    expect(metadata.outcome).toBe('transferred');
+    expect(metadata.supervisorInvolvement).toBe('joined');
+  });
+
+  it('reads end-of-call markers from unlabelled lines', () => {
+    const metadata = service.extractMetadata(
+      [message('CLIENT', '¿Aló? ¿Me escucha?')],
+      [
+        {
+          lineNumber: 12,
+          content: '[LLAMADA CORTADA]',
+          reason: 'missing_speaker',
+        },
+      ],
+    );
+
+    expect(metadata.outcome).toBe('dropped');
+  });
+
+  it('recognises an agent consulting their supervisor', () => {
+    const metadata = service.extractMetadata([
+      message('AGENT', 'He consultado con mi supervisor y sí podemos hacerlo.'),
+    ]);
+
+    expect(metadata.supervisorInvolvement).toBe('consulted');
+  });
+});
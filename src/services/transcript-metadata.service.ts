@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common';
+import {
+  CallOutcome,
+  SkippedLine,
+  SupervisorInvolvement,
+  TranscriptMessage,
+  TranscriptMetadata,
+} from '../interfaces/transcript.interface';
+
+const NAME = String.raw`(\p{Lu}\p{Ll}+(?:\s+\p{Lu}\p{Ll}+){0,2})`;
+
+const AGENT_INTRODUCTION = new RegExp(
+  String.raw`\b(?:[Ll]es?\s+|[Tt]e\s+)?(?:atiende|habla|saluda)\s+${NAME}|(?:\b[Mm]e llamo|\b[Mm]i nombre es|\b[Ss]oy)\s+${NAME}`,
+  'u',
+);
+
+// "¿Con quién tengo el gusto?" is usually answered with "Con Andrea Silva".
+const CUSTOMER_INTRODUCTION = new RegExp(
+  String.raw`(?:\b[Ss]oy|\b[Mm]e llamo|\b[Mm]i nombre es)\s+${NAME}|^(?:[Hh]ola[,.!]?\s*)?[Cc]on\s+${NAME}`,
+  'u',
+);
+
+// Greetings happen in the first turns; later matches are usually third
+// parties ("soy amiga de Pedro") rather than the participant.
+const INTRODUCTION_TURNS = 3;
+
+// Rules run on lowercased text without accents.
+const TRANSFERRED_MARKER = /transfer|derivad|traspas/;
+const DROPPED_MARKER =
+  /cortad|se corto|caid|interrumpid|desconect|perdio la conexion|abandon|dropped|disconnected/;
+const COMPLETED_MARKER = /finaliz|fin de la llamada|terminad|ended|completed/;
+const AGENT_TRANSFER =
+  /\b(?:le|lo|la|te)\s+(?:transfiero|derivo|traspaso)\b|\b(?:voy a|vamos a|procedo a|procedere a|para)\s+(?:transferir|derivar|traspasar)(?:le|lo|la|te)?\b/;
+const FAREWELL =
+  /hasta luego|adios|cha[ou]\b|que tengas? (?:un )?(?:buen|excelente|lindo)|que este (?:muy )?bien|gracias por (?:su |tu )?llamad|gracias por comunicarse|gracias por preferir/;
+
+const SUPERVISOR = /supervisor/;
+const SUPERVISOR_CONSULTED =
+  /(?:consult|habl|verifiqu|revis|coordin)\w*\s+con\s+(?:mi|el|la|un|una|nuestro|nuestra)\s+supervisora?|supervisora?\s+(?:me\s+)?(?:autoriz|aprob|confirm)|(?:transfier|deriv|pas)\w*\s+(?:con|a)\s+(?:mi|el|la|un|una)\s+supervisora?/;
+const SUPERVISOR_REQUESTED =
+  /(?:hablar(?:\s+directamente)?|ponga\w*)\s+con\s+(?:un|una|el|la|su|tu|algun|alguna)\s+(?:supervisora?|jefe|jefa|superior|encargad[oa]|gerente)/;
+
+@Injectable()
+export class TranscriptMetadataService {
+  extractMetadata(
+    messages: TranscriptMessage[],
+    skippedLines: SkippedLine[] = [],
+  ): TranscriptMetadata {
+    // End-of-call markers show up as SYSTEM turns or, in plain text
+    // exports, as unlabelled lines such as "[FIN DE LA LLAMADA]".
+    const markers = [
+      ...messages.filter((m) => m.speaker === 'SYSTEM').map((m) => m.content),
+      ...skippedLines.map((line) => line.content),
+    ].map(normalize);
+
+    return {
+      agentName: this.findName(messages, 'AGENT', AGENT_INTRODUCTION),
+      customerName: this.findName(messages, 'CLIENT', CUSTOMER_INTRODUCTION),
+      outcome: this.detectOutcome(messages, markers),
+      supervisorInvolvement: this.detectSupervisorInvolvement(
+        messages,
+        markers,
+      ),
+    };
+  }
+
+  private findName(
+    messages: TranscriptMessage[],
+    speaker: TranscriptMessage['speaker'],
+    pattern: RegExp,
+  ): string | undefined {
+    const turns = messages
+      .filter((m) => m.speaker === speaker)
+      .slice(0, INTRODUCTION_TURNS);
+
+    for (const turn of turns) {
+      const match = turn.content.match(pattern);
+      const name = match?.slice(1).find(Boolean);
+      if (name) {
+        return name;
+      }
+    }
+
+    return undefined;
+  }
+
+  private detectOutcome(
+    messages: TranscriptMessage[],
+    markers: string[],
+  ): CallOutcome {
+    const agentTurns = messages
+      .filter((m) => m.speaker === 'AGENT')
+      .map((m) => normalize(m.content));
+
+    if (
+      markers.some((marker) => TRANSFERRED_MARKER.test(marker)) ||
+      agentTurns.some((turn) => AGENT_TRANSFER.test(turn))
+    ) {
+      return 'transferred';
+    }
+
+    if (markers.some((marker) => DROPPED_MARKER.test(marker))) {
+      return 'dropped';
+    }
+
+    if (markers.some((marker) => COMPLETED_MARKER.test(marker))) {
+      return 'completed';
+    }
+
+    const closing = messages
+      .filter((m) => m.speaker !== 'SYSTEM')
+      .slice(-3)
+      .map((m) => normalize(m.content));
+
+    return closing.some((turn) => FAREWELL.test(turn))
+      ? 'completed'
+      : 'unknown';
+  }
+
+  private detectSupervisorInvolvement(
+    messages: TranscriptMessage[],
+    markers: string[],
+  ): SupervisorInvolvement {
+    if (
+      messages.some((m) => m.speaker === 'SUPERVISOR') ||
+      markers.some((marker) => SUPERVISOR.test(marker))
+    ) {
+      return 'joined';
+    }
+
+    const agentTurns = messages
+      .filter((m) => m.speaker === 'AGENT')
+      .map((m) => normalize(m.content));
+    if (agentTurns.some((turn) => SUPERVISOR_CONSULTED.test(turn))) {
+      return 'consulted';
+    }
+
+    const clientTurns = messages
+      .filter((m) => m.speaker === 'CLIENT')
+      .map((m) => normalize(m.content));
+    if (clientTurns.some((turn) => SUPERVISOR_REQUESTED.test(turn))) {
+      return 'requested';
+    }
+
+    return 'none';
+  }
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
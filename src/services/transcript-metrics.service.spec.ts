@@ -0,0 +1,211 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { TranscriptMetricsService } from './transcript-metrics.service';
+import { TranscriptParserRegistry } from '../parsers/transcript-parser.registry';
+import { SpeakerRoleMapper } from '../parsers/speaker-role.mapper';
+import {
+  ParsedTranscript,
+  TranscriptMessage,
+  TranscriptMetrics,
+} from '../interfaces/transcript.interface';
+
+function message(
+  timestamp: string,
+  speaker: TranscriptMessage['speaker'],
+  content: string,
+): TranscriptMessage {
+  return { timestamp, speaker, speakerLabel: speaker, content };
+}
+
+function transcript(id: string, metrics?: TranscriptMetrics): ParsedTranscript {
+  return { id, fileName: `${id}.txt`, messages: [], metrics };
+}
+
+function metrics(overrides: Partial<TranscriptMetrics>): TranscriptMetrics {
+  return {
+    durationSeconds: 0,
+    talkTimeSeconds: {},
+    longGaps: { count: 0, totalSeconds: 0, gaps: [] },
+    timeToFirstAgentResponseSeconds: null,
+    ...overrides,
+  };
+}
+
+describe('TranscriptMetricsService', () => {
+  const service = new TranscriptMetricsService(new ConfigService());
+
+  describe('sample_01', () => {
+    const registry = new TranscriptParserRegistry(
+      new SpeakerRoleMapper(new ConfigService()),
+    );
+    const { messages } = registry.parse(
+      'sample_01.txt',
+      readFileSync(join(__dirname, '../../sample/sample_01.txt'), 'utf-8'),
+    );
+    const result = service.calculateMetrics(messages);
+
+    it('measures the call from the first to the last timestamp', () => {
+      expect(result.durationSeconds).toBe(188);
+    });
+
+    it('finds the holds longer than LONG_GAP_THRESHOLD_SECONDS', () => {
+      expect(result.longGaps).toEqual({
+        count: 2,
+        totalSeconds: 71,
+        gaps: [
+          {
+            from: '00:00:34',
+            to: '00:01:10',
+            seconds: 36,
+            before: 'AGENT',
+            after: 'AGENT',
+          },
+          {
+            from: '00:01:37',
+            to: '00:02:12',
+            seconds: 35,
+            before: 'AGENT',
+            after: 'AGENT',
+          },
+        ],
+      });
+    });
+
+    it('times the first agent answer to the first customer turn', () => {
+      expect(result.timeToFirstAgentResponseSeconds).toBe(3);
+    });
+  });
+
+  it('estimates talk time from words, capped at the next turn', () => {
+    const result = service.calculateMetrics([
+      message('00:00:00', 'AGENT', 'uno dos tres cuatro cinco'),
+      message(
+        '00:00:10',
+        'CLIENT',
+        'uno dos tres cuatro cinco seis siete ocho nueve diez',
+      ),
+      message('00:00:12', 'AGENT', 'uno dos tres cuatro cinco'),
+      message('00:00:20', 'SYSTEM', '[Llamada finalizada]'),
+    ]);
+
+    // 5 words at 2.5 words/s = 2s; the customer's 4s turn is cut to 2s.
+    expect(result.talkTimeSeconds).toEqual({ AGENT: 4, CLIENT: 2 });
+    expect(result.durationSeconds).toBe(20);
+  });
+
+  it('counts gaps at exactly the configured threshold', () => {
+    const strict = new TranscriptMetricsService(
+      new ConfigService({ LONG_GAP_THRESHOLD_SECONDS: '30' }),
+    );
+
+    const result = strict.calculateMetrics([
+      message('00:00:00', 'AGENT', 'Un momento, por favor.'),
+      message('00:00:30', 'AGENT', 'Gracias por esperar.'),
+      message('00:00:59', 'CLIENT', 'Sigo aquí.'),
+    ]);
+
+    expect(result.longGaps.count).toBe(1);
+    expect(result.longGaps.gaps[0]).toMatchObject({ seconds: 30 });
+  });
+
+  it.each([
+    ['zero', '0'],
+    ['not a number', 'fast'],
+  ])('falls back to the defaults when the settings are %s', (_, value) => {
+    const misconfigured = new TranscriptMetricsService(
+      new ConfigService({
+        LONG_GAP_THRESHOLD_SECONDS: value,
+        SPEECH_RATE_WORDS_PER_SECOND: value,
+      }),
+    );
+    const messages = [
+      message('00:00:00', 'AGENT', 'uno dos tres cuatro cinco'),
+      message('00:00:10', 'CLIENT', 'uno dos tres cuatro cinco'),
+    ];
+
+    expect(misconfigured.calculateMetrics(messages)).toEqual(
+      service.calculateMetrics(messages),
+    );
+  });
+
+  it('measures the duration from the earliest to the latest timestamp', () => {
+    const result = service.calculateMetrics([
+      message('00:00:30', 'AGENT', 'Gracias por esperar.'),
+      message('00:00:00', 'AGENT', 'Buenos días.'),
+      message('00:00:45', 'CLIENT', 'Gracias.'),
+      message('00:00:10', 'CLIENT', 'Hola.'),
+    ]);
+
+    expect(result.durationSeconds).toBe(45);
+  });
+
+  it('ignores agent turns before the customer first speaks', () => {
+    const result = service.calculateMetrics([
+      message('00:00:00', 'AGENT', 'Buenos días.'),
+      message('00:00:05', 'CLIENT', 'Hola.'),
+      message('00:00:09', 'AGENT', '¿En qué le ayudo?'),
+    ]);
+
+    expect(result.timeToFirstAgentResponseSeconds).toBe(4);
+  });
+
+  it('has no first response when no agent answers the customer', () => {
+    const unanswered = service.calculateMetrics([
+      message('00:00:00', 'AGENT', 'Buenos días.'),
+      message('00:00:05', 'CLIENT', '¿Hola?'),
+      message('00:00:15', 'CLIENT', '¿Hay alguien?'),
+    ]);
+    const silent = service.calculateMetrics([
+      message('00:00:00', 'AGENT', 'Buenos días.'),
+    ]);
+
+    expect(unanswered.timeToFirstAgentResponseSeconds).toBeNull();
+    expect(silent.timeToFirstAgentResponseSeconds).toBeNull();
+  });
+
+  it('aggregates transcripts, skipping those without metrics', () => {
+    const statistics = service.aggregate([
+      transcript(
+        'answered',
+        metrics({
+          durationSeconds: 100,
+          talkTimeSeconds: { AGENT: 30, CLIENT: 10 },
+          longGaps: { count: 1, totalSeconds: 30, gaps: [] },
+          timeToFirstAgentResponseSeconds: 4,
+        }),
+      ),
+      transcript(
+        'unanswered',
+        metrics({
+          durationSeconds: 50,
+          talkTimeSeconds: { AGENT: 10, CLIENT: 10 },
+          longGaps: { count: 1, totalSeconds: 50, gaps: [] },
+        }),
+      ),
+      transcript('legacy'),
+    ]);
+
+    expect(statistics).toEqual({
+      averageDurationSeconds: 75,
+      averageDuration: '00:01:15',
+      totalDurationSeconds: 150,
+      totalLongGaps: 2,
+      averageLongGapSeconds: 40,
+      averageTimeToFirstAgentResponseSeconds: 4,
+      talkTimeShare: { AGENT: 66.7, CLIENT: 33.3 },
+    });
+  });
+
+  it('aggregates no transcripts to zeros', () => {
+    expect(service.aggregate([])).toEqual({
+      averageDurationSeconds: 0,
+      averageDuration: '00:00:00',
+      totalDurationSeconds: 0,
+      totalLongGaps: 0,
+      averageLongGapSeconds: 0,
+      averageTimeToFirstAgentResponseSeconds: null,
+      talkTimeShare: {},
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CallGap,
+  ParsedTranscript,
+  SpeakerRole,
+  TimingStatistics,
+  TranscriptMessage,
+  TranscriptMetrics,
+} from '../interfaces/transcript.interface';
+import {
+  formatTimestamp,
+  parseTimestamp,
+} from '../parsers/transcript-parser.utils';
+
+@Injectable()
+export class TranscriptMetricsService {
+  private readonly longGapThreshold: number;
+  private readonly wordsPerSecond: number;
+
+  constructor(private configService: ConfigService) {
+    // Zero or unparsable values would turn every interval into a gap or
+    // every talk time estimate into Infinity, so they fall back.
+    const positive = (key: string, fallback: number) => {
+      const value = Number(this.configService.get<number>(key, fallback));
+      return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+    this.longGapThreshold = positive('LONG_GAP_THRESHOLD_SECONDS', 20);
+    this.wordsPerSecond = positive('SPEECH_RATE_WORDS_PER_SECOND', 2.5);
+  }
+
+  calculateMetrics(messages: TranscriptMessage[]): TranscriptMetrics {
+    const timed = messages
+      .map((message) => ({
+        message,
+        seconds: parseTimestamp(message.timestamp),
+      }))
+      .filter(
+        (entry): entry is { message: TranscriptMessage; seconds: number } =>
+          entry.seconds !== null,
+      );
+
+    const talkTimeSeconds: Partial<Record<SpeakerRole, number>> = {};
+    const gaps: CallGap[] = [];
+
+    timed.forEach(({ message, seconds }, index) => {
+      const next = timed[index + 1];
+      const interval = next ? next.seconds - seconds : undefined;
+
+      if (message.speaker !== 'SYSTEM') {
+        // Timestamps only mark when a turn starts, so talk time is estimated
+        // from the word count and capped at the start of the next turn.
+        const estimate = this.estimateSpeakingSeconds(message.content);
+        const talk =
+          interval !== undefined
+            ? Math.min(estimate, Math.max(interval, 0))
+            : estimate;
+        talkTimeSeconds[message.speaker] =
+          (talkTimeSeconds[message.speaker] || 0) + talk;
+      }
+
+      if (next && interval !== undefined && interval >= this.longGapThreshold) {
+        gaps.push({
+          from: message.timestamp,
+          to: next.message.timestamp,
+          seconds: interval,
+          before: message.speaker,
+          after: next.message.speaker,
+        });
+      }
+    });
+
+    for (const role of Object.keys(talkTimeSeconds) as SpeakerRole[]) {
+      talkTimeSeconds[role] = Math.round(talkTimeSeconds[role]! * 10) / 10;
+    }
+
+    // Out-of-order timestamps still span from the earliest to the latest.
+    const seconds = timed.map((entry) => entry.seconds);
+    return {
+      durationSeconds:
+        seconds.length > 0 ? Math.max(...seconds) - Math.min(...seconds) : 0,
+      talkTimeSeconds,
+      longGaps: {
+        count: gaps.length,
+        totalSeconds: gaps.reduce((total, gap) => total + gap.seconds, 0),
+        gaps,
+      },
+      timeToFirstAgentResponseSeconds: this.timeToFirstAgentResponse(timed),
+    };
+  }
+
+  aggregate(transcripts: ParsedTranscript[]): TimingStatistics {
+    const metrics = transcripts
+      .map((t) => t.metrics)
+      .filter((m): m is TranscriptMetrics => !!m);
+
+    const totalDurationSeconds = metrics.reduce(
+      (total, m) => total + m.durationSeconds,
+      0,
+    );
+    const averageDurationSeconds =
+      metrics.length > 0
+        ? Math.round(totalDurationSeconds / metrics.length)
+        : 0;
+
+    const totalLongGaps = metrics.reduce((t, m) => t + m.longGaps.count, 0);
+    const totalGapSeconds = metrics.reduce(
+      (t, m) => t + m.longGaps.totalSeconds,
+      0,
+    );
+
+    const responseTimes = metrics
+      .map((m) => m.timeToFirstAgentResponseSeconds)
+      .filter((s): s is number => s !== null);
+
+    const talkTotals: Partial<Record<SpeakerRole, number>> = {};
+    for (const m of metrics) {
+      for (const [role, seconds] of Object.entries(m.talkTimeSeconds)) {
+        talkTotals[role as SpeakerRole] =
+          (talkTotals[role as SpeakerRole] || 0) + (seconds || 0);
+      }
+    }
+    const totalTalk = Object.values(talkTotals).reduce(
+      (t, s) => t + (s || 0),
+      0,
+    );
+    const talkTimeShare: Partial<Record<SpeakerRole, number>> = {};
+    for (const [role, seconds] of Object.entries(talkTotals)) {
+      talkTimeShare[role as SpeakerRole] =
+        totalTalk > 0
+          ? Math.round(((seconds || 0) / totalTalk) * 1000) / 10
+          : 0;
+    }
+
+    return {
+      averageDurationSeconds,
+      averageDuration: formatTimestamp(averageDurationSeconds),
+      totalDurationSeconds,
+      totalLongGaps,
+      averageLongGapSeconds:
+        totalLongGaps > 0 ? Math.round(totalGapSeconds / totalLongGaps) : 0,
+      averageTimeToFirstAgentResponseSeconds:
+        responseTimes.length > 0
+          ? Math.round(
+              (responseTimes.reduce((t, s) => t + s, 0) /
+                responseTimes.length) *
+                10,
+            ) / 10
+          : null,
+      talkTimeShare,
+    };
+  }
+
+  private estimateSpeakingSeconds(content: string): number {
+    const words = content.split(/\s+/).filter(Boolean).length;
+    return words / this.wordsPerSecond;
+  }
+
+  /**
+   * Seconds between the customer's first turn and the next agent turn.
+   * Null when the customer never speaks or no agent answers afterwards.
+   */
+  private timeToFirstAgentResponse(
+    timed: Array<{ message: TranscriptMessage; seconds: number }>,
+  ): number | null {
+    const firstClient = timed.findIndex((t) => t.message.speaker === 'CLIENT');
+    if (firstClient === -1) return null;
+
+    const response = timed
+      .slice(firstClient + 1)
+      .find((t) => t.message.speaker === 'AGENT');
+
+    return response ? response.seconds - timed[firstClient].seconds : null;
+  }
+}
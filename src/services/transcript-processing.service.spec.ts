@@ -0,0 +1,259 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { mkdtemp, rm, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppModule } from '../app.module';
+import { TranscriptProcessingService } from './transcript-processing.service';
+
+const ENV = {
+  LLM_PROVIDER: 'mock',
+  TRANSCRIPT_STORE: 'memory',
+  TRANSCRIPTS_WATCH: 'false',
+  SAVED_SEARCH_INTERVAL_MS: '0',
+};
+
+const TEXT = [
+  '[00:00:00] AGENTE: Buenos días, ¿en qué le puedo ayudar?',
+  '[00:00:05] CLIENTE: Me cobraron dos veces la boleta.',
+].join('\n');
+
+const SRT = [
+  '1',
+  '00:00:00,000 --> 00:00:04,000',
+  'AGENTE: Hola, soporte técnico.',
+  '',
+  '2',
+  '00:00:05,000 --> 00:00:09,000',
+  'CLIENTE: El router no enciende.',
+].join('\n');
+
+describe('TranscriptProcessingService', () => {
+  let dir: string;
+  let app: INestApplication | undefined;
+  const previousEnv: Record<string, string | undefined> = {};
+
+  async function start(
+    env: Record<string, string> = {},
+  ): Promise<TranscriptProcessingService> {
+    await app?.close();
+    for (const [key, value] of Object.entries({
+      ...ENV,
+      TRANSCRIPTS_DIR: dir,
+      ...env,
+    })) {
+      if (!(key in previousEnv)) {
+        previousEnv[key] = process.env[key];
+      }
+      process.env[key] = value;
+    }
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+    return app.get(TranscriptProcessingService);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'transcript-processing-'));
+  });
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+      delete previousEnv[key];
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('source file changes', () => {
+    beforeEach(async () => {
+      await writeFile(join(dir, 'billing.txt'), TEXT);
+    });
+
+    it('reports whether a reloaded file was added, updated or unchanged', async () => {
+      const service = await start();
+      await writeFile(join(dir, 'router.srt'), SRT);
+
+      await expect(service.reloadTranscriptFile('router.srt')).resolves.toEqual(
+        { transcriptId: 'router', status: 'added' },
+      );
+      await expect(
+        service.reloadTranscriptFile('billing.txt'),
+      ).resolves.toEqual({ transcriptId: 'billing', status: 'unchanged' });
+
+      await writeFile(
+        join(dir, 'billing.txt'),
+        `${TEXT}\n[00:00:09] CLIENTE: Y el router no enciende.`,
+      );
+      await expect(
+        service.reloadTranscriptFile('billing.txt'),
+      ).resolves.toEqual({ transcriptId: 'billing', status: 'updated' });
+      expect(service.getTranscriptById('billing')?.messages).toHaveLength(3);
+      expect(
+        service.searchTranscripts('router').results.map((r) => r.transcript.id),
+      ).toEqual(expect.arrayContaining(['billing', 'router']));
+    });
+
+    it('keeps annotations only while the content is unchanged', async () => {
+      const service = await start();
+      service.updateTranscriptTopics('billing', ['Cobro duplicado'], 'mock');
+
+      await service.reloadTranscriptFile('billing.txt');
+      expect(service.getTranscriptById('billing')?.topics).toEqual([
+        'Cobro duplicado',
+      ]);
+
+      await writeFile(
+        join(dir, 'billing.txt'),
+        `${TEXT}\n[00:00:09] AGENTE: Ya veo.`,
+      );
+      await service.reloadTranscriptFile('billing.txt');
+      expect(service.getTranscriptById('billing')?.topics).toBeUndefined();
+      expect(service.getTranscriptById('billing')?.annotations).toBeUndefined();
+    });
+
+    it('reports a file that no longer parses until it is fixed', async () => {
+      const service = await start();
+
+      await writeFile(join(dir, 'billing.txt'), 'sin marcas de tiempo');
+      await expect(service.reloadTranscriptFile('billing.txt')).rejects.toThrow(
+        'No valid transcript lines found',
+      );
+      expect(service.getIngestionReport().failedFiles).toMatchObject([
+        { fileName: 'billing.txt', source: 'watcher' },
+      ]);
+      expect(service.getTranscriptById('billing')?.messages).toHaveLength(2);
+
+      await writeFile(join(dir, 'billing.txt'), TEXT);
+      await service.reloadTranscriptFile('billing.txt');
+      expect(service.getIngestionReport().failedFiles).toEqual([]);
+    });
+
+    it('removes a deleted file from the store and the search index', async () => {
+      const service = await start();
+      await unlink(join(dir, 'billing.txt'));
+
+      expect(service.removeTranscriptFile('billing.txt')).toBe('billing');
+      expect(service.getTranscriptById('billing')).toBeUndefined();
+      expect(service.searchTranscripts('boleta').total).toBe(0);
+      expect(service.removeTranscriptFile('billing.txt')).toBeNull();
+    });
+  });
+
+  describe('source files sharing an id', () => {
+    beforeEach(async () => {
+      await writeFile(join(dir, 'call.txt'), TEXT);
+      await writeFile(join(dir, 'call.srt'), SRT);
+    });
+
+    it('keeps the first file by name and reports the other', async () => {
+      const service = await start();
+
+      expect(service.getTranscriptById('call')?.fileName).toBe('call.srt');
+      expect(service.getIngestionReport().failedFiles).toMatchObject([
+        {
+          fileName: 'call.txt',
+          source: 'startup',
+          error:
+            'Transcript id call is already used by call.srt; rename one of the files',
+        },
+      ]);
+    });
+
+    it('does not let the watcher replace the transcript with the other file', async () => {
+      const service = await start();
+
+      await expect(service.reloadTranscriptFile('call.txt')).rejects.toThrow(
+        'already used by call.srt',
+      );
+      expect(service.getTranscriptById('call')?.fileName).toBe('call.srt');
+    });
+
+    it('leaves the transcript alone when the other file is deleted', async () => {
+      const service = await start();
+      await unlink(join(dir, 'call.txt'));
+
+      expect(service.removeTranscriptFile('call.txt')).toBeNull();
+      expect(service.getTranscriptById('call')?.fileName).toBe('call.srt');
+    });
+  });
+
+  describe('with a file store', () => {
+    let dataDir: string;
+    const fileStore = () => ({
+      TRANSCRIPT_STORE: 'file',
+      TRANSCRIPT_STORE_PATH: join(dataDir, 'transcripts.json'),
+      VECTOR_INDEX_PATH: join(dataDir, 'vectors.json'),
+      AI_USAGE_LEDGER_PATH: join(dataDir, 'ai-usage-ledger.jsonl'),
+      SAVED_SEARCH_STORE_PATH: join(dataDir, 'saved-searches.json'),
+    });
+
+    beforeEach(async () => {
+      dataDir = await mkdtemp(join(tmpdir(), 'transcript-store-'));
+      await writeFile(join(dir, 'billing.txt'), TEXT);
+      await writeFile(join(dir, 'router.srt'), SRT);
+    });
+
+    afterEach(async () => {
+      await app?.close();
+      app = undefined;
+      await rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('drops transcripts whose file was deleted while stopped', async () => {
+      await start(fileStore());
+      await unlink(join(dir, 'router.srt'));
+
+      const service = await start(fileStore());
+
+      expect(service.getTranscripts().map((t) => t.id)).toEqual(['billing']);
+      expect(service.searchTranscripts('router').total).toBe(0);
+      expect(service.getTranscriptById('billing')?.origin).toBe('directory');
+    });
+
+    it('keeps uploads, which have no file in the directory', async () => {
+      (await start(fileStore())).ingestTranscripts([
+        { fileName: 'outage.txt', content: TEXT },
+      ]);
+
+      const service = await start(fileStore());
+
+      expect(service.getTranscriptById('outage')?.origin).toBe('upload');
+      expect(
+        service.searchTranscripts('boleta').results.map((r) => r.transcript.id),
+      ).toEqual(expect.arrayContaining(['billing', 'outage']));
+    });
+
+    it('does not let a new file replace an upload with the same id', async () => {
+      (await start(fileStore())).ingestTranscripts([
+        { fileName: 'outage.txt', content: TEXT },
+      ]);
+      await writeFile(join(dir, 'outage.srt'), SRT);
+
+      const service = await start(fileStore());
+
+      expect(service.getTranscriptById('outage')?.fileName).toBe('outage.txt');
+      expect(service.getIngestionReport().failedFiles).toMatchObject([
+        {
+          fileName: 'outage.srt',
+          source: 'startup',
+          error:
+            'Transcript id outage is already used by uploaded outage.txt; rename one of the files',
+        },
+      ]);
+      await expect(service.reloadTranscriptFile('outage.srt')).rejects.toThrow(
+        'already used by uploaded outage.txt',
+      );
+      expect(service.removeTranscriptFile('outage.txt')).toBeNull();
+    });
+  });
+});
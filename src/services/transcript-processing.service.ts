@@ -1,38 +1,124 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { basename, join, parse, resolve } from 'path';
 import {
+  DuplicateCluster,
   ParsedTranscript,
   TranscriptMessage,
+  SearchCompletion,
   SearchResult,
+  SimilarTranscript,
   TopicAnalysis,
+  TranscriptUploadResult,
+  TranscriptParticipant,
+  TimingStatistics,
+  IngestionFailure,
+  IngestionReport,
+  TranscriptMetadataFilters,
+  SupportedLanguage,
 } from '../interfaces/transcript.interface';
 import { TranscriptCategory } from '../dto/transcripts.dto';
+import { TranscriptParserRegistry } from '../parsers/transcript-parser.registry';
+import { formatTimestamp } from '../parsers/transcript-parser.utils';
+import { TranscriptMetricsService } from './transcript-metrics.service';
+import { TranscriptMetadataService } from './transcript-metadata.service';
+import { TranscriptRepository } from '../repositories/transcript.repository';
+import { PiiRedactionService } from './pii-redaction.service';
+import { LanguageDetectionService } from './language-detection.service';
+import { TranscriptSearchService } from './transcript-search.service';
+import { SemanticSearchService } from './semantic-search.service';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { ANALYSIS_PROMPTS } from '../prompts/analysis-prompts';
+import { IndexHit } from '../search/inverted-index';
+import {
+  computeFacets,
+  FacetField,
+  FacetFilters,
+  facetValues,
+  matchesFacets,
+  SearchFacets,
+} from '../search/facets';
 
 @Injectable()
 export class TranscriptProcessingService {
   private readonly logger = new Logger(TranscriptProcessingService.name);
-  private transcripts: ParsedTranscript[] = [];
-  private readonly samplePath = join(process.cwd(), 'sample');
+  private ingestionFailures = new Map<string, IngestionFailure>();
+  private readonly sourcePath: string;
+  private readonly excludeDuplicates: boolean;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly parserRegistry: TranscriptParserRegistry,
+    private readonly metricsService: TranscriptMetricsService,
+    private readonly metadataService: TranscriptMetadataService,
+    private readonly repository: TranscriptRepository,
+    private readonly piiRedactionService: PiiRedactionService,
+    private readonly languageDetectionService: LanguageDetectionService,
+    private readonly searchService: TranscriptSearchService,
+    private readonly semanticSearchService: SemanticSearchService,
+    private readonly duplicateDetectionService: DuplicateDetectionService,
+  ) {
+    this.sourcePath = resolve(
+      process.cwd(),
+      this.configService.get<string>('TRANSCRIPTS_DIR', 'sample'),
+    );
+    this.excludeDuplicates =
+      this.configService.get<string>('EXCLUDE_DUPLICATES', 'false') === 'true';
+  }
+
+  getSourcePath(): string {
+    return this.sourcePath;
+  }
 
   async loadAllTranscripts(): Promise<void> {
     try {
-      const files = await fs.readdir(this.samplePath);
-      const txtFiles = files.filter((file) => file.endsWith('.txt'));
-
-      this.logger.log(`Loading ${txtFiles.length} transcript files...`);
+      await this.repository.load();
+
+      const files = await fs.readdir(this.sourcePath);
+      // Sorted so that, of two files sharing an id (call.json and
+      // call.csv), the same one wins on every start.
+      const transcriptFiles = files
+        .filter((file) => this.parserRegistry.isSupported(file))
+        .sort();
+      const loadedFrom = new Map<string, string>();
+
+      this.logger.log(`Loading ${transcriptFiles.length} transcript files...`);
+
+      for (const file of transcriptFiles) {
+        const transcriptId = this.toTranscriptId(file);
+        const owner =
+          loadedFrom.get(transcriptId) ?? this.uploadOwning(transcriptId);
+        if (owner) {
+          this.logger.warn(
+            `Skipping ${file}: transcript id ${transcriptId} is already used by ${owner}`,
+          );
+          this.recordFailure(
+            file,
+            'startup',
+            this.idConflict(transcriptId, owner),
+          );
+          continue;
+        }
 
-      for (const file of txtFiles) {
         try {
           const transcript = await this.parseTranscriptFile(file);
-          this.transcripts.push(transcript);
+          loadedFrom.set(transcriptId, file);
+          this.repository.save(this.withStoredAnnotations(transcript));
         } catch (error) {
           this.logger.error(`Error parsing file ${file}:`, error);
+          this.recordFailure(file, 'startup', error);
         }
       }
 
+      this.removeDeletedSourceFiles(new Set(transcriptFiles));
+      this.searchService.rebuild(this.repository.findAll());
+      this.semanticSearchService.sync(this.repository.findAll());
+      this.duplicateDetectionService.rebuild(this.repository.findAll());
+
       this.logger.log(
-        `Successfully loaded ${this.transcripts.length} transcripts`,
+        `Successfully loaded ${this.repository.findAll().length} transcripts`,
       );
     } catch (error) {
       this.logger.error('Error loading transcript files:', error);
@@ -43,133 +129,487 @@ export class TranscriptProcessingService {
   private async parseTranscriptFile(
     fileName: string,
   ): Promise<ParsedTranscript> {
-    const filePath = join(this.samplePath, fileName);
+    const filePath = join(this.sourcePath, fileName);
     const content = await fs.readFile(filePath, 'utf-8');
 
-    const messages: TranscriptMessage[] = [];
-    const lines = content.split('\n').filter((line) => line.trim());
-
-    for (const line of lines) {
-      const match = line.match(/\[([^\]]+)\]\s+(\w+):\s*(.+)/);
-      if (match) {
-        const [, timestamp, speaker, content] = match;
-        if (['AGENTE', 'CLIENTE', 'SISTEMA'].includes(speaker)) {
-          messages.push({
-            timestamp,
-            speaker: speaker as 'AGENT' | 'CLIENT' | 'SYSTEM',
-            content: content.trim(),
-          });
-        }
+    return this.parseTranscriptContent(fileName, content, 'directory');
+  }
+
+  /**
+   * Parses a file from the source directory again after it was added or
+   * modified. When the content changed, annotations produced for the old
+   * content are dropped.
+   */
+  async reloadTranscriptFile(fileName: string): Promise<{
+    transcriptId: string;
+    status: 'added' | 'updated' | 'unchanged';
+  }> {
+    const transcriptId = this.toTranscriptId(fileName);
+    const existing = this.getTranscriptById(transcriptId);
+    const owner = this.uploadOwning(transcriptId) ?? existing?.fileName;
+
+    if (owner && owner !== fileName) {
+      const error = this.idConflict(transcriptId, owner);
+      this.recordFailure(fileName, 'watcher', error);
+      throw error;
+    }
+
+    let transcript: ParsedTranscript;
+    try {
+      transcript = await this.parseTranscriptFile(fileName);
+    } catch (error) {
+      this.recordFailure(fileName, 'watcher', error);
+      throw error;
+    }
+    this.ingestionFailures.delete(fileName);
+
+    if (existing && existing.contentHash === transcript.contentHash) {
+      return { transcriptId, status: 'unchanged' };
+    }
+
+    this.store(transcript);
+    this.logger.log(
+      `${existing ? 'Reloaded' : 'Added'} transcript ${transcriptId} from ${fileName}`,
+    );
+    this.warnIfDuplicate(transcriptId);
+
+    return { transcriptId, status: existing ? 'updated' : 'added' };
+  }
+
+  removeTranscriptFile(fileName: string): string | null {
+    const transcriptId = this.toTranscriptId(fileName);
+    const existing = this.getTranscriptById(transcriptId);
+    this.ingestionFailures.delete(fileName);
+
+    if (
+      !existing ||
+      existing.origin === 'upload' ||
+      existing.fileName !== fileName
+    ) {
+      return null;
+    }
+
+    this.remove(transcriptId);
+    this.logger.log(`Removed transcript ${transcriptId} (${fileName} deleted)`);
+
+    return transcriptId;
+  }
+
+  /**
+   * Drops stored transcripts whose source file was deleted while the app
+   * was not running, so the watcher never saw it go. Uploads have no file
+   * in the directory and are kept.
+   */
+  private removeDeletedSourceFiles(fileNames: Set<string>): void {
+    for (const transcript of this.repository.findAll()) {
+      if (
+        transcript.origin === 'upload' ||
+        fileNames.has(transcript.fileName)
+      ) {
+        continue;
       }
+
+      this.remove(transcript.id);
+      this.logger.log(
+        `Removed transcript ${transcript.id} (${transcript.fileName} no longer exists)`,
+      );
+    }
+  }
+
+  private parseTranscriptContent(
+    fileName: string,
+    content: string,
+    origin: ParsedTranscript['origin'],
+  ): ParsedTranscript {
+    const { format, messages, skippedLines } = this.parserRegistry.parse(
+      fileName,
+      content,
+    );
+
+    if (messages.length === 0) {
+      throw new Error('No valid transcript lines found');
     }
 
+    const metrics = this.metricsService.calculateMetrics(messages);
+
     return {
-      id: fileName.replace('.txt', ''),
+      id: this.toTranscriptId(fileName),
       fileName,
+      origin,
+      format,
+      contentHash: createHash('sha256').update(content).digest('hex'),
+      language: this.languageDetectionService.detectLanguage(messages).language,
       messages,
-      duration: this.calculateDuration(messages),
+      participants: this.collectParticipants(messages),
+      skippedLines,
+      redactedEntityTypes:
+        this.piiRedactionService.redactMessages(messages).entityTypes,
+      duration: formatTimestamp(metrics.durationSeconds),
+      metrics,
+      metadata: this.metadataService.extractMetadata(messages, skippedLines),
     };
   }
 
-  private calculateDuration(messages: TranscriptMessage[]): string {
-    if (messages.length === 0) return '00:00:00';
+  ingestTranscripts(
+    files: Array<{ fileName: string; content: string }>,
+  ): TranscriptUploadResult[] {
+    const results: TranscriptUploadResult[] = [];
+
+    for (const file of files) {
+      const fileName = basename(file.fileName);
 
-    const firstTimestamp = messages[0].timestamp;
-    const lastTimestamp = messages[messages.length - 1].timestamp;
+      if (!this.parserRegistry.isSupported(fileName)) {
+        const error = `Unsupported file type, expected one of: ${this.parserRegistry.getSupportedExtensions().join(', ')}`;
+        this.recordFailure(fileName, 'upload', error);
+        results.push({ fileName, status: 'failed', error });
+        continue;
+      }
 
-    return `${firstTimestamp} - ${lastTimestamp}`;
+      const transcriptId = this.toTranscriptId(fileName);
+      if (this.getTranscriptById(transcriptId)) {
+        results.push({
+          fileName,
+          transcriptId,
+          status: 'duplicate',
+          error: `Transcript ${transcriptId} already exists`,
+        });
+        continue;
+      }
+
+      try {
+        const transcript = this.parseTranscriptContent(
+          fileName,
+          file.content,
+          'upload',
+        );
+        this.store(transcript);
+        this.ingestionFailures.delete(fileName);
+        results.push({
+          fileName,
+          transcriptId,
+          status: 'loaded',
+          messageCount: transcript.messages.length,
+          duplicateOf: this.warnIfDuplicate(transcriptId) ?? undefined,
+        });
+      } catch (error) {
+        this.logger.error(`Error parsing uploaded file ${fileName}:`, error);
+        this.recordFailure(fileName, 'upload', error);
+        results.push({
+          fileName,
+          transcriptId,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const loaded = results.filter((r) => r.status === 'loaded').length;
+    this.logger.log(
+      `Ingested ${loaded}/${files.length} uploaded transcript files`,
+    );
+
+    return results;
   }
 
-  getTranscripts(): ParsedTranscript[] {
-    return this.transcripts;
+  getIngestionReport(): IngestionReport {
+    const skippedByReason: IngestionReport['skippedByReason'] = {};
+    let linesSkipped = 0;
+    const transcripts = this.repository.findAll();
+
+    for (const transcript of transcripts) {
+      for (const line of transcript.skippedLines || []) {
+        skippedByReason[line.reason] = (skippedByReason[line.reason] || 0) + 1;
+        linesSkipped++;
+      }
+    }
+
+    const transcriptsWithSkippedLines = transcripts
+      .filter((t) => t.skippedLines && t.skippedLines.length > 0)
+      .map((t) => ({
+        transcriptId: t.id,
+        fileName: t.fileName,
+        skippedLines: t.skippedLines!.length,
+      }))
+      .sort((a, b) => b.skippedLines - a.skippedLines);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      filesLoaded: transcripts.length,
+      filesFailed: this.ingestionFailures.size,
+      failedFiles: Array.from(this.ingestionFailures.values()),
+      linesSkipped,
+      skippedByReason,
+      transcriptsWithSkippedLines,
+    };
+  }
+
+  private warnIfDuplicate(
+    transcriptId: string,
+  ): { transcriptId: string; similarity: number } | null {
+    const duplicate =
+      this.duplicateDetectionService.nearestDuplicate(transcriptId);
+    if (duplicate) {
+      this.logger.warn(
+        `Transcript ${transcriptId} duplicates ${duplicate.transcriptId} (similarity ${duplicate.similarity})`,
+      );
+    }
+    return duplicate;
+  }
+
+  private recordFailure(
+    fileName: string,
+    source: IngestionFailure['source'],
+    error: unknown,
+  ): void {
+    this.ingestionFailures.set(fileName, {
+      fileName,
+      source,
+      error: error instanceof Error ? error.message : String(error),
+      failedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Re-parsed source files replace the stored copy, but the AI annotations
+   * already paid for are carried over as long as the content is the same.
+   */
+  private withStoredAnnotations(
+    transcript: ParsedTranscript,
+  ): ParsedTranscript {
+    const stored = this.repository.findById(transcript.id);
+    if (
+      !stored?.annotations ||
+      (stored.contentHash && stored.contentHash !== transcript.contentHash)
+    ) {
+      return transcript;
+    }
+
+    return {
+      ...transcript,
+      category: stored.category,
+      summary: stored.summary,
+      topics: stored.topics,
+      sentiment: stored.sentiment,
+      annotations: stored.annotations,
+    };
+  }
+
+  private collectParticipants(
+    messages: TranscriptMessage[],
+  ): TranscriptParticipant[] {
+    const participants = new Map<string, TranscriptParticipant>();
+
+    for (const message of messages) {
+      const key = `${message.speaker}:${message.speakerLabel}`;
+      const participant = participants.get(key);
+      if (participant) {
+        participant.messageCount++;
+      } else {
+        participants.set(key, {
+          label: message.speakerLabel,
+          role: message.speaker,
+          messageCount: 1,
+        });
+      }
+    }
+
+    return Array.from(participants.values());
+  }
+
+  private store(transcript: ParsedTranscript): void {
+    this.repository.save(transcript);
+    this.searchService.indexTranscript(transcript);
+    this.semanticSearchService.indexTranscript(transcript);
+    this.duplicateDetectionService.indexTranscript(transcript);
+  }
+
+  private remove(transcriptId: string): void {
+    this.repository.delete(transcriptId);
+    this.searchService.removeTranscript(transcriptId);
+    this.semanticSearchService.removeTranscript(transcriptId);
+    this.duplicateDetectionService.removeTranscript(transcriptId);
+  }
+
+  /** How an upload holding the id is named in id conflicts. */
+  private uploadOwning(transcriptId: string): string | undefined {
+    const stored = this.repository.findById(transcriptId);
+    return stored?.origin === 'upload'
+      ? `uploaded ${stored.fileName}`
+      : undefined;
+  }
+
+  private toTranscriptId(fileName: string): string {
+    return parse(fileName).name;
+  }
+
+  private idConflict(transcriptId: string, owner: string): Error {
+    return new Error(
+      `Transcript id ${transcriptId} is already used by ${owner}; rename one of the files`,
+    );
+  }
+
+  getTranscripts(filters: TranscriptMetadataFilters = {}): ParsedTranscript[] {
+    return this.repository
+      .findAll()
+      .filter((t) => this.matchesMetadata(t, filters));
+  }
+
+  /**
+   * Transcripts behind statistics, topic frequencies and AI batch jobs:
+   * all of them, or one per duplicate cluster with EXCLUDE_DUPLICATES=true.
+   */
+  getAnalysisTranscripts(): ParsedTranscript[] {
+    const transcripts = this.getTranscripts();
+    if (!this.excludeDuplicates) {
+      return transcripts;
+    }
+
+    const redundant = this.duplicateDetectionService.redundantIds();
+    return transcripts.filter((t) => !redundant.has(t.id));
+  }
+
+  getDuplicateReport(): {
+    threshold: number;
+    excludedFromAnalysis: boolean;
+    redundantTranscripts: number;
+    clusters: DuplicateCluster[];
+  } {
+    return {
+      threshold: this.duplicateDetectionService.getThreshold(),
+      excludedFromAnalysis: this.excludeDuplicates,
+      redundantTranscripts: this.duplicateDetectionService.redundantIds().size,
+      clusters: this.duplicateDetectionService.findClusters(),
+    };
   }
 
   getTranscriptById(id: string): ParsedTranscript | undefined {
-    return this.transcripts.find((t) => t.id === id);
+    return this.repository.findById(id);
+  }
+
+  findSimilarTranscripts(
+    id: string,
+    limit: number = 10,
+  ): SimilarTranscript[] | null {
+    return this.searchService.findSimilar(id, limit);
+  }
+
+  completeSearchTerm(prefix: string, limit: number = 10): SearchCompletion[] {
+    return this.searchService.complete(prefix, limit);
   }
 
   searchTranscripts(
     query: string,
-    category?: TranscriptCategory,
+    facetFilters: FacetFilters = {},
     page: number = 1,
     limit: number = 10,
+    filters: TranscriptMetadataFilters = {},
+    contextMessages?: number,
   ): {
     results: SearchResult[];
+    facets: SearchFacets;
+    suggestion?: string;
     total: number;
     page: number;
     totalPages: number;
   } {
-    const queryLower = query.toLowerCase();
-    let filteredTranscripts = this.transcripts;
-
-    if (category) {
-      filteredTranscripts = filteredTranscripts.filter(
-        (t) => t.category === category,
-      );
-    }
-
-    const searchResults: SearchResult[] = [];
-
-    for (const transcript of filteredTranscripts) {
-      const matchedMessages: TranscriptMessage[] = [];
-      let relevanceScore = 0;
-
-      for (const message of transcript.messages) {
-        if (message.content.toLowerCase().includes(queryLower)) {
-          matchedMessages.push(message);
-          relevanceScore += 1;
-        }
+    const candidates: Array<{
+      transcript: ParsedTranscript;
+      hit: IndexHit;
+      values: Record<FacetField, string[]>;
+    }> = [];
+
+    // Hits arrive ranked by BM25; filters only drop entries.
+    for (const hit of this.searchService.search(query)) {
+      const transcript = this.getTranscriptById(hit.id);
+      if (!transcript || !this.matchesMetadata(transcript, filters)) {
+        continue;
       }
 
-      if (transcript.summary?.toLowerCase().includes(queryLower)) {
-        relevanceScore += 2;
-      }
-
-      if (
-        transcript.topics?.some((topic) =>
-          topic.toLowerCase().includes(queryLower),
-        )
-      ) {
-        relevanceScore += 3;
-      }
-
-      if (relevanceScore > 0) {
-        searchResults.push({
-          transcript,
-          relevanceScore,
-          matchedMessages,
-        });
-      }
+      candidates.push({ transcript, hit, values: facetValues(transcript) });
     }
 
-    searchResults.sort((a, b) => b.relevanceScore - a.relevanceScore);
+    // Facets are counted before the facet filters narrow the hits.
+    const facets = computeFacets(
+      candidates.map((candidate) => candidate.values),
+      facetFilters,
+    );
+    const matches = candidates.filter((candidate) =>
+      matchesFacets(candidate.values, facetFilters),
+    );
 
-    const total = searchResults.length;
+    const total = matches.length;
     const totalPages = Math.ceil(total / limit);
     const startIndex = (page - 1) * limit;
     const endIndex = startIndex + limit;
-    const results = searchResults.slice(startIndex, endIndex);
+
+    // Snippets are only built for the page being returned.
+    const results = matches
+      .slice(startIndex, endIndex)
+      .map(({ transcript, hit }) => ({
+        transcript,
+        relevanceScore: Math.round(hit.score * 1000) / 1000,
+        matchedMessages: hit.messageIndexes.map(
+          (index) => transcript.messages[index],
+        ),
+        snippets: this.searchService.buildSnippets(
+          transcript,
+          hit,
+          contextMessages,
+        ),
+      }));
 
     return {
       results,
+      facets,
+      suggestion: this.searchService.suggestCorrection(query, total),
       total,
       page,
       totalPages,
     };
   }
 
+  private matchesMetadata(
+    transcript: ParsedTranscript,
+    filters: TranscriptMetadataFilters,
+  ): boolean {
+    const metadata = transcript.metadata;
+    const nameMatches = (name: string | undefined, filter?: string) =>
+      !filter || !!name?.toLowerCase().includes(filter.toLowerCase());
+
+    return (
+      nameMatches(metadata?.agentName, filters.agentName) &&
+      nameMatches(metadata?.customerName, filters.customerName) &&
+      (!filters.outcome || metadata?.outcome === filters.outcome) &&
+      (!filters.supervisorInvolvement ||
+        metadata?.supervisorInvolvement === filters.supervisorInvolvement)
+    );
+  }
+
   updateTranscriptClassification(
     transcriptId: string,
-    category: string,
-    summary?: string,
+    category: TranscriptCategory,
+    summary: string | undefined,
+    model: string,
+    language?: SupportedLanguage,
   ): void {
     const transcript = this.getTranscriptById(transcriptId);
     if (transcript) {
       const oldCategory = transcript.category || 'unclassified';
+      const provenance = {
+        model,
+        annotatedAt: new Date().toISOString(),
+        language,
+      };
       transcript.category = category;
+      transcript.annotations = {
+        ...transcript.annotations,
+        category: provenance,
+      };
       if (summary) {
         transcript.summary = summary;
+        transcript.annotations.summary = provenance;
       }
+      this.store(transcript);
       console.log(
         `Updated transcript ${transcriptId}: ${oldCategory} → ${category}`,
       );
@@ -180,15 +620,25 @@ export class TranscriptProcessingService {
     }
   }
 
-  updateTranscriptTopics(transcriptId: string, topics: string[]): void {
+  updateTranscriptTopics(
+    transcriptId: string,
+    topics: string[],
+    model: string,
+    language?: SupportedLanguage,
+  ): void {
     const transcript = this.getTranscriptById(transcriptId);
     if (transcript) {
       transcript.topics = topics;
+      transcript.annotations = {
+        ...transcript.annotations,
+        topics: { model, annotatedAt: new Date().toISOString(), language },
+      };
+      this.store(transcript);
     }
   }
 
   getFrequentTopics(category?: TranscriptCategory): TopicAnalysis[] {
-    let targetTranscripts = this.transcripts;
+    let targetTranscripts = this.getAnalysisTranscripts();
 
     if (category) {
       targetTranscripts = targetTranscripts.filter(
@@ -205,12 +655,17 @@ export class TranscriptProcessingService {
     }
 
     const topicFrequency = new Map<string, Set<string>>();
+    const topicLanguages = new Map<string, SupportedLanguage>();
 
     transcriptsWithTopics.forEach((transcript) => {
       transcript.topics!.forEach((topic) => {
         const normalizedTopic = topic.toLowerCase().trim();
         if (!topicFrequency.has(normalizedTopic)) {
           topicFrequency.set(normalizedTopic, new Set());
+          topicLanguages.set(
+            normalizedTopic,
+            transcript.annotations?.topics?.language ?? 'en',
+          );
         }
         topicFrequency.get(normalizedTopic)!.add(transcript.id);
       });
@@ -221,7 +676,8 @@ export class TranscriptProcessingService {
         topic: this.capitalizeFirstLetter(topic),
         frequency: transcriptIds.size,
         relevantTranscripts: Array.from(transcriptIds),
-        description: this.getAITopicDescription(topic),
+        description:
+          ANALYSIS_PROMPTS[topicLanguages.get(topic)!].describeTopic(topic),
       }))
       .sort((a, b) => b.frequency - a.frequency)
       .slice(0, 10);
@@ -233,45 +689,21 @@ export class TranscriptProcessingService {
     return str.charAt(0).toUpperCase() + str.slice(1);
   }
 
-  private getAITopicDescription(topic: string): string {
-    const descriptions: Record<string, string> = {
-      billing: 'Issues related to billing, charges, and payment inquiries',
-      technical: 'Technical problems with services like internet, TV, or phone',
-      activation: 'Service activation and setup requests',
-      support: 'General customer support and assistance requests',
-      complaint: 'Customer complaints and dissatisfaction issues',
-      commercial: 'Commercial inquiries about plans, promotions, and upgrades',
-      refund: 'Refund requests and credit adjustments',
-      cancellation: 'Service cancellation and termination requests',
-      internet: 'Internet connectivity and speed related issues',
-      plan: 'Plan changes, upgrades, and service modifications',
-      disputed: 'Disputed charges and billing discrepancies',
-      configuration: 'Service configuration and setup assistance',
-      appointment: 'Service appointment scheduling and coordination',
-    };
-
-    const lowerTopic = topic.toLowerCase();
-    for (const [key, desc] of Object.entries(descriptions)) {
-      if (lowerTopic.includes(key)) {
-        return desc;
-      }
-    }
-
-    return `AI-identified topic: ${topic}`;
-  }
-
   getStatistics(): {
     totalTranscripts: number;
     categoriesDistribution: { [key: string]: number };
     averageMessagesPerTranscript: number;
+    duplicatesExcluded: number;
+    timing: TimingStatistics;
   } {
-    const totalTranscripts = this.transcripts.length;
+    const transcripts = this.getAnalysisTranscripts();
+    const totalTranscripts = transcripts.length;
     const categoriesDistribution: { [key: string]: number } = {};
     let totalMessages = 0;
 
     console.log(`Calculating statistics for ${totalTranscripts} transcripts`);
 
-    for (const transcript of this.transcripts) {
+    for (const transcript of transcripts) {
       totalMessages += transcript.messages.length;
 
       const category = transcript.category || 'unclassified';
@@ -289,6 +721,8 @@ export class TranscriptProcessingService {
       totalTranscripts,
       categoriesDistribution,
       averageMessagesPerTranscript: totalMessages / totalTranscripts || 0,
+      duplicatesExcluded: this.repository.findAll().length - totalTranscripts,
+      timing: this.metricsService.aggregate(transcripts),
     };
   }
 }
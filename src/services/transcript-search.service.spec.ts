@@ -0,0 +1,225 @@
+import { ConfigService } from '@nestjs/config';
+import { TranscriptSearchService } from './transcript-search.service';
+import { SpeakerRoleMapper } from '../parsers/speaker-role.mapper';
+import {
+  ParsedTranscript,
+  TranscriptMessage,
+} from '../interfaces/transcript.interface';
+import { QueryParseError } from '../search/query-parser';
+import { QueryEvaluator } from '../search/query-evaluator';
+import { SpanishAnalyzer } from '../search/spanish-analyzer';
+
+function transcript(
+  id: string,
+  messages: Array<[string, TranscriptMessage['speaker'], string]>,
+): ParsedTranscript {
+  return {
+    id,
+    fileName: `${id}.txt`,
+    messages: messages.map(([timestamp, speaker, content]) => ({
+      timestamp,
+      speaker,
+      speakerLabel: speaker,
+      content,
+    })),
+  };
+}
+
+describe('TranscriptSearchService', () => {
+  let service: TranscriptSearchService;
+  const corpus = [
+    transcript('refund', [
+      ['00:00:05', 'CLIENT', 'Tengo un cargo adicional en mi boleta.'],
+      ['00:01:10', 'AGENT', 'Le hacemos la devolución del cobro.'],
+    ]),
+    transcript('cancel', [
+      ['00:00:05', 'CLIENT', 'Vi un cargo adicional y quiero cancelar.'],
+      ['00:00:30', 'AGENT', 'Podemos hacer un reembolso.'],
+    ]),
+    transcript('late', [
+      ['00:00:05', 'AGENT', 'Buenos días.'],
+      ['00:03:00', 'CLIENT', 'Un cargo extra adicional, pido reembolso.'],
+    ]),
+  ];
+  const search = (query: string) => service.search(query).map((hit) => hit.id);
+
+  beforeEach(() => {
+    const config = new ConfigService();
+    service = new TranscriptSearchService(
+      config,
+      new SpeakerRoleMapper(config),
+    );
+    service.rebuild(corpus);
+  });
+
+  it('combines phrases, alternatives and exclusions', () => {
+    expect(
+      search('"cargo adicional" AND (devolución OR reembolso) -cancelar'),
+    ).toEqual(['refund']);
+    expect(search('"cargo adicional"').sort()).toEqual(['cancel', 'refund']);
+    expect(search('factura').sort()).toEqual(['refund']);
+  });
+
+  it('only matches messages from the requested speaker', () => {
+    expect(search('reembolso speaker:CLIENTE')).toEqual(['late']);
+    expect(search('reembolso speaker:AGENTE')).toEqual(['cancel']);
+  });
+
+  it('restricts matches to a time window', () => {
+    expect(search('cargo to:2m').sort()).toEqual(['cancel', 'refund']);
+    expect(search('cargo from:2m')).toEqual(['late']);
+  });
+
+  it('returns the matching messages', () => {
+    const [hit] = service.search('devolución OR boleta');
+    expect(hit.id).toBe('refund');
+    expect(hit.messageIndexes).toEqual([0, 1]);
+  });
+
+  it('builds snippets with highlight offsets and surrounding messages', () => {
+    const [hit] = service.search('reembolso speaker:CLIENTE');
+    const [snippet] = service.buildSnippets(corpus[2], hit, 1);
+
+    expect(snippet.messageIndex).toBe(1);
+    expect(snippet.before.map((m) => m.content)).toEqual(['Buenos días.']);
+    expect(snippet.after).toEqual([]);
+    expect(
+      snippet.highlights.map(({ start, end }) =>
+        snippet.message.content.slice(start, end),
+      ),
+    ).toEqual(['reembolso']);
+  });
+
+  it('highlights every word of a phrase, however it is inflected', () => {
+    const hit = service
+      .search('"cargos adicionales"')
+      .find((h) => h.id === 'refund')!;
+    const [snippet] = service.buildSnippets(corpus[0], hit, 0);
+
+    expect(snippet.after).toEqual([]);
+    expect(
+      snippet.highlights.map(({ start, end }) =>
+        snippet.message.content.slice(start, end),
+      ),
+    ).toEqual(['cargo', 'adicional']);
+  });
+
+  it('matches misspelled words against close indexed words', () => {
+    expect(search('rembolso').sort()).toEqual(['cancel', 'late']);
+    expect(search('devoluicón')).toEqual(['refund']);
+    expect(search('"cargo adicioanl"')).toEqual([]);
+  });
+
+  it('suggests corrections for unknown and rare words', () => {
+    expect(service.suggestCorrection('rembolso -cancelar', 2)).toBe(
+      'reembolso -cancelar',
+    );
+    expect(service.suggestCorrection('reembolso', 2)).toBeUndefined();
+    expect(service.suggestCorrection('xyzzy', 0)).toBeUndefined();
+  });
+
+  it('does not tolerate typos when fuzzy matching is disabled', () => {
+    const config = new ConfigService({ SEARCH_FUZZY_MAX_DISTANCE: '0' });
+    const strict = new TranscriptSearchService(
+      config,
+      new SpeakerRoleMapper(config),
+    );
+    strict.rebuild(corpus);
+
+    expect(strict.search('rembolso')).toEqual([]);
+  });
+
+  it('completes prefixes with topics first, ignoring accents', () => {
+    service.indexTranscript({ ...corpus[0], topics: ['Devoluciones'] });
+
+    expect(service.complete('devo', 5)).toEqual([
+      { text: 'Devoluciones', type: 'topic', documentCount: 1 },
+      { text: 'devolución', type: 'word', documentCount: 1 },
+    ]);
+  });
+
+  it('finds similar transcripts and explains the match', () => {
+    service.indexTranscript({
+      ...corpus[0],
+      category: 'billing_issues',
+      topics: ['Cargo adicional', 'devolución'],
+    });
+    service.indexTranscript({
+      ...corpus[1],
+      category: 'billing_issues',
+      topics: ['cargo adicional', 'cancelación'],
+    });
+
+    const similar = service.findSimilar('refund', 5)!;
+
+    expect(similar.map((s) => s.transcriptId)).toEqual(['cancel', 'late']);
+    const { sharedTerms, ...explanation } = similar[0].explanation;
+    expect(sharedTerms.map((t) => t.word)).toEqual(
+      expect.arrayContaining(['cargo', 'adicional']),
+    );
+    expect(explanation).toEqual({
+      sharedTopics: ['Cargo adicional'],
+      sameCategory: true,
+    });
+    expect(similar[0].components.topics).toBeCloseTo(1 / 3);
+    expect(similar[1].components.category).toBe(0);
+    expect(service.findSimilar('missing', 5)).toBeNull();
+  });
+
+  describe('without scanning the corpus', () => {
+    const evaluate = jest.spyOn(QueryEvaluator.prototype, 'evaluate');
+    const analyze = jest.spyOn(SpanishAnalyzer.prototype, 'analyze');
+    const evaluated = () =>
+      evaluate.mock.calls.map(([, document]) => document.id).sort();
+
+    beforeEach(() => {
+      evaluate.mockClear();
+      analyze.mockClear();
+    });
+
+    afterAll(() => {
+      evaluate.mockRestore();
+      analyze.mockRestore();
+    });
+
+    it('evaluates only transcripts holding a positive term', () => {
+      expect(search('devolución -cancelar')).toEqual(['refund']);
+      expect(evaluated()).toEqual(['refund']);
+
+      evaluate.mockClear();
+      expect(search('rembolso OR boleta').sort()).toEqual([
+        'cancel',
+        'late',
+        'refund',
+      ]);
+      expect(evaluated()).toEqual(['cancel', 'late', 'refund']);
+
+      evaluate.mockClear();
+      expect(search('"cargo adicional" AND boleta')).toEqual(['refund']);
+      expect(evaluated()).toEqual(['refund']);
+    });
+
+    it('evaluates every transcript for queries with only exclusions', () => {
+      expect(search('-cancelar').sort()).toEqual(['late', 'refund']);
+      expect(evaluated()).toEqual(['cancel', 'late', 'refund']);
+    });
+
+    it('matches nothing for queries made of stop words', () => {
+      expect(search('de la')).toEqual([]);
+      expect(evaluate).not.toHaveBeenCalled();
+    });
+
+    it('checks phrases without analyzing the messages again', () => {
+      expect(search('"cargo adicional"').sort()).toEqual(['cancel', 'refund']);
+      expect(new Set(analyze.mock.calls.map(([text]) => text))).toEqual(
+        new Set(['cargo adicional']),
+      );
+    });
+  });
+
+  it('rejects unknown speakers', () => {
+    expect(() => service.search('cargo speaker:ROBOT')).toThrow(
+      new QueryParseError("Unknown speaker 'ROBOT' at position 6", 6),
+    );
+  });
+});
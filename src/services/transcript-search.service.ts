@@ -0,0 +1,542 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ParsedTranscript,
+  SearchCompletion,
+  SearchHighlight,
+  SearchSnippet,
+  SimilarTranscript,
+  SpeakerRole,
+} from '../interfaces/transcript.interface';
+import {
+  IndexedDocument,
+  IndexHit,
+  InvertedIndex,
+  SEARCH_FIELDS,
+  SearchField,
+} from '../search/inverted-index';
+import {
+  AnalyzedToken,
+  DEFAULT_SYNONYMS,
+  foldAccents,
+  parseSynonyms,
+  SpanishAnalyzer,
+} from '../search/spanish-analyzer';
+import {
+  parseQuery,
+  QueryFilters,
+  QueryNode,
+  QueryParseError,
+} from '../search/query-parser';
+import { Vocabulary } from '../search/vocabulary';
+import { AnalyzedDocument, QueryEvaluator } from '../search/query-evaluator';
+import { SpeakerRoleMapper } from '../parsers/speaker-role.mapper';
+import { parseTimestamp } from '../parsers/transcript-parser.utils';
+
+const DEFAULT_FIELD_WEIGHTS: Record<SearchField, number> = {
+  message: 1,
+  summary: 2,
+  topics: 3,
+  names: 2,
+};
+
+type SimilarityComponent = keyof SimilarTranscript['components'];
+
+const DEFAULT_SIMILARITY_WEIGHTS: Record<SimilarityComponent, number> = {
+  terms: 0.6,
+  topics: 0.25,
+  category: 0.15,
+};
+
+// Shared terms listed in a similarity explanation.
+const EXPLAINED_TERMS = 8;
+
+/**
+ * Keeps the inverted index in step with the transcript store. The index is
+ * rebuilt after loading and updated on every save, so search requests
+ * never scan message text.
+ */
+@Injectable()
+export class TranscriptSearchService {
+  private readonly logger = new Logger(TranscriptSearchService.name);
+  private readonly index: InvertedIndex;
+  private readonly analyzer: SpanishAnalyzer;
+  private readonly evaluator: QueryEvaluator;
+  private readonly transcripts = new Map<string, ParsedTranscript>();
+  /** Documents as evaluated by queries, analyzed once when indexed. */
+  private readonly documents = new Map<string, AnalyzedDocument>();
+  private readonly contextMessages: number;
+  private readonly vocabulary = new Vocabulary();
+  private readonly fuzzyMaxDistance: number;
+  private readonly suggestBelow: number;
+  private readonly similarityWeights: Record<SimilarityComponent, number>;
+  /** Fuzzy expansions per unknown word; reset whenever the index changes. */
+  private readonly expansions = new Map<string, string[]>();
+
+  constructor(
+    private configService: ConfigService,
+    private readonly speakerRoleMapper: SpeakerRoleMapper,
+  ) {
+    const fieldWeights = this.parseWeights(
+      this.configService.get<string>('SEARCH_FIELD_WEIGHTS'),
+      DEFAULT_FIELD_WEIGHTS,
+      'search field weight',
+    );
+
+    this.analyzer = new SpanishAnalyzer(
+      parseSynonyms(
+        this.configService.get<string>('SEARCH_SYNONYMS', DEFAULT_SYNONYMS),
+      ),
+    );
+
+    this.index = new InvertedIndex(
+      {
+        k1: Number(this.configService.get<number>('SEARCH_BM25_K1', 1.2)),
+        b: Number(this.configService.get<number>('SEARCH_BM25_B', 0.75)),
+        fieldWeights,
+      },
+      (text) => this.analyzer.analyze(text),
+    );
+    this.evaluator = new QueryEvaluator(
+      this.index,
+      this.analyzer,
+      (word, term) => this.expandTerm(word, term),
+    );
+    this.contextMessages = Math.max(
+      0,
+      Math.floor(
+        Number(this.configService.get<number>('SEARCH_CONTEXT_MESSAGES', 1)),
+      ) || 0,
+    );
+
+    this.fuzzyMaxDistance = Math.max(
+      0,
+      Math.floor(
+        Number(this.configService.get<number>('SEARCH_FUZZY_MAX_DISTANCE', 2)),
+      ) || 0,
+    );
+    this.similarityWeights = this.parseWeights(
+      this.configService.get<string>('SIMILAR_WEIGHTS'),
+      DEFAULT_SIMILARITY_WEIGHTS,
+      'similarity weight',
+    );
+    this.suggestBelow = Math.max(
+      0,
+      Number(this.configService.get<number>('SEARCH_SUGGEST_BELOW', 3)) || 0,
+    );
+
+    this.logger.log(
+      `Search field weights: ${SEARCH_FIELDS.map((f) => `${f}=${fieldWeights[f]}`).join(', ')}`,
+    );
+  }
+
+  rebuild(transcripts: ParsedTranscript[]): void {
+    this.index.clear();
+    this.vocabulary.clear();
+    this.transcripts.clear();
+    this.documents.clear();
+    transcripts.forEach((transcript) => this.indexTranscript(transcript));
+    this.logger.log(`Indexed ${this.index.size} transcripts for search`);
+  }
+
+  indexTranscript(transcript: ParsedTranscript): void {
+    const document = this.toDocument(transcript);
+    this.transcripts.set(transcript.id, transcript);
+    this.documents.set(transcript.id, this.evaluator.analyzeDocument(document));
+    this.index.add(document);
+    this.vocabulary.add(
+      transcript.id,
+      [
+        ...transcript.messages.map((m) => m.content),
+        transcript.summary ?? '',
+        ...(transcript.topics ?? []),
+      ].flatMap((text) => this.vocabularyTokens(text)),
+    );
+    this.expansions.clear();
+  }
+
+  removeTranscript(id: string): void {
+    this.transcripts.delete(id);
+    this.documents.delete(id);
+    this.index.remove(id);
+    this.vocabulary.remove(id);
+    this.expansions.clear();
+  }
+
+  /**
+   * Runs a query in the syntax documented in query-parser.ts and returns
+   * the matching transcripts ranked by BM25. Only transcripts holding one
+   * of the query's positive terms are evaluated. Throws QueryParseError
+   * for malformed queries or unknown speakers.
+   */
+  search(query: string): IndexHit[] {
+    const { root, filters } = parseQuery(query);
+    const roles = this.resolveSpeakers(filters);
+    const hits: IndexHit[] = [];
+
+    for (const id of this.evaluator.candidates(root) ?? this.documents.keys()) {
+      const transcript = this.transcripts.get(id)!;
+      const match = this.evaluator.evaluate(
+        root,
+        this.documents.get(id)!,
+        this.allowedMessages(transcript, filters, roles),
+      );
+      if (match) {
+        hits.push({
+          id,
+          score: this.index.score(id, match.terms),
+          messageIndexes: match.messageIndexes,
+          matchedTerms: match.terms,
+        });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * The query with misspelled words replaced by the closest indexed word.
+   * Words that are indexed but rare are also replaced by a more common
+   * neighbour when the search found fewer than SEARCH_SUGGEST_BELOW
+   * results. Returns undefined when there is nothing to correct.
+   */
+  suggestCorrection(query: string, resultCount: number): string | undefined {
+    const words: Array<{ value: string; position: number }> = [];
+    const collect = (node: QueryNode) => {
+      if (node.type === 'term') words.push(node);
+      else if (node.type === 'not') collect(node.child);
+      else if (node.type !== 'phrase') node.children.forEach(collect);
+    };
+    collect(parseQuery(query).root);
+
+    let suggestion = query;
+    for (const { value, position } of words.sort(
+      (a, b) => b.position - a.position,
+    )) {
+      const terms = this.analyzer.analyze(value);
+      if (terms.length !== 1) continue;
+
+      const frequency = this.index.documentFrequency(terms[0]);
+      if (frequency > 0 && resultCount >= this.suggestBelow) continue;
+
+      const replacement = this.vocabulary
+        .closest(value, this.fuzzyMaxDistance)
+        .find(
+          (entry) =>
+            !entry.properNoun &&
+            entry.term !== terms[0] &&
+            this.index.documentFrequency(entry.term) > frequency,
+        );
+      if (replacement) {
+        suggestion =
+          suggestion.slice(0, position) +
+          replacement.word +
+          suggestion.slice(position + value.length);
+      }
+    }
+
+    return suggestion === query ? undefined : suggestion;
+  }
+
+  /** Known topics, then common indexed words, starting with `prefix`. */
+  complete(prefix: string, limit: number): SearchCompletion[] {
+    const folded = foldAccents(prefix.trim().toLowerCase());
+    const topics = new Map<string, SearchCompletion>();
+
+    for (const transcript of this.transcripts.values()) {
+      for (const topic of new Set(transcript.topics ?? [])) {
+        const key = foldAccents(topic.toLowerCase());
+        if (!key.startsWith(folded)) continue;
+
+        const completion = topics.get(key) ?? {
+          text: topic,
+          type: 'topic' as const,
+          documentCount: 0,
+        };
+        completion.documentCount++;
+        topics.set(key, completion);
+      }
+    }
+
+    const words = this.vocabulary.complete(folded, limit).map(
+      (entry): SearchCompletion => ({
+        text: entry.word,
+        type: 'word',
+        documentCount: entry.documentFrequency,
+      }),
+    );
+
+    return [
+      ...Array.from(topics.values()).sort(
+        (a, b) => b.documentCount - a.documentCount,
+      ),
+      ...words,
+    ].slice(0, limit);
+  }
+
+  /**
+   * Transcripts resembling `id`, combining the TF-IDF similarity of their
+   * messages with the overlap of AI topics and category (SIMILAR_WEIGHTS).
+   * Components the source transcript has no data for (no topics or
+   * category yet) are left out and the remaining weights rescaled. Returns
+   * null when the transcript is not indexed.
+   */
+  findSimilar(id: string, limit: number): SimilarTranscript[] | null {
+    const source = this.transcripts.get(id);
+    if (!source) {
+      return null;
+    }
+
+    // Names and numbers are left out: sharing an agent or an amount does
+    // not make two calls alike.
+    const words = this.vocabulary.wordsByTerm();
+    const byTerms = new Map(
+      this.index
+        .similarDocuments(
+          id,
+          (term) => words.get(term) === null || !/\p{L}/u.test(term),
+        )
+        .map((document) => [document.id, document]),
+    );
+
+    const sourceTopics = new Map(
+      (source.topics ?? []).map((topic) => [topic.toLowerCase(), topic]),
+    );
+    const active: SimilarityComponent[] = ['terms'];
+    if (sourceTopics.size > 0) active.push('topics');
+    if (source.category) active.push('category');
+    const totalWeight = active.reduce(
+      (sum, component) => sum + this.similarityWeights[component],
+      0,
+    );
+
+    const results: SimilarTranscript[] = [];
+    for (const candidate of this.transcripts.values()) {
+      if (candidate.id === id) continue;
+
+      const candidateTopics = new Set(
+        (candidate.topics ?? []).map((topic) => topic.toLowerCase()),
+      );
+      const sharedTopics = [...sourceTopics.keys()].filter((topic) =>
+        candidateTopics.has(topic),
+      );
+      const unionSize =
+        new Set([...sourceTopics.keys(), ...candidateTopics]).size || 1;
+      const sameCategory =
+        !!source.category && source.category === candidate.category;
+      const termMatch = byTerms.get(candidate.id);
+
+      const components = {
+        terms: termMatch?.similarity ?? 0,
+        topics: sharedTopics.length / unionSize,
+        category: sameCategory ? 1 : 0,
+      };
+      const score = totalWeight
+        ? active.reduce(
+            (sum, component) =>
+              sum + this.similarityWeights[component] * components[component],
+            0,
+          ) / totalWeight
+        : 0;
+      if (score <= 0) continue;
+
+      results.push({
+        transcriptId: candidate.id,
+        fileName: candidate.fileName,
+        category: candidate.category,
+        topics: candidate.topics,
+        score: round(score),
+        components: {
+          terms: round(components.terms),
+          topics: round(components.topics),
+          category: components.category,
+        },
+        explanation: {
+          sharedTerms: (termMatch?.sharedTerms ?? [])
+            .slice(0, EXPLAINED_TERMS)
+            .map(({ term, weight }) => ({
+              word: words.get(term) ?? term,
+              weight: round(weight),
+            })),
+          sharedTopics: sharedTopics.map((topic) => sourceTopics.get(topic)!),
+          sameCategory,
+        },
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * BM25 scores for plain text, ignoring query syntax, scaled so the best
+   * transcript scores 1. Used to blend lexical and semantic ranking.
+   */
+  lexicalScores(text: string): Map<string, number> {
+    const hits = this.index.search(text);
+    const best = Math.max(0, ...hits.map((hit) => hit.score));
+
+    return new Map(
+      hits.map((hit) => [hit.id, best > 0 ? hit.score / best : 0]),
+    );
+  }
+
+  /**
+   * Builds one snippet per matched message: the offsets of the words that
+   * produced `terms`, plus up to `context` messages on each side.
+   */
+  buildSnippets(
+    transcript: ParsedTranscript,
+    hit: IndexHit,
+    context: number = this.contextMessages,
+  ): SearchSnippet[] {
+    const terms = new Set(hit.matchedTerms);
+    const { messages } = transcript;
+
+    return hit.messageIndexes.map((index) => ({
+      messageIndex: index,
+      message: messages[index],
+      highlights: this.highlight(messages[index].content, terms),
+      before: messages.slice(Math.max(0, index - context), index),
+      after: messages.slice(index + 1, index + 1 + context),
+    }));
+  }
+
+  private highlight(content: string, terms: Set<string>): SearchHighlight[] {
+    return this.analyzer
+      .analyzeWithOffsets(content)
+      .filter((token) => terms.has(token.term))
+      .map(({ start, end, term }) => ({ start, end, term }));
+  }
+
+  /** Terms of the closest indexed words when `term` is not in the index. */
+  private expandTerm(word: string, term: string): string[] {
+    if (this.fuzzyMaxDistance === 0 || this.index.documentFrequency(term) > 0) {
+      return [term];
+    }
+
+    const key = word.toLowerCase();
+    let expanded = this.expansions.get(key);
+    if (!expanded) {
+      expanded = Array.from(
+        new Set(
+          this.vocabulary
+            .closest(word, this.fuzzyMaxDistance)
+            .map((entry) => entry.term),
+        ),
+      );
+      this.expansions.set(key, expanded);
+    }
+    return expanded;
+  }
+
+  /**
+   * Analyzed words for the vocabulary, leaving out email addresses: their
+   * lower-case "mariana.lopez" would otherwise pass a name off as a common
+   * word and surface it in suggestions.
+   */
+  private vocabularyTokens(text: string): AnalyzedToken[] {
+    const emails = Array.from(text.matchAll(/\S+@\S+/g), (match) => [
+      match.index,
+      match.index + match[0].length,
+    ]);
+
+    return this.analyzer
+      .analyzeWithOffsets(text)
+      .filter(
+        (token) =>
+          !emails.some(
+            ([start, end]) => token.start >= start && token.end <= end,
+          ),
+      );
+  }
+
+  private resolveSpeakers(filters: QueryFilters): Set<SpeakerRole> | null {
+    if (filters.speakers.length === 0) {
+      return null;
+    }
+
+    return new Set(
+      filters.speakers.map(({ label, position }) => {
+        const resolved = this.speakerRoleMapper.resolve(label);
+        if (!resolved) {
+          throw new QueryParseError(
+            `Unknown speaker '${label}' at position ${position}`,
+            position,
+          );
+        }
+        return resolved.speaker;
+      }),
+    );
+  }
+
+  /** Messages the filters let through, or null when nothing is filtered. */
+  private allowedMessages(
+    transcript: ParsedTranscript,
+    filters: QueryFilters,
+    roles: Set<SpeakerRole> | null,
+  ): Set<number> | null {
+    const { fromSeconds, toSeconds } = filters;
+    const timed = fromSeconds !== undefined || toSeconds !== undefined;
+    if (!roles && !timed) {
+      return null;
+    }
+
+    const seconds = transcript.messages.map((m) => parseTimestamp(m.timestamp));
+    const start = Math.min(
+      ...seconds.filter((value): value is number => value !== null),
+    );
+
+    const allowed = new Set<number>();
+    transcript.messages.forEach((message, index) => {
+      if (roles && !roles.has(message.speaker)) return;
+      if (timed) {
+        const offset = seconds[index];
+        if (offset === null) return;
+        if (fromSeconds !== undefined && offset - start < fromSeconds) return;
+        if (toSeconds !== undefined && offset - start >= toSeconds) return;
+      }
+      allowed.add(index);
+    });
+    return allowed;
+  }
+
+  private toDocument(transcript: ParsedTranscript): IndexedDocument {
+    return {
+      id: transcript.id,
+      messages: transcript.messages.map((m) => m.content),
+      summary: transcript.summary,
+      topics: transcript.topics,
+      names: [
+        transcript.metadata?.agentName,
+        transcript.metadata?.customerName,
+      ].filter((name): name is string => !!name),
+    };
+  }
+
+  /** Parses "message:1,summary:2"; omitted keys keep their default. */
+  private parseWeights<K extends string>(
+    configured: string | undefined,
+    defaults: Record<K, number>,
+    description: string,
+  ): Record<K, number> {
+    const weights = { ...defaults };
+
+    for (const entry of (configured || '').split(',')) {
+      const [key, value] = entry.split(':').map((part) => part.trim());
+      const weight = Number(value);
+      if (!key) continue;
+
+      if (!(key in defaults) || !Number.isFinite(weight) || weight < 0) {
+        this.logger.warn(`Ignoring invalid ${description} "${entry}"`);
+        continue;
+      }
+      weights[key as K] = weight;
+    }
+
+    return weights;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,196 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { FSWatcher, watch } from 'fs';
+import { mkdtemp, rm, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppModule } from '../app.module';
+import { TranscriptWatcherService } from './transcript-watcher.service';
+import { TranscriptProcessingService } from './transcript-processing.service';
+import { CacheService } from './cache.service';
+
+jest.mock('fs', () => ({
+  ...jest.requireActual<typeof import('fs')>('fs'),
+  watch: jest.fn(),
+}));
+
+const ENV = {
+  LLM_PROVIDER: 'mock',
+  TRANSCRIPT_STORE: 'memory',
+  TRANSCRIPTS_WATCH: 'true',
+  TRANSCRIPTS_WATCH_DEBOUNCE_MS: '100',
+  SAVED_SEARCH_INTERVAL_MS: '0',
+};
+
+const BILLING = [
+  '[00:00:00] AGENTE: Buenos días, ¿en qué le puedo ayudar?',
+  '[00:00:05] CLIENTE: Me cobraron dos veces la boleta.',
+].join('\n');
+
+const ROUTER = [
+  '[00:00:00] AGENTE: Soporte técnico, buenas tardes.',
+  '[00:00:04] CLIENTE: El router no enciende.',
+].join('\n');
+
+describe('TranscriptWatcherService', () => {
+  let dir: string;
+  let app: INestApplication;
+  let transcripts: TranscriptProcessingService;
+  let cache: CacheService;
+  const previousEnv: Record<string, string | undefined> = {};
+  const watchMock = jest.mocked(watch);
+  const handleChange = jest.spyOn(
+    TranscriptWatcherService.prototype as unknown as {
+      handleChange(fileName: string): Promise<void>;
+    },
+    'handleChange',
+  );
+
+  /** Reports an fs.watch event and waits for the debounced handling. */
+  async function emit(fileName: string, ...more: string[]): Promise<void> {
+    const listener = watchMock.mock.calls[0][1];
+    [fileName, ...more].forEach((name) => listener('change', name));
+    await jest.advanceTimersByTimeAsync(100);
+    await Promise.all(
+      handleChange.mock.results.map((result) => result.value as Promise<void>),
+    );
+  }
+
+  function ids(query: string): string[] {
+    return transcripts
+      .searchTranscripts(query)
+      .results.map((result) => result.transcript.id);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'transcript-watcher-'));
+    await writeFile(join(dir, 'billing.txt'), BILLING);
+
+    for (const [key, value] of Object.entries({
+      ...ENV,
+      TRANSCRIPTS_DIR: dir,
+    })) {
+      previousEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+    watchMock.mockReturnValue({
+      on: jest.fn(),
+      close: jest.fn(),
+    } as unknown as FSWatcher);
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    app = moduleRef.createNestApplication({ logger: false });
+    await app.init();
+
+    transcripts = app.get(TranscriptProcessingService);
+    cache = app.get(CacheService);
+    jest.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    watchMock.mockReset();
+    handleChange.mockClear();
+    await app.close();
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('watches the source directory', () => {
+    expect(watchMock).toHaveBeenCalledWith(dir, expect.any(Function));
+  });
+
+  it('handles a burst of events for a file once they settle', async () => {
+    await writeFile(join(dir, 'router.txt'), ROUTER);
+    const listener = watchMock.mock.calls[0][1];
+
+    listener('rename', 'router.txt');
+    await jest.advanceTimersByTimeAsync(60);
+    listener('change', 'router.txt');
+    await jest.advanceTimersByTimeAsync(60);
+    expect(handleChange).not.toHaveBeenCalled();
+
+    await emit('router.txt');
+    expect(handleChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores files no parser supports', async () => {
+    await writeFile(join(dir, 'notes.docx'), 'irrelevant');
+
+    await emit('notes.docx');
+
+    expect(handleChange).not.toHaveBeenCalled();
+  });
+
+  it('adds a new file to the store and the search index', async () => {
+    await writeFile(join(dir, 'router.txt'), ROUTER);
+
+    await emit('router.txt');
+
+    expect(transcripts.getTranscriptById('router')?.fileName).toBe(
+      'router.txt',
+    );
+    expect(ids('router')).toEqual(['router']);
+  });
+
+  it('reindexes an edited file', async () => {
+    await writeFile(join(dir, 'billing.txt'), ROUTER);
+
+    await emit('billing.txt');
+
+    expect(transcripts.getTranscriptById('billing')?.messages[1].content).toBe(
+      'El router no enciende.',
+    );
+    expect(ids('router')).toEqual(['billing']);
+    expect(ids('boleta')).toEqual([]);
+  });
+
+  it('drops a deleted file from the store and the search index', async () => {
+    await unlink(join(dir, 'billing.txt'));
+
+    await emit('billing.txt');
+
+    expect(transcripts.getTranscriptById('billing')).toBeUndefined();
+    expect(ids('boleta')).toEqual([]);
+  });
+
+  it.each([
+    ['edited', () => writeFile(join(dir, 'billing.txt'), ROUTER)],
+    ['deleted', () => unlink(join(dir, 'billing.txt'))],
+  ])('invalidates the cached results when a file is %s', async (_, change) => {
+    const keys = [
+      'statistics',
+      'search:boleta',
+      'frequent-topics:all',
+      'ai-topics:{}',
+      'ai-classify-all-transcripts',
+      'ai-classify:billing',
+      'ai-summary:billing',
+    ];
+    keys.forEach((key) => cache.set(key, { stale: true }));
+    cache.set('ai-summary:router', { stale: false });
+    await change();
+
+    await emit('billing.txt');
+
+    expect(keys.filter((key) => cache.has(key))).toEqual([]);
+    expect(cache.has('ai-summary:router')).toBe(true);
+  });
+
+  it('keeps the caches when an edit leaves the content unchanged', async () => {
+    cache.set('statistics', { stale: false });
+    await writeFile(join(dir, 'billing.txt'), BILLING);
+
+    await emit('billing.txt');
+
+    expect(cache.has('statistics')).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FSWatcher, promises as fs, watch } from 'fs';
+import { join } from 'path';
+import { TranscriptProcessingService } from './transcript-processing.service';
+import { CacheService } from './cache.service';
+import { TranscriptParserRegistry } from '../parsers/transcript-parser.registry';
+
+/**
+ * Watches the transcript source directory so files dropped in during the
+ * day are picked up without a restart. fs.watch reports several events per
+ * write, so each file is handled once its events settle.
+ */
+@Injectable()
+export class TranscriptWatcherService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TranscriptWatcherService.name);
+  private readonly enabled: boolean;
+  private readonly debounceMs: number;
+  private watcher: FSWatcher | null = null;
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private configService: ConfigService,
+    private readonly transcriptService: TranscriptProcessingService,
+    private readonly parserRegistry: TranscriptParserRegistry,
+    private readonly cacheService: CacheService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('TRANSCRIPTS_WATCH', 'true') === 'true';
+    this.debounceMs = Number(
+      this.configService.get<number>('TRANSCRIPTS_WATCH_DEBOUNCE_MS', 500),
+    );
+  }
+
+  onApplicationBootstrap(): void {
+    if (!this.enabled) {
+      this.logger.log('Transcript directory watching is disabled');
+      return;
+    }
+
+    const directory = this.transcriptService.getSourcePath();
+    try {
+      this.watcher = watch(directory, (_event, fileName) => {
+        if (fileName && this.parserRegistry.isSupported(fileName)) {
+          this.schedule(fileName.toString());
+        }
+      });
+      this.watcher.on('error', (error) =>
+        this.logger.error(`Error watching ${directory}:`, error),
+      );
+      this.logger.log(`Watching ${directory} for transcript changes`);
+    } catch (error) {
+      this.logger.error(`Unable to watch ${directory}:`, error);
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.pending.forEach((timer) => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  private schedule(fileName: string): void {
+    const existing = this.pending.get(fileName);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.pending.set(
+      fileName,
+      setTimeout(() => {
+        this.pending.delete(fileName);
+        this.handleChange(fileName).catch((error) =>
+          this.logger.error(`Error processing change to ${fileName}:`, error),
+        );
+      }, this.debounceMs),
+    );
+  }
+
+  private async handleChange(fileName: string): Promise<void> {
+    const filePath = join(this.transcriptService.getSourcePath(), fileName);
+    const exists = await fs
+      .stat(filePath)
+      .then((stats) => stats.isFile())
+      .catch(() => false);
+
+    if (!exists) {
+      const removedId = this.transcriptService.removeTranscriptFile(fileName);
+      if (removedId) {
+        this.cacheService.invalidateTranscripts([removedId]);
+      }
+      return;
+    }
+
+    try {
+      const { transcriptId, status } =
+        await this.transcriptService.reloadTranscriptFile(fileName);
+      if (status !== 'unchanged') {
+        this.cacheService.invalidateTranscripts([transcriptId]);
+      }
+    } catch (error) {
+      this.logger.error(`Error parsing changed file ${fileName}:`, error);
+    }
+  }
+}